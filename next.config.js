@@ -2,7 +2,7 @@
 const nextConfig = {
   // This tells Next.js to skip bundling these packages.
   // This is the ONLY way to fix that "Module not found" error for ffmpeg.
-  serverExternalPackages: ['fluent-ffmpeg', '@ffmpeg-installer/ffmpeg'],
+  serverExternalPackages: ['fluent-ffmpeg', '@ffmpeg-installer/ffmpeg', 'pdfjs-dist'],
 };
 
 module.exports = nextConfig;
\ No newline at end of file
@@ -4,6 +4,7 @@
  */
 
 import { processAudioComplete, SUPPORTED_LANGUAGES, cleanupTempFiles } from '../src/lib/audio-processor';
+import { getDefaultTranscriberName, TRANSCRIBER_NAMES } from '../src/lib/transcribers';
 import fs from 'fs';
 import path from 'path';
 
@@ -36,16 +37,12 @@ async function testAudioProcessing() {
     console.log(`📏 File Size: ${(fs.statSync(testFile).size / 1024).toFixed(2)} KB\n`);
 
     try {
-        // Test 1: Check if Google Cloud credentials are configured
-        console.log('Test 1: Checking Google Cloud credentials...');
-        const hasCredentials = process.env.GOOGLE_APPLICATION_CREDENTIALS;
-        if (hasCredentials) {
-            console.log('✅ Google Cloud credentials configured');
-            console.log(`   Path: ${process.env.GOOGLE_APPLICATION_CREDENTIALS}\n`);
-        } else {
-            console.log('⚠️  Google Cloud credentials not configured');
-            console.log('   Will use Groq Whisper fallback\n');
-        }
+        // Test 1: Report which speech-to-text engine will run
+        console.log('Test 1: Resolving speech-to-text engine...');
+        const transcriberName = getDefaultTranscriberName();
+        console.log(`✅ Using transcriber: ${transcriberName}`);
+        console.log(`   Available: ${TRANSCRIBER_NAMES.join(', ')}`);
+        console.log('   Set TRANSCRIBER=fixture to run without installing Whisper\n');
 
         // Test 2: Process the audio file
         console.log('Test 2: Processing audio file...');
@@ -53,7 +50,7 @@ async function testAudioProcessing() {
 
         const startTime = Date.now();
 
-        const result = await processAudioComplete(testFile, 'en-IN');
+        const result = await processAudioComplete(testFile, 'en-IN', transcriberName);
 
         const duration = ((Date.now() - startTime) / 1000).toFixed(2);
 
@@ -93,17 +90,12 @@ async function testAudioProcessing() {
         console.log('❌ TEST FAILED\n');
         console.error('Error:', error.message);
 
-        if (error.message.includes('GOOGLE_APPLICATION_CREDENTIALS')) {
-            console.log('\n💡 Solution: Set up Google Cloud credentials');
-            console.log('   See: google_cloud_setup.md for instructions');
-        }
-
-        if (error.message.includes('API has not been used')) {
-            console.log('\n💡 Solution: Enable Speech-to-Text API in Google Cloud Console');
+        if (error.message.includes('No transcript fixture')) {
+            console.log('\n💡 Solution: Add a Whisper JSON fixture under scripts/fixtures/');
         }
 
-        console.log('\n⚠️  Note: If Google Cloud is not configured, the system will');
-        console.log('   automatically fall back to Groq Whisper in production.');
+        console.log('\n⚠️  Note: Switch engines with the TRANSCRIBER environment variable');
+        console.log(`   (${TRANSCRIBER_NAMES.join(', ')}).`);
     }
 }
 
@@ -2,6 +2,37 @@ import { NextRequest, NextResponse } from 'next/server';
 import { connectToDatabase } from '@/lib/mongoose';
 import FinancialDocument from '@/models/FinancialDocument';
 import { chatWithDocument } from '@/lib/mastra';
+import { decryptVault } from '@/lib/pii-vault';
+import { RedactionVault, redactWithVault, rehydrate } from '@/lib/redaction';
+import type { IRedactedSources } from '@/models/FinancialDocument';
+
+// Stored as numbers/dates parsed from the re-hydrated analysis, so redactWithVault can't find them
+const PARSED_FIELDS = ['totalAmount', 'dueDate'] as const;
+
+/**
+ * Document as the LLM may see it: vault values swapped for their tokens, parsed
+ * fields replaced by the redacted text they were read from (or left out when
+ * that is unknown or a reviewer changed them), and corrections without values.
+ */
+function redactDocument(document: Record<string, any>, vault: RedactionVault): Record<string, unknown> {
+    const { corrections, redactedSources, ...rest } = document;
+    const sources: IRedactedSources = redactedSources || {};
+    const corrected: string[] = document.correctedFields || [];
+    const redacted = redactWithVault(rest, vault);
+
+    for (const field of PARSED_FIELDS) {
+        const source = sources[field];
+        if (source && !corrected.includes(field)) redacted[field] = source;
+        else delete redacted[field];
+    }
+
+    redacted.corrections = (corrections || []).map((c: { field: string; role: string; editedAt: Date }) => ({
+        field: c.field,
+        role: c.role,
+        editedAt: c.editedAt,
+    }));
+    return redacted;
+}
 
 export async function POST(request: NextRequest) {
     try {
@@ -16,7 +47,8 @@ export async function POST(request: NextRequest) {
 
         // Connect to database and fetch document
         await connectToDatabase();
-        const document = await FinancialDocument.findById(documentId).lean();
+        // OCR word boxes are only for highlighting; the page text is enough for the LLM
+        const document = await FinancialDocument.findById(documentId).select('+piiVault -pages.ocr.words').lean();
 
         if (!document) {
             return NextResponse.json(
@@ -25,19 +57,24 @@ export async function POST(request: NextRequest) {
             );
         }
 
-        // Only allow chat on completed documents
-        if (document.status !== 'COMPLETED') {
+        // Only allow chat on processed documents (including those awaiting review)
+        if (document.status !== 'COMPLETED' && document.status !== 'NEEDS_REVIEW') {
             return NextResponse.json(
                 { error: 'Document is still processing or failed' },
                 { status: 400 }
             );
         }
 
-        // Get AI response
-        const response = await chatWithDocument(document, message);
+        // Audio documents carry a PII vault: the LLM only sees tokens, the user gets real values back
+        const { piiVault, ...documentData } = document;
+        const vault = piiVault ? decryptVault(piiVault) : null;
+
+        const response = vault
+            ? await chatWithDocument(redactDocument(documentData, vault), redactWithVault(message, vault))
+            : await chatWithDocument(documentData, message);
 
         return NextResponse.json({
-            answer: response.answer,
+            answer: vault ? rehydrate(response.answer, vault) : response.answer,
             timestamp: new Date().toISOString()
         });
 
@@ -0,0 +1,119 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { connectToDatabase } from '@/lib/mongoose';
+import FinancialDocument from '@/models/FinancialDocument';
+import { canCorrectExtractions, getRequestRole } from '@/lib/access-control';
+import { decryptVault } from '@/lib/pii-vault';
+import { redactWithVault } from '@/lib/redaction';
+
+/**
+ * One corrected field as a training/eval example: what the AI said, what the
+ * reviewer changed it to, and the source text it should have come from
+ */
+interface CorrectionRecord {
+    documentId: string;
+    fileName: string;
+    fileType: string;
+    documentType?: string;
+    field: string;
+    aiValue: unknown;
+    correctedValue: unknown;
+    evidenceQuote?: string;
+    /** Redacted call transcript (audio only) */
+    transcript?: string;
+    editedBy: string;
+    editedAt: Date;
+}
+
+// Export reviewer corrections as JSON Lines (default) or JSON
+export async function GET(req: NextRequest) {
+    try {
+        if (!canCorrectExtractions(getRequestRole(req))) {
+            return NextResponse.json(
+                { error: 'Only reviewers and admins can export corrections' },
+                { status: 403 }
+            );
+        }
+
+        const searchParams = req.nextUrl.searchParams;
+        const format = searchParams.get('format') || 'jsonl';
+        const organizationId = searchParams.get('organizationId');
+        const since = searchParams.get('since');
+        const includeTranscript = searchParams.get('includeTranscript') === 'true';
+
+        if (format !== 'jsonl' && format !== 'json') {
+            return NextResponse.json(
+                { error: 'format must be jsonl or json' },
+                { status: 400 }
+            );
+        }
+
+        const query: any = { correctedAt: { $exists: true } };
+        if (organizationId) {
+            query.organizationId = organizationId;
+        }
+        if (since) {
+            const sinceDate = new Date(since);
+            if (isNaN(sinceDate.getTime())) {
+                return NextResponse.json(
+                    { error: 'since must be a date' },
+                    { status: 400 }
+                );
+            }
+            query.correctedAt = { $gte: sinceDate };
+        }
+
+        await connectToDatabase();
+        const documents = await FinancialDocument
+            .find(query)
+            .select('+piiVault')
+            .sort({ correctedAt: -1 })
+            .lean();
+
+        const records: CorrectionRecord[] = documents.flatMap(doc => {
+            // Audio transcripts are stored redacted, so values are redacted the same way to match
+            const vault = doc.piiVault ? decryptVault(doc.piiVault) : null;
+            const redact = <T>(value: T): T => (vault ? redactWithVault(value, vault) : value);
+
+            // Latest value per field; the AI value comes from the first correction
+            const latest = new Map<string, NonNullable<typeof doc.corrections>[number]>();
+            for (const correction of doc.corrections || []) {
+                latest.set(correction.field, correction);
+            }
+
+            return [...latest.values()].map(correction => ({
+                documentId: doc._id.toString(),
+                fileName: doc.fileName,
+                fileType: doc.fileType,
+                documentType: doc.documentType,
+                field: correction.field,
+                aiValue: redact(correction.originalValue),
+                correctedValue: redact(correction.correctedValue),
+                evidenceQuote: doc.evidence?.find(e => e.field === correction.field)?.quote,
+                transcript: includeTranscript ? doc.transcript : undefined,
+                editedBy: correction.editedBy,
+                editedAt: correction.editedAt,
+            }));
+        });
+
+        if (format === 'json') {
+            return NextResponse.json({ success: true, records, count: records.length });
+        }
+
+        return new NextResponse(records.map(r => JSON.stringify(r)).join('\n') + (records.length ? '\n' : ''), {
+            headers: {
+                'Content-Type': 'application/x-ndjson; charset=utf-8',
+                'Content-Disposition': `attachment; filename="corrections-${new Date().toISOString().slice(0, 10)}.jsonl"`,
+            },
+        });
+
+    } catch (error) {
+        console.error('Error exporting corrections:', error);
+        return NextResponse.json(
+            {
+                error: 'Failed to export corrections',
+                details: error instanceof Error ? error.message : 'Unknown error'
+            },
+            { status: 500 }
+        );
+    }
+}
@@ -0,0 +1,126 @@
+import { NextRequest, NextResponse } from 'next/server';
+import mongoose from 'mongoose';
+import { connectToDatabase } from '@/lib/mongoose';
+import FinancialDocument from '@/models/FinancialDocument';
+import { canHearUnredactedAudio, getRequestRole } from '@/lib/access-control';
+import { privateAudioPath } from '@/lib/audio-redaction';
+import fs from 'fs';
+
+interface RouteContext {
+    params: Promise<{ id: string }>;
+}
+
+const VARIANTS = ['original', 'enhanced', 'redacted'] as const;
+type AudioVariant = typeof VARIANTS[number];
+
+function isAudioVariant(value: unknown): value is AudioVariant {
+    return typeof value === 'string' && (VARIANTS as readonly string[]).includes(value);
+}
+
+// Serve a file with HTTP range support so the player can seek
+function streamFile(req: NextRequest, filePath: string, contentType: string): NextResponse {
+    const size = fs.statSync(filePath).size;
+    const headers: Record<string, string> = {
+        'Content-Type': contentType,
+        'Accept-Ranges': 'bytes',
+        'Cache-Control': 'private, no-store',
+    };
+
+    const range = req.headers.get('range')?.match(/^bytes=(\d*)-(\d*)$/);
+    if (range && (range[1] || range[2])) {
+        const start = range[1] ? parseInt(range[1], 10) : Math.max(0, size - parseInt(range[2], 10));
+        const end = range[1] && range[2] ? Math.min(parseInt(range[2], 10), size - 1) : size - 1;
+
+        if (start >= size || start > end) {
+            return new NextResponse(null, { status: 416, headers: { 'Content-Range': `bytes */${size}` } });
+        }
+
+        const stream = fs.createReadStream(filePath, { start, end });
+        return new NextResponse(stream as unknown as ReadableStream, {
+            status: 206,
+            headers: {
+                ...headers,
+                'Content-Range': `bytes ${start}-${end}/${size}`,
+                'Content-Length': String(end - start + 1),
+            },
+        });
+    }
+
+    return new NextResponse(fs.createReadStream(filePath) as unknown as ReadableStream, {
+        headers: { ...headers, 'Content-Length': String(size) },
+    });
+}
+
+// Play a call recording: the redacted rendition for everyone, the originals for reviewers/admins
+export async function GET(req: NextRequest, { params }: RouteContext) {
+    try {
+        const { id } = await params;
+        const variant = req.nextUrl.searchParams.get('variant') || 'redacted';
+
+        if (!isAudioVariant(variant)) {
+            return NextResponse.json(
+                { error: `Invalid variant. Allowed: ${VARIANTS.join(', ')}` },
+                { status: 400 }
+            );
+        }
+
+        if (!mongoose.isValidObjectId(id)) {
+            return NextResponse.json(
+                { error: 'Invalid document id' },
+                { status: 400 }
+            );
+        }
+
+        await connectToDatabase();
+        const document = await FinancialDocument.findById(id).select('fileType redactedAudioUrl audioRedaction').lean();
+
+        if (!document) {
+            return NextResponse.json(
+                { error: 'Document not found' },
+                { status: 404 }
+            );
+        }
+
+        if (variant === 'redacted') {
+            if (!document.redactedAudioUrl) {
+                return NextResponse.json(
+                    { error: 'No redacted audio available for this document' },
+                    { status: 404 }
+                );
+            }
+            return NextResponse.redirect(new URL(document.redactedAudioUrl, req.url));
+        }
+
+        const role = getRequestRole(req);
+        if (!canHearUnredactedAudio(role)) {
+            return NextResponse.json(
+                { error: 'Unredacted audio requires the reviewer or admin role', details: `Current role: ${role}` },
+                { status: 403 }
+            );
+        }
+
+        const fileName = variant === 'original'
+            ? document.audioRedaction?.sourceFile
+            : document.audioRedaction?.enhancedFile;
+        const filePath = fileName ? privateAudioPath(fileName) : undefined;
+
+        if (!filePath || !fs.existsSync(filePath)) {
+            return NextResponse.json(
+                { error: 'Audio file not found' },
+                { status: 404 }
+            );
+        }
+
+        return streamFile(req, filePath, variant === 'original' ? document.fileType : 'audio/wav');
+
+    } catch (error) {
+        console.error('Error serving audio:', error);
+        return NextResponse.json(
+            {
+                error: 'Failed to serve audio',
+                details: error instanceof Error ? error.message : 'Unknown error'
+            },
+            { status: 500 }
+        );
+    }
+}
@@ -0,0 +1,97 @@
+import { NextRequest, NextResponse } from 'next/server';
+import mongoose from 'mongoose';
+import { connectToDatabase } from '@/lib/mongoose';
+import FinancialDocument from '@/models/FinancialDocument';
+import { canEnhanceAudio, getRequestRole } from '@/lib/access-control';
+import { inngest } from '@/lib/inngest/client';
+import { ENHANCEMENT_PROFILES, ENHANCEMENT_PROFILE_NAMES, isEnhancementProfileName } from '@/lib/enhancement-profiles';
+import { privateAudioPath } from '@/lib/audio-redaction';
+import path from 'path';
+
+interface RouteContext {
+    params: Promise<{ id: string }>;
+}
+
+// Re-run audio enhancement for a document with a different profile
+export async function POST(req: NextRequest, { params }: RouteContext) {
+    try {
+        const { id } = await params;
+        const role = getRequestRole(req);
+
+        if (!canEnhanceAudio(role)) {
+            return NextResponse.json(
+                { error: 'Only reviewers and admins can re-run enhancement' },
+                { status: 403 }
+            );
+        }
+
+        const { profile } = await req.json();
+
+        if (!isEnhancementProfileName(profile)) {
+            return NextResponse.json(
+                { error: `Invalid enhancement profile. Allowed: ${ENHANCEMENT_PROFILE_NAMES.join(', ')}` },
+                { status: 400 }
+            );
+        }
+
+        if (!mongoose.isValidObjectId(id)) {
+            return NextResponse.json(
+                { error: 'Invalid document id' },
+                { status: 400 }
+            );
+        }
+
+        await connectToDatabase();
+        const document = await FinancialDocument.findById(id);
+
+        if (!document) {
+            return NextResponse.json(
+                { error: 'Document not found' },
+                { status: 404 }
+            );
+        }
+
+        if (!document.fileType.startsWith('audio/') || !document.fileUrl) {
+            return NextResponse.json(
+                { error: 'Only audio documents can be enhanced' },
+                { status: 400 }
+            );
+        }
+
+        const { version } = ENHANCEMENT_PROFILES[profile];
+        document.enhancement = {
+            profile,
+            profileVersion: version,
+            status: 'PROCESSING',
+        };
+        await document.save();
+
+        await inngest.send({
+            name: 'app/audio.enhance.requested',
+            data: {
+                documentId: id,
+                // Redacted documents keep the original upload in private storage
+                filePath: document.audioRedaction?.sourceFile
+                    ? privateAudioPath(document.audioRedaction.sourceFile)
+                    : path.join(process.cwd(), 'public', document.fileUrl),
+                profile,
+            },
+        });
+
+        return NextResponse.json({
+            success: true,
+            enhancement: document.enhancement,
+            message: `Re-enhancement with profile "${profile}" started`,
+        });
+
+    } catch (error) {
+        console.error('Enhance error:', error);
+        return NextResponse.json(
+            {
+                error: 'Failed to start enhancement',
+                details: error instanceof Error ? error.message : 'Unknown error'
+            },
+            { status: 500 }
+        );
+    }
+}
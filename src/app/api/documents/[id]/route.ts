@@ -0,0 +1,180 @@
+import { NextRequest, NextResponse } from 'next/server';
+import mongoose from 'mongoose';
+import { connectToDatabase } from '@/lib/mongoose';
+import FinancialDocument from '@/models/FinancialDocument';
+import { canCorrectExtractions, getRequestRole } from '@/lib/access-control';
+import {
+    CORRECTABLE_FIELDS, Correction, isCorrectableField, normalizeCorrection, sameValue
+} from '@/lib/corrections';
+import { validateInvoice } from '@/lib/invoice-validation';
+import { validateGst } from '@/lib/gst';
+
+interface RouteContext {
+    params: Promise<{ id: string }>;
+}
+
+// Correct AI-extracted fields and/or sign off a flagged document;
+// body: { changes?: { field: value, ... }, markReviewed?: true, editedBy? }
+export async function PATCH(req: NextRequest, { params }: RouteContext) {
+    try {
+        const { id } = await params;
+        const role = getRequestRole(req);
+
+        if (!canCorrectExtractions(role)) {
+            return NextResponse.json(
+                { error: 'Only reviewers and admins can correct extracted data' },
+                { status: 403 }
+            );
+        }
+
+        const { changes = {}, editedBy, markReviewed = false } = await req.json();
+
+        if (!changes || typeof changes !== 'object' || Array.isArray(changes) || typeof markReviewed !== 'boolean') {
+            return NextResponse.json(
+                { error: 'changes must be an object of { field: value } and markReviewed a boolean' },
+                { status: 400 }
+            );
+        }
+        if (Object.keys(changes).length === 0 && !markReviewed) {
+            return NextResponse.json(
+                { error: 'Nothing to do: send changes, markReviewed or both' },
+                { status: 400 }
+            );
+        }
+
+        // Validate every change before touching the document
+        const updates: Record<string, unknown> = {};
+        for (const [field, value] of Object.entries(changes as Record<string, unknown>)) {
+            if (!isCorrectableField(field)) {
+                return NextResponse.json(
+                    { error: `Field "${field}" cannot be corrected. Allowed: ${Object.keys(CORRECTABLE_FIELDS).join(', ')}` },
+                    { status: 400 }
+                );
+            }
+            const normalized = normalizeCorrection(field, value);
+            if ('error' in normalized) {
+                return NextResponse.json(
+                    { error: 'Invalid correction', details: normalized.error },
+                    { status: 400 }
+                );
+            }
+            updates[field] = normalized.value;
+        }
+
+        if (!mongoose.isValidObjectId(id)) {
+            return NextResponse.json(
+                { error: 'Invalid document id' },
+                { status: 400 }
+            );
+        }
+
+        await connectToDatabase();
+        const document = await FinancialDocument.findById(id).lean();
+
+        if (!document) {
+            return NextResponse.json(
+                { error: 'Document not found' },
+                { status: 404 }
+            );
+        }
+
+        if (document.status === 'PROCESSING') {
+            return NextResponse.json(
+                { error: 'Document is still processing' },
+                { status: 409 }
+            );
+        }
+
+        // Only the reviewer decides that every reason for review has been dealt with
+        if (markReviewed && document.status !== 'NEEDS_REVIEW') {
+            return NextResponse.json(
+                { error: `Only documents that need review can be marked reviewed (status is ${document.status})` },
+                { status: 409 }
+            );
+        }
+
+        const editedAt = new Date();
+        const editor = typeof editedBy === 'string' && editedBy.trim() ? editedBy.trim() : role;
+        const stored = document as unknown as Record<string, unknown>;
+
+        const corrections: Correction[] = [];
+        for (const [field, correctedValue] of Object.entries(updates)) {
+            if (!isCorrectableField(field) || sameValue(stored[field], correctedValue)) continue;
+
+            const earlier = document.corrections?.find(c => c.field === field);
+            corrections.push({
+                field,
+                originalValue: earlier ? earlier.originalValue : stored[field] ?? null,
+                previousValue: stored[field] ?? null,
+                correctedValue,
+                editedBy: editor,
+                role,
+                editedAt,
+            });
+        }
+
+        if (corrections.length === 0 && !markReviewed) {
+            return NextResponse.json({ success: true, document: { ...document, _id: document._id.toString() }, corrections: [] });
+        }
+
+        // Corrected values no longer need the unsupported / low-confidence flags
+        const fields = corrections.map(c => c.field);
+        const isCorrected = (flag: string) => fields.some(f => flag === f || flag.startsWith(`${f}[`));
+        const lowConfidenceFields = (document.lowConfidenceFields || []).filter(f => !isCorrected(f));
+
+        const $set: Record<string, unknown> = {};
+        if (corrections.length > 0) {
+            $set.unsupportedFields = (document.unsupportedFields || []).filter(f => !isCorrected(f));
+            $set.lowConfidenceFields = lowConfidenceFields;
+            $set.correctedAt = editedAt;
+            for (const c of corrections) {
+                $set[c.field] = c.correctedValue;
+            }
+
+            // Re-check the arithmetic of validated invoices against the corrected figures
+            if (document.validationFindings) {
+                const values = { ...document, ...updates };
+                $set.validationFindings = [...validateInvoice(values), ...validateGst(values)];
+            }
+        }
+
+        // Documents are flagged for more than fields (failed chunks, unread OCR pages...),
+        // so corrections alone never clear NEEDS_REVIEW
+        if (markReviewed) {
+            $set.status = 'COMPLETED';
+            $set.reviewedBy = editor;
+            $set.reviewedAt = editedAt;
+        }
+
+        const updated = await FinancialDocument.findByIdAndUpdate(
+            id,
+            {
+                $set,
+                ...(corrections.length > 0 && {
+                    $push: { corrections: { $each: corrections } },
+                    $addToSet: { correctedFields: { $each: fields } },
+                }),
+            },
+            { new: true }
+        ).lean();
+
+        if (corrections.length > 0) console.log(`✏️ ${editor} (${role}) corrected ${fields.join(', ')} on ${id}`);
+        if (markReviewed) console.log(`✅ ${editor} (${role}) marked ${id} as reviewed`);
+
+        return NextResponse.json({
+            success: true,
+            document: updated && { ...updated, _id: updated._id.toString() },
+            corrections,
+        });
+
+    } catch (error) {
+        console.error('Correction error:', error);
+        return NextResponse.json(
+            {
+                error: 'Failed to save corrections',
+                details: error instanceof Error ? error.message : 'Unknown error'
+            },
+            { status: 500 }
+        );
+    }
+}
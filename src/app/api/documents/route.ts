@@ -1,4 +1,5 @@
 import { NextRequest, NextResponse } from 'next/server';
+import mongoose from 'mongoose';
 import { connectToDatabase } from '@/lib/mongoose';
 import FinancialDocument from '@/models/FinancialDocument';
 
@@ -8,13 +9,26 @@ export async function GET(req: NextRequest) {
 
         // Get query parameters
         const searchParams = req.nextUrl.searchParams;
+        const documentId = searchParams.get('_id');
         const userId = searchParams.get('userId');
         const status = searchParams.get('status');
+        const organizationId = searchParams.get('organizationId');
+        const keyword = searchParams.get('keyword');
         const limit = parseInt(searchParams.get('limit') || '50');
 
         // Build query
         const query: any = {};
 
+        if (documentId) {
+            if (!mongoose.isValidObjectId(documentId)) {
+                return NextResponse.json(
+                    { error: 'Invalid document id' },
+                    { status: 400 }
+                );
+            }
+            query._id = documentId;
+        }
+
         if (userId) {
             query.userId = userId;
         }
@@ -23,6 +37,15 @@ export async function GET(req: NextRequest) {
             query.status = status;
         }
 
+        if (organizationId) {
+            query.organizationId = organizationId;
+        }
+
+        // Only calls where this keyword was spotted
+        if (keyword) {
+            query.keywordsMatched = keyword;
+        }
+
         // Fetch documents
         const documents = await FinancialDocument
             .find(query)
@@ -1,6 +1,6 @@
 import { serve } from 'inngest/next';
 import { inngest } from '../../../lib/inngest/client';
-import { processFinancialDocument, processFinancialAudio } from '../../../lib/inngest/functions';
+import { processFinancialDocument, processFinancialAudio, reenhanceFinancialAudio } from '../../../lib/inngest/functions';
 
 // Expose Inngest functions via HTTP endpoint
 export const { GET, POST, PUT } = serve({
@@ -8,5 +8,6 @@ export const { GET, POST, PUT } = serve({
     functions: [
         processFinancialDocument,
         processFinancialAudio,
+        reenhanceFinancialAudio,
     ],
 });
@@ -0,0 +1,89 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { connectToDatabase } from '@/lib/mongoose';
+import KeywordList from '@/models/KeywordList';
+import { DEFAULT_KEYWORDS, Keyword } from '@/lib/keyword-spotting';
+
+// Get an organisation's keyword list (the default collections list if none is configured)
+export async function GET(req: NextRequest) {
+    try {
+        const organizationId = req.nextUrl.searchParams.get('organizationId');
+
+        if (!organizationId) {
+            return NextResponse.json({ success: true, keywords: DEFAULT_KEYWORDS, isDefault: true });
+        }
+
+        await connectToDatabase();
+        const list = await KeywordList.findOne({ organizationId }).lean();
+
+        return NextResponse.json({
+            success: true,
+            organizationId,
+            keywords: list?.keywords?.length ? list.keywords : DEFAULT_KEYWORDS,
+            isDefault: !list?.keywords?.length,
+        });
+
+    } catch (error) {
+        console.error('Error fetching keywords:', error);
+        return NextResponse.json(
+            {
+                error: 'Failed to fetch keywords',
+                details: error instanceof Error ? error.message : 'Unknown error'
+            },
+            { status: 500 }
+        );
+    }
+}
+
+// Replace an organisation's keyword list
+export async function PUT(req: NextRequest) {
+    try {
+        const { organizationId, keywords } = await req.json();
+
+        if (!organizationId || typeof organizationId !== 'string') {
+            return NextResponse.json(
+                { error: 'organizationId is required' },
+                { status: 400 }
+            );
+        }
+
+        if (!Array.isArray(keywords)) {
+            return NextResponse.json(
+                { error: 'keywords must be an array of { phrase, aliases?, category? }' },
+                { status: 400 }
+            );
+        }
+
+        // Accept plain strings as a shorthand for { phrase }
+        const normalized: Keyword[] = keywords
+            .map((k: unknown) => (typeof k === 'string' ? { phrase: k } : k as Keyword))
+            .filter(k => k && typeof k.phrase === 'string' && k.phrase.trim().length > 0)
+            .map(k => ({
+                phrase: k.phrase.trim(),
+                aliases: Array.isArray(k.aliases) ? k.aliases.filter(a => typeof a === 'string' && a.trim()) : [],
+                category: typeof k.category === 'string' ? k.category : undefined,
+            }));
+
+        await connectToDatabase();
+        const list = await KeywordList.findOneAndUpdate(
+            { organizationId },
+            { keywords: normalized },
+            { new: true, upsert: true, runValidators: true }
+        ).lean();
+
+        return NextResponse.json({
+            success: true,
+            organizationId,
+            keywords: list?.keywords || normalized,
+        });
+
+    } catch (error) {
+        console.error('Error saving keywords:', error);
+        return NextResponse.json(
+            {
+                error: 'Failed to save keywords',
+                details: error instanceof Error ? error.message : 'Unknown error'
+            },
+            { status: 500 }
+        );
+    }
+}
@@ -2,6 +2,12 @@ import { NextRequest, NextResponse } from 'next/server';
 import { connectToDatabase } from '@/lib/mongoose';
 import FinancialDocument from '@/models/FinancialDocument';
 import { inngest } from '@/lib/inngest/client';
+import { isTranscriberName, TRANSCRIBER_NAMES } from '@/lib/transcribers';
+import { isSupportedLanguage, SUPPORTED_LANGUAGES } from '@/lib/languages';
+import { isEnhancementProfileName, ENHANCEMENT_PROFILE_NAMES } from '@/lib/enhancement-profiles';
+import { isChannelMode, CHANNEL_MODES } from '@/lib/channel-split';
+import { AUDIO_CONTAINER_MIME, AUDIO_MIME_TYPES, GENERIC_MIME_TYPES } from '@/lib/audio-formats';
+import { AudioMetadata, probeAudio, validateAudioMetadata } from '@/lib/audio-processor';
 import fs from 'fs/promises';
 import path from 'path';
 
@@ -13,6 +19,13 @@ export async function POST(req: NextRequest) {
         const formData = await req.formData();
         const file = formData.get('file') as File;
         const userId = formData.get('userId') as string | null;
+        const organizationId = formData.get('organizationId') as string | null;
+        const transcriber = formData.get('transcriber') as string | null;
+        const enhancementProfile = formData.get('enhancementProfile') as string | null;
+        const channelMode = formData.get('channelMode') as string | null;
+        const languageField = formData.get('language') as string | null;
+        // 'auto' (or no value) lets Whisper detect the spoken language
+        const language = languageField && languageField !== 'auto' ? languageField : null;
 
         if (!file) {
             return NextResponse.json(
@@ -28,14 +41,46 @@ export async function POST(req: NextRequest) {
             'image/jpeg',
             'text/plain',
             'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
-            'audio/mpeg',
-            'audio/wav',
-            'audio/mp3' // Sometimes mp3 is uploaded as audio/mp3
+            ...AUDIO_MIME_TYPES,
+            // Phone recorders often send AMR/M4A without a usable MIME type; these are probed below
+            ...GENERIC_MIME_TYPES,
         ];
 
         if (!allowedTypes.includes(file.type)) {
             return NextResponse.json(
-                { error: 'Invalid file type. Allowed: WAV' },
+                { error: 'Invalid file type. Allowed: PDF, PNG, JPG, TXT, DOCX, WAV, MP3, M4A, OGG, FLAC, WebM, AMR' },
+                { status: 400 }
+            );
+        }
+
+        // Optional per-upload speech-to-text engine override
+        if (transcriber && !isTranscriberName(transcriber)) {
+            return NextResponse.json(
+                { error: `Invalid transcriber. Allowed: ${TRANSCRIBER_NAMES.join(', ')}` },
+                { status: 400 }
+            );
+        }
+
+        // Optional per-upload spoken language override
+        if (language && !isSupportedLanguage(language)) {
+            return NextResponse.json(
+                { error: `Invalid language. Allowed: auto, ${Object.values(SUPPORTED_LANGUAGES).join(', ')}` },
+                { status: 400 }
+            );
+        }
+
+        // Optional per-upload enhancement profile
+        if (enhancementProfile && !isEnhancementProfileName(enhancementProfile)) {
+            return NextResponse.json(
+                { error: `Invalid enhancement profile. Allowed: ${ENHANCEMENT_PROFILE_NAMES.join(', ')}` },
+                { status: 400 }
+            );
+        }
+
+        // Optional per-upload stereo handling (split agent/customer channels or mix down)
+        if (channelMode && !isChannelMode(channelMode)) {
+            return NextResponse.json(
+                { error: `Invalid channel mode. Allowed: ${CHANNEL_MODES.join(', ')}` },
                 { status: 400 }
             );
         }
@@ -59,18 +104,50 @@ export async function POST(req: NextRequest) {
 
         await fs.writeFile(filePath, buffer);
 
+        // Confirm the container with ffprobe rather than trusting the browser's MIME type,
+        // and turn away unusable recordings before any transcription work is queued
+        let fileType = file.type;
+        let audioMetadata: AudioMetadata | undefined;
+        let audioWarnings: string[] = [];
+        const needsProbe = AUDIO_MIME_TYPES.includes(file.type) || GENERIC_MIME_TYPES.includes(file.type);
+        if (needsProbe) {
+            const probe = await probeAudio(filePath).catch(() => null);
+            const validation = probe
+                ? validateAudioMetadata(probe)
+                : { errors: ['ffprobe could not read the file (corrupt or not audio)'], warnings: [] };
+
+            if (validation.errors.length > 0) {
+                await fs.unlink(filePath).catch(() => {});
+                return NextResponse.json(
+                    {
+                        error: 'Unsupported or unusable audio file',
+                        details: validation.errors.join('; ')
+                    },
+                    { status: 400 }
+                );
+            }
+
+            audioMetadata = probe!;
+            audioWarnings = validation.warnings;
+            fileType = AUDIO_CONTAINER_MIME[probe!.container!];
+            console.log(`🎧 Detected ${probe!.container} container (${probe!.codec}, ${probe!.sampleRate}Hz, ${probe!.channels}ch, ${probe!.durationSeconds.toFixed(1)}s)`);
+        }
+
         // Create database record with PROCESSING status
         const document = await FinancialDocument.create({
             fileName: file.name,
             fileUrl: `/uploads/${fileName}`,
-            fileType: file.type,
+            fileType,
+            audioMetadata,
+            audioWarnings,
             userId: userId || undefined,
+            organizationId: organizationId || undefined,
             status: 'PROCESSING',
             uploadedAt: new Date(),
         });
 
         // Trigger background processing with Inngest based on file type
-        const isAudio = file.type.startsWith('audio/');
+        const isAudio = fileType.startsWith('audio/');
         const eventName = isAudio ? 'app/audio.uploaded' : 'app/document.uploaded';
 
         await inngest.send({
@@ -79,7 +156,12 @@ export async function POST(req: NextRequest) {
                 documentId: document._id.toString(),
                 filePath: filePath,
                 fileName: file.name,
-                fileType: file.type,
+                fileType,
+                ...(isAudio && transcriber ? { transcriber } : {}),
+                ...(isAudio && language ? { language } : {}),
+                ...(isAudio && enhancementProfile ? { enhancementProfile } : {}),
+                ...(isAudio && channelMode ? { channelMode } : {}),
+                ...(isAudio && organizationId ? { organizationId } : {}),
             },
         });
 
@@ -3,29 +3,40 @@
 import { useState, useEffect } from 'react';
 import { useRouter } from 'next/navigation';
 import FileUpload from '../../components/FileUpload';
-import { FileAudio, FileText, Clock, CheckCircle, AlertCircle } from 'lucide-react';
+import { isAudioFileName } from '../../lib/audio-formats';
+import { FileAudio, FileText, Clock, CheckCircle, AlertCircle, Eye } from 'lucide-react';
 import { format } from 'date-fns';
 
 interface Document {
   _id: string;
   fileName: string;
-  status: 'PROCESSING' | 'COMPLETED' | 'FAILED';
+  status: 'PROCESSING' | 'COMPLETED' | 'NEEDS_REVIEW' | 'FAILED';
   uploadedAt: string;
   documentType?: string;
   totalAmount?: number;
   currency?: string;
   vendorName?: string;
+  correctedFields?: string[];
+  audioMetadata?: {
+    durationSeconds?: number;
+  };
+  keywordsMatched?: string[];
 }
 
 export default function DashboardPage() {
   const router = useRouter();
   const [documents, setDocuments] = useState<Document[]>([]);
   const [isLoading, setIsLoading] = useState(true);
-  const [filter, setFilter] = useState<'all' | 'PROCESSING' | 'COMPLETED' | 'FAILED'>('all');
+  const [filter, setFilter] = useState<'all' | 'PROCESSING' | 'COMPLETED' | 'NEEDS_REVIEW' | 'FAILED'>('all');
+  const [keywordFilter, setKeywordFilter] = useState<string | null>(null);
+  const [keywords, setKeywords] = useState<string[]>([]);
 
   const fetchDocuments = async () => {
     try {
-      const queryParams = filter !== 'all' ? `?status=${filter}` : '';
+      const params = new URLSearchParams();
+      if (filter !== 'all') params.set('status', filter);
+      if (keywordFilter) params.set('keyword', keywordFilter);
+      const queryParams = params.toString() ? `?${params.toString()}` : '';
       const response = await fetch(`/api/documents${queryParams}`);
       const data = await response.json();
 
@@ -41,7 +52,17 @@ export default function DashboardPage() {
 
   useEffect(() => {
     fetchDocuments();
-  }, [filter]);
+  }, [filter, keywordFilter]);
+
+  // Keywords being spotted, for the keyword filter
+  useEffect(() => {
+    fetch('/api/keywords')
+      .then(res => res.json())
+      .then(data => {
+        if (data.success) setKeywords(data.keywords.map((k: { phrase: string }) => k.phrase));
+      })
+      .catch(error => console.error('Error fetching keywords:', error));
+  }, []);
 
   // Poll for updates every 5 seconds if there are processing documents
   useEffect(() => {
@@ -65,6 +86,10 @@ export default function DashboardPage() {
         icon: CheckCircle,
         className: 'status-badge completed'
       },
+      NEEDS_REVIEW: {
+        icon: Eye,
+        className: 'status-badge needs-review'
+      },
       PROCESSING: {
         icon: Clock,
         className: 'status-badge processing'
@@ -81,19 +106,28 @@ export default function DashboardPage() {
     return (
       <div className={config.className}>
         <Icon size={14} />
-        <span>{status}</span>
+        <span>{status.replace('_', ' ')}</span>
       </div>
     );
   };
 
   const getFileIcon = (fileName: string) => {
-    const ext = fileName.split('.').pop()?.toLowerCase();
-    if (ext === 'wav' || ext === 'mp3' || ext === 'mp4') {
+    if (isAudioFileName(fileName)) {
       return <FileAudio size={18} />;
     }
     return <FileText size={18} />;
   };
 
+  // Helper function to format call length as m:ss (or h:mm:ss)
+  const formatDuration = (seconds?: number): string => {
+    if (!seconds) return '-';
+    const total = Math.round(seconds);
+    const h = Math.floor(total / 3600);
+    const m = Math.floor((total % 3600) / 60);
+    const s = (total % 60).toString().padStart(2, '0');
+    return h > 0 ? `${h}:${m.toString().padStart(2, '0')}:${s}` : `${m}:${s}`;
+  };
+
   // Helper function to get currency symbol
   const getCurrencySymbol = (currencyCode?: string): string => {
     if (!currencyCode) return '';
@@ -161,6 +195,7 @@ export default function DashboardPage() {
             { key: 'all', label: 'All Documents' },
             { key: 'PROCESSING', label: 'Processing' },
             { key: 'COMPLETED', label: 'Completed' },
+            { key: 'NEEDS_REVIEW', label: 'Needs Review' },
             { key: 'FAILED', label: 'Failed' }
           ].map((tab) => (
             <button
@@ -173,6 +208,22 @@ export default function DashboardPage() {
           ))}
         </div>
 
+        {/* Keyword Filter */}
+        {keywords.length > 0 && (
+          <div className="keyword-filters animate-slide-up">
+            <span className="keyword-filters-label">Keyword hit:</span>
+            {keywords.map((keyword) => (
+              <button
+                key={keyword}
+                onClick={() => setKeywordFilter(keywordFilter === keyword ? null : keyword)}
+                className={`keyword-chip ${keywordFilter === keyword ? 'active' : ''}`}
+              >
+                {keyword}
+              </button>
+            ))}
+          </div>
+        )}
+
         {/* Documents Table */}
         <div className="table-card">
           <div className="table-header">
@@ -198,6 +249,7 @@ export default function DashboardPage() {
                     <th>STATUS</th>
                     <th>FILE NAME</th>
                     <th>TYPE</th>
+                    <th>DURATION</th>
                     <th>VENDOR</th>
                     <th>AMOUNT</th>
                     <th>UPLOADED</th>
@@ -211,7 +263,12 @@ export default function DashboardPage() {
                       className="table-row"
                       style={{ animationDelay: `${idx * 100}ms` }}
                     >
-                      <td>{getStatusBadge(doc.status)}</td>
+                      <td>
+                        {getStatusBadge(doc.status)}
+                        {doc.correctedFields && doc.correctedFields.length > 0 && (
+                          <span className="corrected-tag" title={`Corrected: ${doc.correctedFields.join(', ')}`}>corrected</span>
+                        )}
+                      </td>
                       <td>
                         <div className="file-cell">
                           <div className="file-icon">
@@ -219,10 +276,20 @@ export default function DashboardPage() {
                           </div>
                           <span className="file-name">{doc.fileName}</span>
                         </div>
+                        {doc.keywordsMatched && doc.keywordsMatched.length > 0 && (
+                          <div className="row-keywords">
+                            {doc.keywordsMatched.map((keyword) => (
+                              <span key={keyword} className="row-keyword">{keyword}</span>
+                            ))}
+                          </div>
+                        )}
                       </td>
                       <td className="text-secondary">
                         {doc.fileName.split('.').pop()?.toUpperCase() || 'Audio'}
                       </td>
+                      <td className="text-secondary">
+                        {formatDuration(doc.audioMetadata?.durationSeconds)}
+                      </td>
                       <td className="text-secondary">{doc.vendorName || '-'}</td>
                       <td className="amount">
                         {formatAmount(doc.totalAmount, doc.currency)}
@@ -372,6 +439,63 @@ export default function DashboardPage() {
                     box-shadow: 0 8px 20px rgba(252, 163, 17, 0.3);
                 }
 
+                .keyword-filters {
+                    display: flex;
+                    justify-content: center;
+                    align-items: center;
+                    gap: 0.5rem;
+                    margin: -1rem 0 2rem;
+                    flex-wrap: wrap;
+                    animation-delay: 250ms;
+                }
+
+                .keyword-filters-label {
+                    font-size: 0.75rem;
+                    font-weight: 700;
+                    color: rgba(255, 255, 255, 0.5);
+                    letter-spacing: 0.05em;
+                }
+
+                .keyword-chip {
+                    padding: 0.375rem 0.875rem;
+                    border-radius: 2rem;
+                    border: 1px solid rgba(255, 255, 255, 0.15);
+                    font-size: 0.75rem;
+                    font-weight: 600;
+                    cursor: pointer;
+                    transition: all 0.2s;
+                    background: transparent;
+                    color: rgba(255, 255, 255, 0.7);
+                }
+
+                .keyword-chip:hover {
+                    color: white;
+                    border-color: rgba(255, 255, 255, 0.4);
+                }
+
+                .keyword-chip.active {
+                    background: var(--tangerine);
+                    border-color: var(--tangerine);
+                    color: var(--navy-bg);
+                }
+
+                .row-keywords {
+                    display: flex;
+                    flex-wrap: wrap;
+                    gap: 0.25rem;
+                    margin-top: 0.375rem;
+                    padding-left: 2.75rem;
+                }
+
+                .row-keyword {
+                    font-size: 0.6875rem;
+                    font-weight: 600;
+                    color: #975a16;
+                    background: rgba(252, 163, 17, 0.12);
+                    padding: 0.125rem 0.5rem;
+                    border-radius: 1rem;
+                }
+
                 .table-card {
                     background: white;
                     border-radius: 2rem;
@@ -481,6 +605,12 @@ export default function DashboardPage() {
                     border-color: rgba(72, 187, 120, 0.2);
                 }
 
+                .status-badge.needs-review {
+                    background: rgba(66, 153, 225, 0.1);
+                    color: #2a4365;
+                    border-color: rgba(66, 153, 225, 0.2);
+                }
+
                 .status-badge.processing {
                     background: rgba(252, 163, 17, 0.1);
                     color: var(--tangerine-darker);
@@ -494,6 +624,18 @@ export default function DashboardPage() {
                     border-color: rgba(245, 101, 101, 0.2);
                 }
 
+                .corrected-tag {
+                    display: inline-block;
+                    margin-left: 0.375rem;
+                    padding: 0.125rem 0.5rem;
+                    border-radius: 2rem;
+                    background: #f0fff4;
+                    border: 1px solid #9ae6b4;
+                    color: #276749;
+                    font-size: 0.625rem;
+                    font-weight: 600;
+                }
+
                 .file-cell {
                     display: flex;
                     align-items: center;
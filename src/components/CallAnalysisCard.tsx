@@ -1,22 +1,78 @@
 'use client';
 
-import { Activity, ShieldCheck, Heart, FileText } from 'lucide-react';
+import { ReactNode } from 'react';
+import { Activity, ShieldCheck, Heart, FileText, AlertTriangle } from 'lucide-react';
+import EditableField from './EditableField';
+
+export interface FieldEvidence {
+    field: string;
+    quote?: string;
+    supported: boolean;
+    approximate?: boolean;
+    segmentId?: number;
+    start?: number;
+    end?: number;
+    page?: number;
+    /** OCR'd pages: where the quote is, as fractions of the page image */
+    boxes?: Array<{ x: number; y: number; w: number; h: number }>;
+}
 
 interface CallAnalysisCardProps {
     intent?: string;
     financialEvents?: string[];
     emotionalState?: string;
     complianceNotes?: string[];
+    evidence?: FieldEvidence[];
+    /** Called with the hovered field's evidence, and with null on leave */
+    onEvidenceHover?: (evidence: FieldEvidence | null) => void;
+    /** AI values of reviewer-corrected fields, by field name */
+    originalValues?: Record<string, string>;
+    /** Save a correction; lists arrive as one entry per line */
+    onCorrect?: (field: string, value: string) => Promise<void>;
 }
 
 export default function CallAnalysisCard({
     intent,
     financialEvents = [],
     emotionalState,
-    complianceNotes = []
+    complianceNotes = [],
+    evidence = [],
+    onEvidenceHover,
+    originalValues = {},
+    onCorrect
 }: CallAnalysisCardProps) {
     if (!intent && !emotionalState) return null;
 
+    // Hover handlers and quote tooltip for one field
+    const evidenceProps = (field: string) => {
+        const ev = evidence.find(e => e.field === field);
+        return {
+            onMouseEnter: () => onEvidenceHover?.(ev || null),
+            onMouseLeave: () => onEvidenceHover?.(null),
+            title: ev?.quote ? `"${ev.quote}"` : undefined,
+        };
+    };
+
+    const unsupported = (field: string) =>
+        evidence.find(e => e.field === field)?.supported === false && (
+            <span className="unsupported-badge" title="No supporting quote found in the transcript">
+                <AlertTriangle size={10} /> unsupported
+            </span>
+        );
+
+    // Inline correction, when the page allows it
+    const editable = (field: string, value: string, display: ReactNode, type: 'text' | 'list' = 'text') =>
+        onCorrect ? (
+            <EditableField
+                value={value}
+                type={type}
+                originalValue={originalValues[field]}
+                onSave={(next) => onCorrect(field, next)}
+            >
+                {display}
+            </EditableField>
+        ) : display;
+
     return (
         <div className="analysis-card">
             <div className="card-header">
@@ -28,18 +84,20 @@ export default function CallAnalysisCard({
                 {/* Intent */}
                 <div className="analysis-section">
                     <label>INTENT</label>
-                    <p className="intent-text">{intent || 'Analysis pending...'}</p>
+                    <p className="intent-text" {...evidenceProps('intent')}>
+                        {editable('intent', intent || '', <>{intent || 'Analysis pending...'} {unsupported('intent')}</>)}
+                    </p>
                 </div>
 
                 {/* Financial Events */}
-                {financialEvents.length > 0 && (
+                {(financialEvents.length > 0 || onCorrect) && (
                     <div className="analysis-section">
-                        <label>FINANCIAL EVENTS</label>
+                        <label>FINANCIAL EVENTS {editable('financialEvents', financialEvents.join('\n'), null, 'list')}</label>
                         <ul className="events-list">
                             {financialEvents.map((event, idx) => (
-                                <li key={idx}>
+                                <li key={idx} {...evidenceProps(`financialEvents[${idx}]`)}>
                                     <div className="bullet" />
-                                    <span>{event}</span>
+                                    <span>{event} {unsupported(`financialEvents[${idx}]`)}</span>
                                 </li>
                             ))}
                         </ul>
@@ -49,21 +107,23 @@ export default function CallAnalysisCard({
                 {/* Emotional State */}
                 <div className="analysis-section">
                     <label>EMOTIONAL STATE</label>
-                    <div className="emotion-box">
+                    <div className="emotion-box" {...evidenceProps('emotionalState')}>
                         <Heart size={16} className="emotion-icon" />
-                        <p>{emotionalState || 'Not analyzed'}</p>
+                        <p>{editable('emotionalState', emotionalState || '', <>{emotionalState || 'Not analyzed'} {unsupported('emotionalState')}</>)}</p>
                     </div>
                 </div>
 
                 {/* Compliance Notes */}
-                {complianceNotes.length > 0 && (
+                {(complianceNotes.length > 0 || onCorrect) && (
                     <div className="analysis-section">
-                        <label>COMPLIANCE NOTES</label>
+                        <label>COMPLIANCE NOTES {editable('complianceNotes', complianceNotes.join('\n'), null, 'list')}</label>
                         <div className="compliance-box">
                             <ShieldCheck size={16} className="compliance-icon" />
                             <ul>
                                 {complianceNotes.map((note, idx) => (
-                                    <li key={idx}>{note}</li>
+                                    <li key={idx} {...evidenceProps(`complianceNotes[${idx}]`)}>
+                                        {note} {unsupported(`complianceNotes[${idx}]`)}
+                                    </li>
                                 ))}
                             </ul>
                         </div>
@@ -202,6 +262,29 @@ export default function CallAnalysisCard({
           color: #166534;
           line-height: 1.4;
         }
+
+        .events-list li,
+        .compliance-box li,
+        .intent-text,
+        .emotion-box {
+          cursor: help;
+        }
+
+        .unsupported-badge {
+          display: inline-flex;
+          align-items: center;
+          gap: 0.2rem;
+          padding: 0.05rem 0.4rem;
+          border-radius: 999px;
+          background: #fffbeb;
+          border: 1px solid #fcd34d;
+          color: #b45309;
+          font-family: inherit;
+          font-size: 0.625rem;
+          font-weight: 600;
+          vertical-align: middle;
+          white-space: nowrap;
+        }
       `}</style>
         </div>
     );
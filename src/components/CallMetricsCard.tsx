@@ -0,0 +1,234 @@
+'use client';
+
+import { Timer, VolumeX, Users, MessagesSquare } from 'lucide-react';
+
+interface TimeRange {
+    start: number;
+    end: number;
+}
+
+export interface CallMetrics {
+    durationSeconds: number;
+    speechSeconds: number;
+    silenceSeconds: number;
+    silenceRatio: number;
+    longestDeadAir?: TimeRange & { duration: number };
+    deadAirCount: number;
+    talkOver: Array<TimeRange & { speakers: string[] }>;
+    /** Undefined on mixed recordings, where overlaps can't be measured */
+    talkOverSeconds?: number;
+    speakerTalkTime: Array<{ speaker: string; seconds: number; share: number }>;
+}
+
+interface CallMetricsCardProps {
+    metrics?: CallMetrics;
+    onSeek?: (time: number) => void;
+}
+
+const formatSeconds = (seconds: number) => {
+    const m = Math.floor(seconds / 60);
+    const s = Math.round(seconds % 60);
+    return m > 0 ? `${m}m ${s.toString().padStart(2, '0')}s` : `${s}s`;
+};
+
+export default function CallMetricsCard({ metrics, onSeek }: CallMetricsCardProps) {
+    if (!metrics) return null;
+
+    return (
+        <div className="metrics-card">
+            <div className="card-header">
+                <Timer size={20} className="header-icon" />
+                <h3>Call Quality</h3>
+            </div>
+
+            <div className="stat-grid">
+                <div className="stat">
+                    <label>SILENCE</label>
+                    <p>{Math.round(metrics.silenceRatio * 100)}%</p>
+                    <span>{formatSeconds(metrics.silenceSeconds)} of {formatSeconds(metrics.durationSeconds)}</span>
+                </div>
+                <div
+                    className={`stat ${metrics.longestDeadAir && onSeek ? 'clickable' : ''}`}
+                    onClick={() => metrics.longestDeadAir && onSeek?.(metrics.longestDeadAir.start)}
+                >
+                    <label>LONGEST DEAD AIR</label>
+                    <p>{metrics.longestDeadAir ? formatSeconds(metrics.longestDeadAir.duration) : '-'}</p>
+                    <span>{metrics.deadAirCount} gap(s) over threshold</span>
+                </div>
+                <div className="stat">
+                    <label>TALK-OVER</label>
+                    {metrics.talkOverSeconds === undefined ? (
+                        <>
+                            <p>n/a</p>
+                            <span>needs dual-channel audio</span>
+                        </>
+                    ) : (
+                        <>
+                            <p>{formatSeconds(metrics.talkOverSeconds)}</p>
+                            <span>{metrics.talkOver.length} period(s)</span>
+                        </>
+                    )}
+                </div>
+            </div>
+
+            {/* Per-speaker talk time */}
+            {metrics.speakerTalkTime.length > 0 && (
+                <div className="metrics-section">
+                    <label><Users size={12} /> TALK TIME</label>
+                    {metrics.speakerTalkTime.map((s) => (
+                        <div key={s.speaker} className="talk-row">
+                            <span className="talk-speaker">{s.speaker}</span>
+                            <div className="talk-bar">
+                                <div className="talk-fill" style={{ width: `${Math.round(s.share * 100)}%` }} />
+                            </div>
+                            <span className="talk-value">{formatSeconds(s.seconds)} · {Math.round(s.share * 100)}%</span>
+                        </div>
+                    ))}
+                </div>
+            )}
+
+            {/* Talk-over periods */}
+            {metrics.talkOver.length > 0 && (
+                <div className="metrics-section">
+                    <label><MessagesSquare size={12} /> TALK-OVER PERIODS</label>
+                    <ul className="period-list">
+                        {metrics.talkOver.slice(0, 10).map((p, idx) => (
+                            <li key={idx} onClick={() => onSeek?.(p.start)}>
+                                <VolumeX size={12} />
+                                {formatSeconds(p.start)} – {formatSeconds(p.end)}
+                            </li>
+                        ))}
+                    </ul>
+                </div>
+            )}
+
+            <style jsx>{`
+        .metrics-card {
+          background: white;
+          border-radius: 1.5rem;
+          padding: 1.5rem;
+          border: 1px solid rgba(252, 163, 17, 0.2);
+          box-shadow: 0 10px 30px rgba(0, 0, 0, 0.05);
+          animation: slideUpFade 0.6s cubic-bezier(0.16, 1, 0.3, 1) forwards;
+        }
+
+        .card-header {
+          display: flex;
+          align-items: center;
+          gap: 0.75rem;
+          margin-bottom: 1.5rem;
+          padding-bottom: 1rem;
+          border-bottom: 1px solid #f0f0f0;
+        }
+
+        .header-icon {
+          color: var(--tangerine);
+        }
+
+        .card-header h3 {
+          font-family: var(--font-display);
+          font-size: 1.125rem;
+          font-weight: 700;
+          color: var(--navy-bg);
+          margin: 0;
+        }
+
+        .stat-grid {
+          display: grid;
+          grid-template-columns: repeat(3, 1fr);
+          gap: 1rem;
+        }
+
+        .stat.clickable {
+          cursor: pointer;
+        }
+
+        .stat label,
+        .metrics-section label {
+          display: flex;
+          align-items: center;
+          gap: 0.375rem;
+          font-size: 0.625rem;
+          font-weight: 700;
+          color: rgba(20, 33, 61, 0.5);
+          letter-spacing: 0.1em;
+          margin-bottom: 0.5rem;
+        }
+
+        .stat p {
+          font-family: var(--font-display);
+          font-size: 1.5rem;
+          font-weight: 700;
+          color: var(--navy-bg);
+          margin: 0;
+        }
+
+        .stat span {
+          font-size: 0.75rem;
+          color: #a0aec0;
+        }
+
+        .metrics-section {
+          margin-top: 1.5rem;
+        }
+
+        .talk-row {
+          display: flex;
+          align-items: center;
+          gap: 0.75rem;
+          margin-bottom: 0.5rem;
+        }
+
+        .talk-speaker {
+          width: 5rem;
+          font-size: 0.8125rem;
+          font-weight: 600;
+          color: var(--navy-bg);
+        }
+
+        .talk-bar {
+          flex: 1;
+          height: 0.5rem;
+          background: #f0f0f0;
+          border-radius: 1rem;
+          overflow: hidden;
+        }
+
+        .talk-fill {
+          height: 100%;
+          background: var(--tangerine);
+          border-radius: 1rem;
+        }
+
+        .talk-value {
+          font-size: 0.75rem;
+          color: #4a5568;
+          min-width: 6.5rem;
+          text-align: right;
+        }
+
+        .period-list {
+          list-style: none;
+          padding: 0;
+          margin: 0;
+          display: flex;
+          flex-wrap: wrap;
+          gap: 0.5rem;
+        }
+
+        .period-list li {
+          display: inline-flex;
+          align-items: center;
+          gap: 0.375rem;
+          font-size: 0.75rem;
+          color: #742a2a;
+          background: rgba(245, 101, 101, 0.1);
+          border: 1px solid rgba(245, 101, 101, 0.2);
+          padding: 0.25rem 0.75rem;
+          border-radius: 1rem;
+          cursor: pointer;
+        }
+      `}</style>
+        </div>
+    );
+}
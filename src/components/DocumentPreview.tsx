@@ -0,0 +1,118 @@
+'use client';
+
+import { useEffect, useRef } from 'react';
+import { ScanText } from 'lucide-react';
+import type { FieldEvidence } from './CallAnalysisCard';
+
+export interface PreviewPage {
+    page: number;
+    ocr?: {
+        width: number;
+        height: number;
+        confidence: number;
+        imageUrl?: string;
+    };
+}
+
+interface DocumentPreviewProps {
+    /** Pages with an OCR'd image; others are skipped */
+    pages: PreviewPage[];
+    /** Evidence of the hovered field; its boxes are highlighted */
+    highlight?: FieldEvidence | null;
+}
+
+export default function DocumentPreview({ pages, highlight }: DocumentPreviewProps) {
+    const containerRef = useRef<HTMLDivElement>(null);
+    const imagePages = pages.filter(p => p.ocr?.imageUrl);
+
+    // Bring the highlighted page into view
+    useEffect(() => {
+        if (!highlight?.boxes?.length || highlight.page === undefined) return;
+        containerRef.current
+            ?.querySelector(`[data-page="${highlight.page}"]`)
+            ?.scrollIntoView({ behavior: 'smooth', block: 'nearest' });
+    }, [highlight]);
+
+    if (imagePages.length === 0) return null;
+
+    return (
+        <div className="preview-card" ref={containerRef}>
+            {imagePages.map(({ page, ocr }) => (
+                <div key={page} className="preview-page" data-page={page}>
+                    <div className="page-label">
+                        <ScanText size={12} /> PAGE {page}
+                        <span className="ocr-confidence" title="Mean OCR word confidence">OCR {Math.round(ocr!.confidence)}%</span>
+                    </div>
+                    <div className="page-image">
+                        <img src={ocr!.imageUrl} alt={`Page ${page}`} />
+                        {highlight?.page === page && highlight.boxes?.map((box, idx) => (
+                            <span
+                                key={idx}
+                                className="highlight-box"
+                                style={{
+                                    left: `${box.x * 100}%`,
+                                    top: `${box.y * 100}%`,
+                                    width: `${box.w * 100}%`,
+                                    height: `${box.h * 100}%`,
+                                }}
+                            />
+                        ))}
+                    </div>
+                </div>
+            ))}
+
+            <style jsx>{`
+                .preview-card {
+                    height: 100%;
+                    min-height: 600px;
+                    overflow-y: auto;
+                    padding: 1.5rem;
+                    border-radius: 2rem;
+                    background: linear-gradient(135deg, #0f192e 0%, #14213D 100%);
+                    border: 1px solid rgba(255, 255, 255, 0.05);
+                    display: flex;
+                    flex-direction: column;
+                    gap: 1.5rem;
+                }
+
+                .page-label {
+                    display: flex;
+                    align-items: center;
+                    gap: 0.375rem;
+                    margin-bottom: 0.5rem;
+                    font-size: 0.625rem;
+                    font-weight: 700;
+                    letter-spacing: 0.1em;
+                    color: rgba(255, 255, 255, 0.5);
+                }
+
+                .ocr-confidence {
+                    margin-left: auto;
+                    font-weight: 600;
+                    letter-spacing: normal;
+                }
+
+                .page-image {
+                    position: relative;
+                    border-radius: 0.5rem;
+                    overflow: hidden;
+                    background: white;
+                }
+
+                .page-image img {
+                    display: block;
+                    width: 100%;
+                    height: auto;
+                }
+
+                .highlight-box {
+                    position: absolute;
+                    border: 2px solid var(--tangerine);
+                    border-radius: 2px;
+                    background: rgba(252, 163, 17, 0.25);
+                    pointer-events: none;
+                }
+            `}</style>
+        </div>
+    );
+}
@@ -0,0 +1,204 @@
+'use client';
+
+import { useState, ReactNode } from 'react';
+import { Pencil, Check, X, Loader2 } from 'lucide-react';
+
+interface EditableFieldProps {
+    /** Current value as the editor should show it ('' when empty) */
+    value: string;
+    /** Read-only rendering of the value */
+    children: ReactNode;
+    /** 'list' edits one entry per line */
+    type?: 'text' | 'number' | 'date' | 'list';
+    /** The AI's value, shown when a reviewer has changed the field */
+    originalValue?: string;
+    onSave: (value: string) => Promise<void>;
+}
+
+export default function EditableField({ value, children, type = 'text', originalValue, onSave }: EditableFieldProps) {
+    const [isEditing, setIsEditing] = useState(false);
+    const [draft, setDraft] = useState(value);
+    const [isSaving, setIsSaving] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+
+    const startEditing = () => {
+        setDraft(value);
+        setError(null);
+        setIsEditing(true);
+    };
+
+    const save = async () => {
+        if (draft === value) {
+            setIsEditing(false);
+            return;
+        }
+        setIsSaving(true);
+        setError(null);
+        try {
+            await onSave(draft);
+            setIsEditing(false);
+        } catch (err: any) {
+            setError(err.message || 'Failed to save');
+        } finally {
+            setIsSaving(false);
+        }
+    };
+
+    const onKeyDown = (e: React.KeyboardEvent) => {
+        if (e.key === 'Escape') setIsEditing(false);
+        if (e.key === 'Enter' && (type !== 'list' || e.metaKey || e.ctrlKey)) {
+            e.preventDefault();
+            save();
+        }
+    };
+
+    if (!isEditing) {
+        return (
+            <span className="editable">
+                {children}
+                {originalValue !== undefined && (
+                    <span className="corrected-badge" title={`AI value: ${originalValue || '(empty)'}`}>edited</span>
+                )}
+                <button className="edit-button" onClick={startEditing} title="Correct this value">
+                    <Pencil size={11} />
+                </button>
+
+                <style jsx>{`
+                    .editable {
+                        display: inline;
+                    }
+
+                    .edit-button {
+                        display: inline-flex;
+                        align-items: center;
+                        margin-left: 0.25rem;
+                        padding: 0.15rem;
+                        border: none;
+                        border-radius: 0.25rem;
+                        background: transparent;
+                        color: #a0aec0;
+                        cursor: pointer;
+                        opacity: 0;
+                        vertical-align: middle;
+                        transition: opacity 0.15s;
+                    }
+
+                    .editable:hover .edit-button,
+                    .edit-button:focus {
+                        opacity: 1;
+                    }
+
+                    .edit-button:hover {
+                        color: var(--tangerine-darker);
+                        background: rgba(252, 163, 17, 0.1);
+                    }
+
+                    .corrected-badge {
+                        display: inline-flex;
+                        margin-left: 0.25rem;
+                        padding: 0.05rem 0.4rem;
+                        border-radius: 999px;
+                        background: #f0fff4;
+                        border: 1px solid #9ae6b4;
+                        color: #276749;
+                        font-size: 0.625rem;
+                        font-weight: 600;
+                        vertical-align: middle;
+                    }
+                `}</style>
+            </span>
+        );
+    }
+
+    return (
+        <span className="editor">
+            {type === 'list' ? (
+                <textarea
+                    value={draft}
+                    onChange={(e) => setDraft(e.target.value)}
+                    onKeyDown={onKeyDown}
+                    rows={Math.max(3, draft.split('\n').length)}
+                    placeholder="One entry per line"
+                    autoFocus
+                />
+            ) : (
+                <input
+                    type={type}
+                    value={draft}
+                    onChange={(e) => setDraft(e.target.value)}
+                    onKeyDown={onKeyDown}
+                    step={type === 'number' ? 'any' : undefined}
+                    autoFocus
+                />
+            )}
+            <span className="editor-actions">
+                <button onClick={save} disabled={isSaving} title="Save">
+                    {isSaving ? <Loader2 size={12} className="animate-spin" /> : <Check size={12} />}
+                </button>
+                <button onClick={() => setIsEditing(false)} disabled={isSaving} title="Cancel">
+                    <X size={12} />
+                </button>
+            </span>
+            {error && <span className="editor-error">{error}</span>}
+
+            <style jsx>{`
+                .editor {
+                    display: flex;
+                    flex-wrap: wrap;
+                    align-items: flex-start;
+                    gap: 0.375rem;
+                }
+
+                input, textarea {
+                    flex: 1;
+                    min-width: 8rem;
+                    padding: 0.3rem 0.5rem;
+                    border: 1px solid rgba(252, 163, 17, 0.4);
+                    border-radius: 0.375rem;
+                    font: inherit;
+                    font-size: 0.875rem;
+                    color: var(--navy-bg);
+                    outline: none;
+                }
+
+                input:focus, textarea:focus {
+                    border-color: var(--tangerine);
+                    box-shadow: 0 0 0 2px rgba(252, 163, 17, 0.15);
+                }
+
+                .editor-actions {
+                    display: inline-flex;
+                    gap: 0.25rem;
+                }
+
+                .editor-actions button {
+                    display: inline-flex;
+                    align-items: center;
+                    padding: 0.3rem;
+                    border: 1px solid #e2e8f0;
+                    border-radius: 0.375rem;
+                    background: white;
+                    color: var(--navy-bg);
+                    cursor: pointer;
+                }
+
+                .editor-actions button:first-child {
+                    background: var(--tangerine);
+                    border-color: var(--tangerine);
+                    color: white;
+                }
+
+                .editor-actions button:disabled {
+                    opacity: 0.6;
+                    cursor: default;
+                }
+
+                .editor-error {
+                    flex-basis: 100%;
+                    font-size: 0.75rem;
+                    color: #c53030;
+                }
+            `}</style>
+        </span>
+    );
+}
@@ -2,6 +2,7 @@
 
 import { useState, useCallback } from 'react';
 import { Upload } from 'lucide-react';
+import { SUPPORTED_LANGUAGES } from '@/lib/languages';
 
 interface FileUploadProps {
   onUploadComplete?: (documentId: string) => void;
@@ -12,6 +13,7 @@ export default function FileUpload({ onUploadComplete }: FileUploadProps) {
   const [isUploading, setIsUploading] = useState(false);
   const [uploadStatus, setUploadStatus] = useState<'idle' | 'success' | 'error'>('idle');
   const [errorMessage, setErrorMessage] = useState('');
+  const [language, setLanguage] = useState<string>('auto');
 
   const handleDrag = useCallback((e: React.DragEvent) => {
     e.preventDefault();
@@ -32,7 +34,7 @@ export default function FileUpload({ onUploadComplete }: FileUploadProps) {
     if (files && files[0]) {
       handleFileUpload(files[0]);
     }
-  }, []);
+  }, [language]);
 
   const handleFileSelect = (e: React.ChangeEvent<HTMLInputElement>) => {
     const files = e.target.files;
@@ -49,6 +51,7 @@ export default function FileUpload({ onUploadComplete }: FileUploadProps) {
     try {
       const formData = new FormData();
       formData.append('file', file);
+      formData.append('language', language);
 
       const response = await fetch('/api/upload', {
         method: 'POST',
@@ -91,7 +94,7 @@ export default function FileUpload({ onUploadComplete }: FileUploadProps) {
           id="file-input"
           className="file-input"
           onChange={handleFileSelect}
-          accept=".pdf,.png,.jpg,.jpeg,.txt,.docx,.mp3,.mp4,.wav"
+          accept=".pdf,.png,.jpg,.jpeg,.txt,.docx,.mp3,.mp4,.wav,.m4a,.ogg,.opus,.flac,.webm,.amr"
           disabled={isUploading}
         />
 
@@ -112,13 +115,13 @@ export default function FileUpload({ onUploadComplete }: FileUploadProps) {
           <p className="dropzone-description">
             {uploadStatus === 'error'
               ? errorMessage
-              : "Drag & drop a WAV file. We'll handle the rest."
+              : "Drag & drop a call recording. We'll handle the rest."
             }
           </p>
 
           {!isUploading && uploadStatus === 'idle' && (
             <div className="format-badges">
-              {['WAV'].map((format) => (
+              {['WAV', 'MP3', 'M4A', 'OGG', 'FLAC', 'WEBM', 'AMR'].map((format) => (
                 <span key={format} className="format-badge">
                   {format}
                 </span>
@@ -128,6 +131,21 @@ export default function FileUpload({ onUploadComplete }: FileUploadProps) {
         </label>
       </div>
 
+      <div className="language-picker">
+        <label htmlFor="language-select">Spoken language</label>
+        <select
+          id="language-select"
+          value={language}
+          onChange={(e) => setLanguage(e.target.value)}
+          disabled={isUploading}
+        >
+          <option value="auto">Auto-detect</option>
+          {Object.entries(SUPPORTED_LANGUAGES).map(([name, code]) => (
+            <option key={code} value={code}>{name}</option>
+          ))}
+        </select>
+      </div>
+
       <style jsx>{`
         .dropzone-wrapper {
           max-width: 900px;
@@ -256,6 +274,36 @@ export default function FileUpload({ onUploadComplete }: FileUploadProps) {
           border: 1px solid rgba(255, 255, 255, 0.2);
         }
 
+        .language-picker {
+          display: flex;
+          align-items: center;
+          justify-content: center;
+          gap: 0.75rem;
+          margin-top: 1.25rem;
+        }
+
+        .language-picker label {
+          font-size: 0.75rem;
+          font-weight: 700;
+          letter-spacing: 0.1em;
+          text-transform: uppercase;
+          color: var(--text-gray);
+        }
+
+        .language-picker select {
+          padding: 0.5rem 1rem;
+          border-radius: 2rem;
+          border: 1px solid rgba(255, 255, 255, 0.2);
+          background: rgba(255, 255, 255, 0.1);
+          color: white;
+          font-size: 0.875rem;
+          cursor: pointer;
+        }
+
+        .language-picker option {
+          color: var(--navy-bg);
+        }
+
         @media (max-width: 768px) {
           .dropzone {
             padding: 3rem 2rem;
@@ -3,18 +3,74 @@
 import { useState, useEffect, useRef } from 'react';
 import {
   FileAudio, Calendar, DollarSign, User, Play, Pause, ChevronLeft,
-  Clock, Send, MessageSquare, Loader2, CheckCircle, AlertCircle
+  Clock, Send, MessageSquare, Loader2, CheckCircle, AlertCircle, AlertTriangle, Eye, ScanText
 } from 'lucide-react';
 import { format } from 'date-fns';
 import { useRouter } from 'next/navigation';
 
-import CallAnalysisCard from './CallAnalysisCard';
+import CallAnalysisCard, { FieldEvidence } from './CallAnalysisCard';
+import CallMetricsCard, { CallMetrics } from './CallMetricsCard';
+import DocumentPreview, { PreviewPage } from './DocumentPreview';
+import EditableField from './EditableField';
+import LineItemsCard, { LineItem } from './LineItemsCard';
+import ValidationFindingsCard, { ValidationFinding } from './ValidationFindingsCard';
+import Waveform, { WaveformMarker, WaveformTurn } from './Waveform';
+import { checkGstin } from '@/lib/gst';
+import { ENHANCEMENT_PROFILES, ENHANCEMENT_PROFILE_NAMES, EnhancementProfileName } from '@/lib/enhancement-profiles';
+
+interface TranscriptSegment {
+  id: number;
+  start: number;
+  end: number;
+  text: string;
+  avgLogprob?: number;
+  noSpeechProb?: number;
+  speaker?: string;
+}
+
+interface AudioEnhancement {
+  profile: string;
+  profileVersion: number;
+  status: 'PROCESSING' | 'COMPLETED' | 'FAILED';
+  error?: string;
+  appliedAt?: string;
+}
+
+interface FieldConfidence {
+  field: string;
+  score: number;
+  factors: { evidence: number; agreement: number; repairs: number; transcription: number };
+  agreed?: boolean;
+  missing?: boolean;
+}
+
+interface Correction {
+  field: string;
+  originalValue?: unknown;
+  previousValue?: unknown;
+  correctedValue?: unknown;
+  editedBy: string;
+  role: string;
+  editedAt: string;
+}
+
+interface KeywordHit {
+  keyword: string;
+  category?: string;
+  matched: string;
+  start: number;
+  end: number;
+  speaker?: string;
+  source: 'english' | 'native';
+}
 
-interface LineItem {
-  description: string;
-  quantity: number;
-  unitPrice: number;
-  totalPrice: number;
+interface AudioMetadata {
+  container?: string;
+  durationSeconds: number;
+  codec?: string;
+  sampleRate?: number;
+  channels?: number;
+  recordedAt?: string;
 }
 
 interface DocumentData {
@@ -22,7 +78,10 @@ interface DocumentData {
   fileName: string;
   fileUrl?: string; // Ensure this is populated
   enhancedAudioUrl?: string;
-  status: 'PROCESSING' | 'COMPLETED' | 'FAILED';
+  redactedAudioUrl?: string;
+  enhancement?: AudioEnhancement;
+  waveformUrl?: string;
+  status: 'PROCESSING' | 'COMPLETED' | 'NEEDS_REVIEW' | 'FAILED';
   documentType?: string;
   invoiceNumber?: string;
   invoiceDate?: string;
@@ -36,14 +95,52 @@ interface DocumentData {
   totalAmount?: number;
   currency?: string;
   lineItems?: LineItem[];
+  vendorGstin?: string;
+  clientGstin?: string;
+  placeOfSupply?: string;
+  cgstAmount?: number;
+  sgstAmount?: number;
+  igstAmount?: number;
   uploadedAt: string;
   processedAt?: string;
   processingError?: string;
+  // Transcript
+  transcript?: string;
+  segments?: TranscriptSegment[];
+  nativeTranscript?: string;
+  language?: string;
+  languageSource?: 'detected' | 'override';
+  audioMetadata?: AudioMetadata;
+  audioWarnings?: string[];
   // Analysis Data
   intent?: string;
   financialEvents?: string[];
   emotionalState?: string;
   complianceNotes?: string[];
+  callMetrics?: CallMetrics;
+  keywordHits?: KeywordHit[];
+  evidence?: FieldEvidence[];
+  unsupportedFields?: string[];
+  confidence?: FieldConfidence[];
+  lowConfidenceFields?: string[];
+  validationFindings?: ValidationFinding[];
+  pages?: PreviewPage[];
+  textExtraction?: {
+    method: 'pdf-text' | 'ocr' | 'docx' | 'plain-text' | 'none';
+    pageCount?: number;
+    ocrPages: number[];
+    ocrAppliedPages?: number[];
+  };
+  analysisChunking?: {
+    chunkCount: number;
+    failedChunks: number[];
+    conflicts: Array<{ field: string; values: string[]; chosen: string }>;
+  };
+  corrections?: Correction[];
+  correctedFields?: string[];
+  correctedAt?: string;
+  reviewedBy?: string;
+  reviewedAt?: string;
 }
 
 interface FinancialReviewProps {
@@ -69,9 +166,167 @@ export default function FinancialReview({ pdfUrl, initialData }: FinancialReview
   const [currentTime, setCurrentTime] = useState(0);
   const [visualizerData, setVisualizerData] = useState<number[]>(new Array(20).fill(10));
 
-  // Audio Source Toggle
-  const [showEnhanced, setShowEnhanced] = useState(false);
-  const audioUrl = showEnhanced && data.enhancedAudioUrl ? data.enhancedAudioUrl : data.fileUrl;
+  // Precomputed waveform peaks (falls back to the live visualizer when missing)
+  const [waveformPeaks, setWaveformPeaks] = useState<number[] | null>(null);
+  const [waveformDuration, setWaveformDuration] = useState(0);
+
+  useEffect(() => {
+    if (!data.waveformUrl) return;
+
+    fetch(data.waveformUrl)
+      .then(res => res.ok ? res.json() : null)
+      .then(waveform => {
+        if (waveform?.peaks) {
+          setWaveformPeaks(waveform.peaks);
+          setWaveformDuration(waveform.durationSeconds || 0);
+        }
+      })
+      .catch(error => console.error('Error loading waveform:', error));
+  }, [data.waveformUrl]);
+
+  // Evidence for the field under the pointer, highlighted in the transcript
+  const [hoveredEvidence, setHoveredEvidence] = useState<FieldEvidence | null>(null);
+  const showDocumentPreview = !data.transcript && !!data.pages?.some(p => p.ocr?.imageUrl);
+  const segmentListRef = useRef<HTMLUListElement>(null);
+
+  useEffect(() => {
+    if (hoveredEvidence?.segmentId === undefined) return;
+    segmentListRef.current
+      ?.querySelector(`[data-segment-id="${hoveredEvidence.segmentId}"]`)
+      ?.scrollIntoView({ block: 'nearest', behavior: 'smooth' });
+  }, [hoveredEvidence]);
+
+  const isEvidenceSegment = (seg: TranscriptSegment) =>
+    hoveredEvidence?.start !== undefined && hoveredEvidence.end !== undefined &&
+    seg.start >= hoveredEvidence.start && seg.end <= hoveredEvidence.end;
+
+  // Mark the quoted words when the quote sits inside one segment
+  const renderSegmentText = (seg: TranscriptSegment) => {
+    const quote = isEvidenceSegment(seg) ? hoveredEvidence?.quote?.trim() : undefined;
+    const at = quote ? seg.text.toLowerCase().indexOf(quote.toLowerCase()) : -1;
+    if (!quote || at === -1) return seg.text;
+    return (
+      <>
+        {seg.text.slice(0, at)}
+        <mark className="evidence-quote">{seg.text.slice(at, at + quote.length)}</mark>
+        {seg.text.slice(at + quote.length)}
+      </>
+    );
+  };
+
+  // Hover handlers and quote/confidence tooltip for an extracted field
+  const evidenceProps = (field: string) => {
+    const ev = data.evidence?.find(e => e.field === field);
+    const conf = data.confidence?.find(c => c.field === field);
+    const tooltip = [
+      ev?.quote && `"${ev.quote}"${ev.page ? ` (page ${ev.page})` : ''}`,
+      conf && (conf.missing
+        ? 'Not extracted; please fill in'
+        : `Confidence ${Math.round(conf.score * 100)}%${conf.agreed === false ? ' (second extraction disagreed)' : ''}`),
+    ].filter(Boolean).join('\n');
+    return {
+      onMouseEnter: () => setHoveredEvidence(ev || null),
+      onMouseLeave: () => setHoveredEvidence(null),
+      title: tooltip || undefined,
+    };
+  };
+
+  const unsupportedBadge = (field: string) => (
+    <>
+      {data.unsupportedFields?.includes(field) && (
+        <span className="unsupported-badge" title="No supporting quote found in the source">
+          <AlertTriangle size={10} /> unsupported
+        </span>
+      )}
+      {data.validationFindings?.some(f => f.field === field) && (
+        <span
+          className="unsupported-badge"
+          title={data.validationFindings.filter(f => f.field === field).map(f => f.message).join('\n')}
+        >
+          <AlertTriangle size={10} /> check figures
+        </span>
+      )}
+      {data.lowConfidenceFields?.includes(field) && (
+        <span className="low-confidence-badge" title="Below the confidence threshold; please verify">
+          <Eye size={10} /> {Math.round((data.confidence?.find(c => c.field === field)?.score ?? 0) * 100)}%
+        </span>
+      )}
+    </>
+  );
+
+  // Reviewer corrections go through the PATCH API; the response is the updated document
+  const saveCorrection = async (field: string, value: unknown) => {
+    const response = await fetch(`/api/documents/${data._id}`, {
+      method: 'PATCH',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ changes: { [field]: value } })
+    });
+    const result = await response.json();
+    if (!response.ok) {
+      throw new Error(result.details || result.error || 'Failed to save correction');
+    }
+    setData(result.document);
+  };
+
+  // Clearing NEEDS_REVIEW is an explicit sign-off, never a side effect of a correction
+  const [reviewError, setReviewError] = useState<string | null>(null);
+  const markReviewed = async () => {
+    setReviewError(null);
+    try {
+      const response = await fetch(`/api/documents/${data._id}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ markReviewed: true })
+      });
+      const result = await response.json();
+      if (!response.ok) {
+        throw new Error(result.details || result.error || 'Failed to mark as reviewed');
+      }
+      setData(result.document);
+    } catch (error) {
+      setReviewError(error instanceof Error ? error.message : 'Failed to mark as reviewed');
+    }
+  };
+
+  // The AI's value of each corrected field, as shown in the "edited" tooltip
+  const originalValues: Record<string, string> = {};
+  for (const c of data.corrections || []) {
+    if (c.field in originalValues) continue;
+    const original = c.originalValue;
+    originalValues[c.field] = Array.isArray(original)
+      ? original.map(item => (typeof item === 'string' ? item : (item as LineItem).description)).join('; ')
+      : original === null || original === undefined ? '' : String(original);
+  }
+
+  const asDateInput = (value?: string) => (value ? new Date(value).toISOString().slice(0, 10) : '');
+
+  // Transcript language toggle (English translation vs. spoken language)
+  const [showNative, setShowNative] = useState(false);
+  const hasNativeTranscript = !!data.nativeTranscript && !data.language?.startsWith('en');
+
+  // Audio Source Toggle (the PII-beeped rendition is the default when there is one)
+  const [audioSource, setAudioSource] = useState<'original' | 'enhanced' | 'redacted'>(
+    initialData.redactedAudioUrl ? 'redacted' : 'original'
+  );
+  const [audioNotice, setAudioNotice] = useState<string | null>(null);
+  const audioUrl = audioSource === 'redacted' && data.redactedAudioUrl
+    ? data.redactedAudioUrl
+    : audioSource === 'enhanced' && data.enhancedAudioUrl ? data.enhancedAudioUrl : data.fileUrl;
+
+  const selectAudioSource = (source: 'original' | 'enhanced' | 'redacted') => {
+    setAudioNotice(null);
+    setAudioSource(source);
+  };
+
+  // Unredacted recordings are served by a role-checked route; explain a refusal
+  const onAudioError = () => {
+    if (!audioUrl?.startsWith('/api/')) return;
+    fetch(audioUrl, { headers: { Range: 'bytes=0-0' } })
+      .then(res => setAudioNotice(res.status === 403
+        ? 'The unredacted recording is restricted to reviewers. The redacted version is available to everyone.'
+        : 'This recording is not available.'))
+      .catch(() => setAudioNotice('This recording is not available.'));
+  };
 
   const audioRef = useRef<HTMLAudioElement>(null);
   const messagesEndRef = useRef<HTMLDivElement>(null); // For auto-scroll
@@ -85,9 +340,15 @@ export default function FinancialReview({ pdfUrl, initialData }: FinancialReview
   const [messages, setMessages] = useState<Array<{ role: 'user' | 'ai', text: string }>>([]);
   const [isTyping, setIsTyping] = useState(false);
 
-  // Poll for updates if status is PROCESSING
+  // Enhancement profile picker
+  const [selectedProfile, setSelectedProfile] = useState<EnhancementProfileName>(
+    (data.enhancement?.profile as EnhancementProfileName) || 'telephony'
+  );
+  const isEnhancing = data.enhancement?.status === 'PROCESSING';
+
+  // Poll for updates if status (or a re-enhancement) is PROCESSING
   useEffect(() => {
-    if (data.status !== 'PROCESSING') return;
+    if (data.status !== 'PROCESSING' && !isEnhancing) return;
 
     const interval = setInterval(async () => {
       setIsRefreshing(true);
@@ -105,7 +366,7 @@ export default function FinancialReview({ pdfUrl, initialData }: FinancialReview
     }, 3000);
 
     return () => clearInterval(interval);
-  }, [data.status, data._id]);
+  }, [data.status, data._id, isEnhancing]);
 
   // Auto-scroll to bottom when messages change
   useEffect(() => {
@@ -220,6 +481,54 @@ export default function FinancialReview({ pdfUrl, initialData }: FinancialReview
     }
   };
 
+  const handleReenhance = async () => {
+    try {
+      const response = await fetch(`/api/documents/${data._id}/enhance`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ profile: selectedProfile })
+      });
+      const result = await response.json();
+      if (!response.ok) {
+        throw new Error(result.error || 'Failed to start enhancement');
+      }
+      setData(prev => ({ ...prev, enhancement: result.enhancement }));
+    } catch (error) {
+      console.error('Enhancement error:', error);
+    }
+  };
+
+  // Jump the player to the start of a transcript segment
+  const seekTo = (time: number) => {
+    if (audioRef.current) {
+      audioRef.current.currentTime = time;
+      setCurrentTime(time);
+    }
+  };
+
+  // Speaker turns and flagged moments drawn over the waveform
+  const waveformTurns: WaveformTurn[] = (data.segments || [])
+    .filter(seg => seg.speaker)
+    .map(seg => ({ start: seg.start, end: seg.end, speaker: seg.speaker! }));
+
+  const waveformMarkers: WaveformMarker[] = [
+    ...(data.callMetrics?.talkOver || []).map(p => ({
+      time: p.start,
+      label: `Talk-over at ${formatTime(p.start)}`,
+      kind: 'talk-over' as const
+    })),
+    ...(data.callMetrics?.longestDeadAir ? [{
+      time: data.callMetrics.longestDeadAir.start,
+      label: `Longest dead air (${Math.round(data.callMetrics.longestDeadAir.duration)}s)`,
+      kind: 'dead-air' as const
+    }] : []),
+    ...(data.keywordHits || []).map(h => ({
+      time: h.start,
+      label: `"${h.keyword}" at ${formatTime(h.start)}`,
+      kind: 'flag' as const
+    })),
+  ];
+
   const handleSendMessage = async (text: string) => {
     if (!text.trim()) return;
 
@@ -276,6 +585,8 @@ export default function FinancialReview({ pdfUrl, initialData }: FinancialReview
     switch (data.status) {
       case 'COMPLETED':
         return <CheckCircle size={16} />;
+      case 'NEEDS_REVIEW':
+        return <Eye size={16} />;
       case 'PROCESSING':
         return <Clock size={16} className="animate-spin-slow" />;
       case 'FAILED':
@@ -357,6 +668,8 @@ export default function FinancialReview({ pdfUrl, initialData }: FinancialReview
   // Get vendor location from data or infer from currency
   const vendorLocation = data.vendorAddress || getCountryFromCurrency(data.currency);
   const currencySymbol = getCurrencySymbol(data.currency);
+  const isGstInvoice = !!(data.vendorGstin || data.clientGstin || data.placeOfSupply
+    || [data.cgstAmount, data.sgstAmount, data.igstAmount].some(v => v !== undefined && v !== null));
 
   const totalAmount = data.totalAmount || 0;
   const paidAmount = 0; // You can get this from data if available
@@ -373,6 +686,7 @@ export default function FinancialReview({ pdfUrl, initialData }: FinancialReview
           onLoadedMetadata={onLoadedMetadata}
           onTimeUpdate={onTimeUpdate}
           onEnded={onEnded}
+          onError={onAudioError}
           crossOrigin="anonymous" // Important for AudioContext
         />
       )}
@@ -391,34 +705,100 @@ export default function FinancialReview({ pdfUrl, initialData }: FinancialReview
             <p className="upload-date">Processed on {format(new Date(data.uploadedAt), 'MMM dd, yyyy')}</p>
           </div>
         </div>
-        <div className={`status-badge ${data.status.toLowerCase()}`}>
-          {getStatusIcon()}
-          <span>{data.status}</span>
+        <div className="header-badges">
+          {data.correctedFields && data.correctedFields.length > 0 && (
+            <div
+              className="status-badge corrected"
+              title={`Corrected by a reviewer: ${data.correctedFields.join(', ')}`}
+            >
+              <CheckCircle size={16} />
+              <span>Corrected</span>
+            </div>
+          )}
+          <div
+            className={`status-badge ${data.status.toLowerCase()}`}
+            title={data.reviewedBy ? `Reviewed by ${data.reviewedBy}` : undefined}
+          >
+            {getStatusIcon()}
+            <span>{data.status.replace('_', ' ')}</span>
+          </div>
+          {data.status === 'NEEDS_REVIEW' && (
+            <button className="mark-reviewed-btn" onClick={markReviewed}>
+              <CheckCircle size={14} /> Mark reviewed
+            </button>
+          )}
+          {reviewError && <span className="review-error">{reviewError}</span>}
         </div>
       </div>
 
       <div className="review-grid">
-        {/* Left Column - Audio Player */}
+        {/* Left Column - Audio Player (page images for OCR'd documents) */}
         <div className="audio-section">
+          {showDocumentPreview ? (
+            <DocumentPreview pages={data.pages!} highlight={hoveredEvidence} />
+          ) : (
           <div className="audio-card">
             <div className="audio-glow" />
 
             <div className="audio-content">
               {/* Toggle Switch */}
-              {data.enhancedAudioUrl && (
+              {(data.enhancedAudioUrl || data.redactedAudioUrl) && (
                 <div className="audio-toggle-container">
+                  {data.redactedAudioUrl && (
+                    <button
+                      className={`toggle-btn ${audioSource === 'redacted' ? 'active' : ''}`}
+                      onClick={() => selectAudioSource('redacted')}
+                      title="Account numbers and other details are beeped out"
+                    >
+                      Redacted
+                    </button>
+                  )}
                   <button
-                    className={`toggle-btn ${!showEnhanced ? 'active' : ''}`}
-                    onClick={() => setShowEnhanced(false)}
+                    className={`toggle-btn ${audioSource === 'original' ? 'active' : ''}`}
+                    onClick={() => selectAudioSource('original')}
                   >
                     Original
                   </button>
-                  <button
-                    className={`toggle-btn ${showEnhanced ? 'active' : ''}`}
-                    onClick={() => setShowEnhanced(true)}
+                  {data.enhancedAudioUrl && (
+                    <button
+                      className={`toggle-btn ${audioSource === 'enhanced' ? 'active' : ''}`}
+                      onClick={() => selectAudioSource('enhanced')}
+                    >
+                      Enhanced ✨
+                    </button>
+                  )}
+                </div>
+              )}
+
+              {audioNotice && (
+                <p className="audio-notice"><AlertTriangle size={12} /> {audioNotice}</p>
+              )}
+
+              {/* Enhancement Profile */}
+              {data.enhancedAudioUrl && (
+                <div className="enhancement-row">
+                  <select
+                    className="profile-select"
+                    value={selectedProfile}
+                    onChange={(e) => setSelectedProfile(e.target.value as EnhancementProfileName)}
+                    disabled={isEnhancing}
+                    title={ENHANCEMENT_PROFILES[selectedProfile].description}
                   >
-                    Enhanced ✨
+                    {ENHANCEMENT_PROFILE_NAMES.map((name) => (
+                      <option key={name} value={name}>{ENHANCEMENT_PROFILES[name].label}</option>
+                    ))}
+                  </select>
+                  <button className="reenhance-btn" onClick={handleReenhance} disabled={isEnhancing}>
+                    {isEnhancing ? <Loader2 size={14} className="animate-spin" /> : null}
+                    {isEnhancing ? 'Enhancing...' : 'Re-run'}
                   </button>
+                  {data.enhancement && !isEnhancing && (
+                    <span className={`enhancement-info ${data.enhancement.status === 'FAILED' ? 'failed' : ''}`}>
+                      {data.enhancement.status === 'FAILED'
+                        ? data.enhancement.error || 'Enhancement failed'
+                        : `${data.enhancement.profile} v${data.enhancement.profileVersion}`}
+                    </span>
+                  )}
                 </div>
               )}
 
@@ -428,19 +808,30 @@ export default function FinancialReview({ pdfUrl, initialData }: FinancialReview
                   <FileAudio size={56} />
                 </div>
 
-                {/* Visualizer */}
-                <div className="audio-visualizer">
-                  {visualizerData.map((height, i) => (
-                    <div
-                      key={i}
-                      className="bar"
-                      style={{
-                        height: `${height}%`,
-                        opacity: isPlaying ? 1 : 0.5
-                      }}
-                    />
-                  ))}
-                </div>
+                {/* Waveform (precomputed) or live Visualizer */}
+                {waveformPeaks ? (
+                  <Waveform
+                    peaks={waveformPeaks}
+                    duration={duration || waveformDuration}
+                    currentTime={currentTime}
+                    onSeek={seekTo}
+                    turns={waveformTurns}
+                    markers={waveformMarkers}
+                  />
+                ) : (
+                  <div className="audio-visualizer">
+                    {visualizerData.map((height, i) => (
+                      <div
+                        key={i}
+                        className="bar"
+                        style={{
+                          height: `${height}%`,
+                          opacity: isPlaying ? 1 : 0.5
+                        }}
+                      />
+                    ))}
+                  </div>
+                )}
 
                 {/* Progress Bar */}
                 <div className="progress-container">
@@ -480,6 +871,7 @@ export default function FinancialReview({ pdfUrl, initialData }: FinancialReview
               </div>
             </div>
           </div>
+          )}
         </div>
 
         {/* Right Column - Info & Chat */}
@@ -492,31 +884,279 @@ export default function FinancialReview({ pdfUrl, initialData }: FinancialReview
               financialEvents={data.financialEvents}
               emotionalState={data.emotionalState}
               complianceNotes={data.complianceNotes}
+              evidence={data.evidence}
+              onEvidenceHover={setHoveredEvidence}
+              originalValues={originalValues}
+              onCorrect={(field, value) => saveCorrection(field, value.split('\n'))}
             />
 
+            {/* Call Quality Metrics (VAD) */}
+            <CallMetricsCard metrics={data.callMetrics} onSeek={seekTo} />
+
+            {/* Keyword Hits */}
+            {data.keywordHits && data.keywordHits.length > 0 && (
+              <div className="info-card">
+                <h3 className="card-section-title">KEYWORD HITS</h3>
+                <ul className="keyword-hits">
+                  {data.keywordHits.map((hit, idx) => (
+                    <li key={idx} onClick={() => seekTo(hit.start)} title={`Matched "${hit.matched}"`}>
+                      <span className="segment-time">{formatTime(hit.start)}</span>
+                      <span className="keyword-hit-term">{hit.keyword}</span>
+                      {hit.speaker && <span className="keyword-hit-speaker">{hit.speaker}</span>}
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            )}
+
             {/* Metadata Card */}
             <div className="info-card">
               <h3 className="card-section-title">METADATA</h3>
               <div className="info-grid">
                 <div className="info-item">
                   <label>TYPE</label>
-                  <p>{data.documentType || 'Audio'}</p>
+                  <p>
+                    <EditableField value={data.documentType || ''} originalValue={originalValues.documentType} onSave={(v) => saveCorrection('documentType', v)}>
+                      {data.documentType || 'Audio'}
+                    </EditableField>
+                  </p>
                 </div>
-                <div className="info-item">
+                <div className="info-item" {...evidenceProps('invoiceNumber')}>
                   <label>INVOICE #</label>
-                  <p>{data.invoiceNumber || '-'}</p>
+                  <p>
+                    <EditableField value={data.invoiceNumber || ''} originalValue={originalValues.invoiceNumber} onSave={(v) => saveCorrection('invoiceNumber', v)}>
+                      {data.invoiceNumber || '-'} {unsupportedBadge('invoiceNumber')}
+                    </EditableField>
+                  </p>
                 </div>
-                <div className="info-item">
+                <div className="info-item" {...evidenceProps('invoiceDate')}>
                   <label>DATE</label>
-                  <p>{data.invoiceDate ? format(new Date(data.invoiceDate), 'MMM dd, yyyy') : '-'}</p>
+                  <p>
+                    <EditableField type="date" value={asDateInput(data.invoiceDate)} originalValue={originalValues.invoiceDate} onSave={(v) => saveCorrection('invoiceDate', v)}>
+                      {data.invoiceDate ? format(new Date(data.invoiceDate), 'MMM dd, yyyy') : '-'} {unsupportedBadge('invoiceDate')}
+                    </EditableField>
+                  </p>
                 </div>
-                <div className="info-item">
+                <div className="info-item" {...evidenceProps('dueDate')}>
                   <label>DUE DATE</label>
-                  <p>{data.dueDate ? format(new Date(data.dueDate), 'MMM dd, yyyy') : '-'}</p>
+                  <p>
+                    <EditableField type="date" value={asDateInput(data.dueDate)} originalValue={originalValues.dueDate} onSave={(v) => saveCorrection('dueDate', v)}>
+                      {data.dueDate ? format(new Date(data.dueDate), 'MMM dd, yyyy') : '-'} {unsupportedBadge('dueDate')}
+                    </EditableField>
+                  </p>
+                </div>
+                <div className="info-item" {...evidenceProps('totalAmount')}>
+                  <label>AMOUNT</label>
+                  <p>
+                    <EditableField type="number" value={data.totalAmount?.toString() ?? ''} originalValue={originalValues.totalAmount} onSave={(v) => saveCorrection('totalAmount', v)}>
+                      {data.totalAmount !== undefined && data.totalAmount !== null ? `${currencySymbol}${data.totalAmount.toLocaleString()}` : '-'} {unsupportedBadge('totalAmount')}
+                    </EditableField>
+                  </p>
+                </div>
+                <div className="info-item" {...evidenceProps('vendorName')}>
+                  <label>VENDOR</label>
+                  <p>
+                    <EditableField value={data.vendorName || ''} originalValue={originalValues.vendorName} onSave={(v) => saveCorrection('vendorName', v)}>
+                      {data.vendorName || '-'} {unsupportedBadge('vendorName')}
+                    </EditableField>
+                  </p>
+                </div>
+                <div className="info-item" {...evidenceProps('clientName')}>
+                  <label>CLIENT</label>
+                  <p>
+                    <EditableField value={data.clientName || ''} originalValue={originalValues.clientName} onSave={(v) => saveCorrection('clientName', v)}>
+                      {data.clientName || '-'} {unsupportedBadge('clientName')}
+                    </EditableField>
+                  </p>
                 </div>
+                {isGstInvoice && (['vendorGstin', 'clientGstin'] as const).map(field => {
+                  const gstin = data[field];
+                  const check = gstin ? checkGstin(gstin) : undefined;
+                  return (
+                    <div key={field} className="info-item" {...evidenceProps(field)}>
+                      <label>{field === 'vendorGstin' ? 'VENDOR GSTIN' : 'CLIENT GSTIN'}</label>
+                      <p>
+                        <EditableField value={gstin || ''} originalValue={originalValues[field]} onSave={(v) => saveCorrection(field, v)}>
+                          <span className="gstin">{gstin || '-'}</span>
+                          {check && (check.valid
+                            ? <span className="gstin-state">{check.stateName}</span>
+                            : (
+                              <span className="unsupported-badge" title={check.error}>
+                                <AlertTriangle size={10} /> invalid
+                              </span>
+                            ))}
+                          {' '}{unsupportedBadge(field)}
+                        </EditableField>
+                      </p>
+                    </div>
+                  );
+                })}
+                {isGstInvoice && (
+                  <div className="info-item" {...evidenceProps('placeOfSupply')}>
+                    <label>PLACE OF SUPPLY</label>
+                    <p>
+                      <EditableField value={data.placeOfSupply || ''} originalValue={originalValues.placeOfSupply} onSave={(v) => saveCorrection('placeOfSupply', v)}>
+                        {data.placeOfSupply || '-'} {unsupportedBadge('placeOfSupply')}
+                      </EditableField>
+                    </p>
+                  </div>
+                )}
+                {isGstInvoice && (['cgstAmount', 'sgstAmount', 'igstAmount'] as const).map(field => (
+                  <div key={field} className="info-item" {...evidenceProps(field)}>
+                    <label>{field.slice(0, 4).toUpperCase()}</label>
+                    <p>
+                      <EditableField
+                        value={data[field] !== undefined && data[field] !== null ? String(data[field]) : ''}
+                        type="number"
+                        originalValue={originalValues[field]}
+                        onSave={(v) => saveCorrection(field, v)}
+                      >
+                        {data[field] !== undefined && data[field] !== null ? `${currencySymbol}${data[field]!.toLocaleString()}` : '-'} {unsupportedBadge(field)}
+                      </EditableField>
+                    </p>
+                  </div>
+                ))}
+                {data.language && (
+                  <div className="info-item">
+                    <label>LANGUAGE</label>
+                    <p>{data.language}{data.languageSource === 'detected' ? ' (auto-detected)' : ''}</p>
+                  </div>
+                )}
+                {data.textExtraction?.pageCount !== undefined && (
+                  <div className="info-item">
+                    <label>PAGES</label>
+                    <p>
+                      {data.textExtraction.pageCount}
+                      {data.textExtraction.ocrPages.length > 0 && (
+                        <span className="unsupported-badge" title={`Scanned pages without text: ${data.textExtraction.ocrPages.join(', ')}`}>
+                          <AlertTriangle size={10} /> {data.textExtraction.ocrPages.length} need OCR
+                        </span>
+                      )}
+                      {!!data.textExtraction.ocrAppliedPages?.length && (
+                        <span className="ocr-badge" title={`Read by OCR: ${data.textExtraction.ocrAppliedPages.join(', ')}`}>
+                          <ScanText size={10} /> {data.textExtraction.ocrAppliedPages.length} OCR
+                        </span>
+                      )}
+                    </p>
+                  </div>
+                )}
+                {data.analysisChunking && (
+                  <div
+                    className="info-item"
+                    title={data.analysisChunking.conflicts
+                      .map(c => `${c.field}: ${c.values.join(' / ')} → kept ${c.chosen}`)
+                      .join('\n') || undefined}
+                  >
+                    <label>ANALYSIS</label>
+                    <p>
+                      Long call, {data.analysisChunking.chunkCount} parts
+                      {data.analysisChunking.failedChunks.length > 0 && ` (${data.analysisChunking.failedChunks.length} failed)`}
+                      {data.analysisChunking.conflicts.length > 0 && (
+                        <span className="unsupported-badge">
+                          <AlertTriangle size={10} /> {data.analysisChunking.conflicts.length} conflict(s)
+                        </span>
+                      )}
+                    </p>
+                  </div>
+                )}
+                {data.audioMetadata && (
+                  <>
+                    <div className="info-item">
+                      <label>DURATION</label>
+                      <p>{formatTime(data.audioMetadata.durationSeconds)}</p>
+                    </div>
+                    <div className="info-item">
+                      <label>AUDIO</label>
+                      <p>
+                        {[
+                          data.audioMetadata.container?.toUpperCase(),
+                          data.audioMetadata.codec,
+                          data.audioMetadata.sampleRate && `${data.audioMetadata.sampleRate / 1000}kHz`,
+                          data.audioMetadata.channels && (data.audioMetadata.channels === 1 ? 'mono' : `${data.audioMetadata.channels}ch`)
+                        ].filter(Boolean).join(' · ')}
+                      </p>
+                    </div>
+                    {data.audioMetadata.recordedAt && (
+                      <div className="info-item">
+                        <label>RECORDED</label>
+                        <p>{format(new Date(data.audioMetadata.recordedAt), 'MMM dd, yyyy HH:mm')}</p>
+                      </div>
+                    )}
+                  </>
+                )}
               </div>
+              {data.audioWarnings && data.audioWarnings.length > 0 && (
+                <ul className="audio-warnings">
+                  {data.audioWarnings.map((w, i) => (
+                    <li key={i}><AlertTriangle size={12} /> {w}</li>
+                  ))}
+                </ul>
+              )}
             </div>
 
+            {/* Arithmetic and GST checks (documents) */}
+            <ValidationFindingsCard findings={data.validationFindings} />
+
+            {/* Line Items (documents) */}
+            {(data.lineItems?.length || !data.transcript) && (
+              <LineItemsCard
+                items={data.lineItems}
+                currencySymbol={currencySymbol}
+                corrected={data.correctedFields?.includes('lineItems')}
+                flaggedRows={(data.validationFindings || [])
+                  .filter(f => f.field.startsWith('lineItems['))
+                  .reduce<Record<number, string>>((rows, f) => {
+                    const row = Number(f.field.match(/\d+/)![0]);
+                    rows[row] = rows[row] ? `${rows[row]}\n${f.message}` : f.message;
+                    return rows;
+                  }, {})}
+                onSave={(rows) => saveCorrection('lineItems', rows)}
+              />
+            )}
+
+            {/* Timestamped Transcript Card */}
+            {data.segments && data.segments.length > 0 && (
+              <div className="info-card">
+                <h3 className="card-section-title">TRANSCRIPT</h3>
+                {hasNativeTranscript && (
+                  <div className="transcript-toggle">
+                    <button
+                      className={`transcript-toggle-btn ${!showNative ? 'active' : ''}`}
+                      onClick={() => setShowNative(false)}
+                    >
+                      English
+                    </button>
+                    <button
+                      className={`transcript-toggle-btn ${showNative ? 'active' : ''}`}
+                      onClick={() => setShowNative(true)}
+                    >
+                      Original ({data.language})
+                    </button>
+                  </div>
+                )}
+                {showNative && hasNativeTranscript ? (
+                  <p className="native-transcript">{data.nativeTranscript}</p>
+                ) : (
+                  <ul className="segment-list" ref={segmentListRef}>
+                    {data.segments.map((seg) => (
+                      <li
+                        key={seg.id}
+                        data-segment-id={seg.id}
+                        className={`segment-row ${currentTime >= seg.start && currentTime < seg.end ? 'active' : ''} ${isEvidenceSegment(seg) ? 'evidence' : ''}`}
+                        onClick={() => seekTo(seg.start)}
+                      >
+                        <span className="segment-time">{formatTime(seg.start)}</span>
+                        {seg.speaker && (
+                          <span className={`segment-speaker ${seg.speaker.toLowerCase()}`}>{seg.speaker}</span>
+                        )}
+                        <span className="segment-text">{renderSegmentText(seg)}</span>
+                      </li>
+                    ))}
+                  </ul>
+                )}
+              </div>
+            )}
+
             {/* Parties & Summary Card */}
 
 
@@ -634,6 +1274,67 @@ export default function FinancialReview({ pdfUrl, initialData }: FinancialReview
             background: rgba(255, 255, 255, 0.05);
         }
 
+        .audio-notice {
+            display: flex;
+            align-items: center;
+            justify-content: center;
+            gap: 6px;
+            margin: -8px 0 16px;
+            font-size: 0.75rem;
+            color: #fbd38d;
+            text-align: center;
+        }
+
+        .enhancement-row {
+            display: flex;
+            align-items: center;
+            justify-content: center;
+            gap: 8px;
+            margin-bottom: 20px;
+            flex-wrap: wrap;
+        }
+
+        .profile-select {
+            padding: 6px 12px;
+            border-radius: 8px;
+            border: 1px solid rgba(255, 255, 255, 0.1);
+            background: rgba(255, 255, 255, 0.1);
+            color: white;
+            font-size: 0.8125rem;
+        }
+
+        .profile-select option {
+            color: #1a1a1a;
+        }
+
+        .reenhance-btn {
+            display: inline-flex;
+            align-items: center;
+            gap: 6px;
+            padding: 6px 14px;
+            border-radius: 8px;
+            border: 1px solid rgba(252, 163, 17, 0.4);
+            background: transparent;
+            color: var(--tangerine);
+            font-size: 0.8125rem;
+            font-weight: 600;
+            cursor: pointer;
+        }
+
+        .reenhance-btn:disabled {
+            opacity: 0.6;
+            cursor: default;
+        }
+
+        .enhancement-info {
+            font-size: 0.75rem;
+            color: rgba(255, 255, 255, 0.5);
+        }
+
+        .enhancement-info.failed {
+            color: #feb2b2;
+        }
+
         .financial-review {
           min-height: 100vh;
           background: var(--navy-bg);
@@ -726,6 +1427,49 @@ export default function FinancialReview({ pdfUrl, initialData }: FinancialReview
           border-color: rgba(72, 187, 120, 0.2);
         }
 
+        .header-badges {
+          display: flex;
+          align-items: center;
+          gap: 0.5rem;
+        }
+
+        .status-badge.corrected {
+          background: rgba(72, 187, 120, 0.1);
+          color: #22543d;
+          border-color: rgba(72, 187, 120, 0.2);
+        }
+
+        .mark-reviewed-btn {
+          display: inline-flex;
+          align-items: center;
+          gap: 0.375rem;
+          padding: 0.5rem 1rem;
+          border-radius: 2rem;
+          border: 1px solid rgba(72, 187, 120, 0.4);
+          background: white;
+          color: #22543d;
+          font-size: 0.6875rem;
+          font-weight: 700;
+          letter-spacing: 0.05em;
+          text-transform: uppercase;
+          cursor: pointer;
+        }
+
+        .mark-reviewed-btn:hover {
+          background: rgba(72, 187, 120, 0.1);
+        }
+
+        .review-error {
+          font-size: 0.75rem;
+          color: #c53030;
+        }
+
+        .status-badge.needs_review {
+          background: rgba(66, 153, 225, 0.1);
+          color: #2a4365;
+          border-color: rgba(66, 153, 225, 0.2);
+        }
+
         .status-badge.processing {
           background: rgba(252, 163, 17, 0.1);
           color: var(--tangerine-darker);
@@ -956,6 +1700,211 @@ export default function FinancialReview({ pdfUrl, initialData }: FinancialReview
           margin: 0;
         }
 
+        .keyword-hits {
+          list-style: none;
+          padding: 0;
+          margin: 0;
+          display: flex;
+          flex-wrap: wrap;
+          gap: 0.5rem;
+        }
+
+        .keyword-hits li {
+          display: inline-flex;
+          align-items: center;
+          gap: 0.5rem;
+          padding: 0.375rem 0.75rem;
+          border-radius: 1rem;
+          background: rgba(252, 163, 17, 0.1);
+          border: 1px solid rgba(252, 163, 17, 0.25);
+          font-size: 0.8125rem;
+          cursor: pointer;
+        }
+
+        .keyword-hit-term {
+          font-weight: 700;
+          color: var(--navy-bg);
+        }
+
+        .keyword-hit-speaker {
+          font-size: 0.6875rem;
+          color: #a0aec0;
+        }
+
+        .audio-warnings {
+          list-style: none;
+          padding: 0;
+          margin: 1rem 0 0;
+        }
+
+        .audio-warnings li {
+          display: flex;
+          align-items: center;
+          gap: 0.375rem;
+          font-size: 0.75rem;
+          color: #975a16;
+          margin-bottom: 0.25rem;
+        }
+
+        .transcript-toggle {
+          display: flex;
+          gap: 0.5rem;
+          margin-bottom: 1rem;
+        }
+
+        .transcript-toggle-btn {
+          padding: 0.375rem 1rem;
+          border-radius: 2rem;
+          border: 1px solid #e2e8f0;
+          background: white;
+          color: #4a5568;
+          font-size: 0.75rem;
+          font-weight: 600;
+          cursor: pointer;
+        }
+
+        .transcript-toggle-btn.active {
+          background: var(--tangerine);
+          border-color: var(--tangerine);
+          color: var(--navy-bg);
+        }
+
+        .native-transcript {
+          font-size: 0.9375rem;
+          color: #4a5568;
+          line-height: 1.7;
+          margin: 0;
+          max-height: 320px;
+          overflow-y: auto;
+          white-space: pre-wrap;
+        }
+
+        .segment-list {
+          list-style: none;
+          padding: 0;
+          margin: 0;
+          max-height: 320px;
+          overflow-y: auto;
+          display: flex;
+          flex-direction: column;
+          gap: 0.25rem;
+        }
+
+        .segment-row {
+          display: flex;
+          gap: 1rem;
+          padding: 0.5rem 0.75rem;
+          border-radius: 0.75rem;
+          cursor: pointer;
+          transition: background 0.2s;
+        }
+
+        .segment-row:hover {
+          background: #f7fafc;
+        }
+
+        .segment-row.active {
+          background: rgba(252, 163, 17, 0.1);
+        }
+
+        .segment-row.evidence {
+          background: #fef9c3;
+          box-shadow: inset 3px 0 0 #eab308;
+        }
+
+        .evidence-quote {
+          background: #fde047;
+          border-radius: 0.25rem;
+          padding: 0 0.125rem;
+        }
+
+        .unsupported-badge {
+          display: inline-flex;
+          align-items: center;
+          gap: 0.2rem;
+          padding: 0.05rem 0.4rem;
+          border-radius: 999px;
+          background: #fffbeb;
+          border: 1px solid #fcd34d;
+          color: #b45309;
+          font-size: 0.625rem;
+          font-weight: 600;
+          vertical-align: middle;
+          white-space: nowrap;
+        }
+
+        .gstin {
+          font-family: monospace;
+          letter-spacing: 0.03em;
+        }
+
+        .gstin-state {
+          margin-left: 0.375rem;
+          font-size: 0.75rem;
+          color: #718096;
+        }
+
+        .ocr-badge {
+          display: inline-flex;
+          align-items: center;
+          gap: 0.2rem;
+          margin-left: 0.25rem;
+          padding: 0.05rem 0.4rem;
+          border-radius: 999px;
+          background: #ebf8ff;
+          border: 1px solid #90cdf4;
+          color: #2b6cb0;
+          font-size: 0.625rem;
+          font-weight: 600;
+          vertical-align: middle;
+          white-space: nowrap;
+        }
+
+        .low-confidence-badge {
+          display: inline-flex;
+          align-items: center;
+          gap: 0.2rem;
+          padding: 0.05rem 0.4rem;
+          border-radius: 999px;
+          background: #ebf8ff;
+          border: 1px solid #90cdf4;
+          color: #2b6cb0;
+          font-size: 0.625rem;
+          font-weight: 600;
+          vertical-align: middle;
+          white-space: nowrap;
+        }
+
+        .segment-time {
+          font-size: 0.75rem;
+          font-weight: 700;
+          color: var(--tangerine-darker);
+          font-variant-numeric: tabular-nums;
+          flex-shrink: 0;
+          padding-top: 0.125rem;
+        }
+
+        .segment-speaker {
+          font-size: 0.625rem;
+          font-weight: 700;
+          letter-spacing: 0.05em;
+          text-transform: uppercase;
+          color: var(--navy-bg);
+          flex-shrink: 0;
+          width: 4.5rem;
+          padding-top: 0.2rem;
+        }
+
+        .segment-speaker.customer {
+          color: #2b6cb0;
+        }
+
+        .segment-text {
+          font-size: 0.875rem;
+          color: #4a5568;
+          line-height: 1.5;
+        }
+
         .summary-card {
            background: var(--cream-bg);
            border-radius: 2rem;
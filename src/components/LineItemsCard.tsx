@@ -0,0 +1,290 @@
+'use client';
+
+import { useState } from 'react';
+import { List, Pencil, Plus, Trash2, Check, X, Loader2 } from 'lucide-react';
+
+export interface LineItem {
+    description: string;
+    quantity: number;
+    unitPrice: number;
+    totalPrice: number;
+    /** HSN/SAC code (Indian GST invoices) */
+    hsnSac?: string;
+}
+
+// Rows are edited as strings so partly typed numbers survive re-renders
+type DraftRow = Record<keyof LineItem, string>;
+
+interface LineItemsCardProps {
+    items?: LineItem[];
+    currencySymbol?: string;
+    /** A reviewer has changed the line items */
+    corrected?: boolean;
+    /** Rows whose arithmetic doesn't add up, with the reason */
+    flaggedRows?: Record<number, string>;
+    onSave?: (items: DraftRow[]) => Promise<void>;
+}
+
+const toDraft = (item: LineItem): DraftRow => ({
+    description: item.description,
+    quantity: String(item.quantity),
+    unitPrice: String(item.unitPrice),
+    totalPrice: String(item.totalPrice),
+    hsnSac: item.hsnSac || '',
+});
+
+export default function LineItemsCard({ items = [], currencySymbol = '', corrected, flaggedRows = {}, onSave }: LineItemsCardProps) {
+    const [draft, setDraft] = useState<DraftRow[] | null>(null);
+    const [isSaving, setIsSaving] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+
+    if (items.length === 0 && !onSave) return null;
+    const showHsnSac = items.some(item => item.hsnSac);
+
+    const updateRow = (index: number, key: keyof LineItem, value: string) => {
+        setDraft(rows => rows && rows.map((row, i) => (i === index ? { ...row, [key]: value } : row)));
+    };
+
+    const save = async () => {
+        if (!draft || !onSave) return;
+        setIsSaving(true);
+        setError(null);
+        try {
+            await onSave(draft);
+            setDraft(null);
+        } catch (err: any) {
+            setError(err.message || 'Failed to save');
+        } finally {
+            setIsSaving(false);
+        }
+    };
+
+    return (
+        <div className="line-items-card">
+            <div className="line-items-header">
+                <h3><List size={14} /> LINE ITEMS</h3>
+                {corrected && <span className="corrected-badge">edited</span>}
+                {onSave && !draft && (
+                    <button className="icon-button" onClick={() => { setError(null); setDraft(items.map(toDraft)); }} title="Correct line items">
+                        <Pencil size={12} />
+                    </button>
+                )}
+            </div>
+
+            {draft ? (
+                <div className="line-items-editor">
+                    {draft.map((row, idx) => (
+                        <div key={idx} className="editor-row">
+                            <input
+                                className="description"
+                                value={row.description}
+                                onChange={(e) => updateRow(idx, 'description', e.target.value)}
+                                placeholder="Description"
+                            />
+                            <input value={row.hsnSac} onChange={(e) => updateRow(idx, 'hsnSac', e.target.value)} placeholder="HSN/SAC" />
+                            <input value={row.quantity} onChange={(e) => updateRow(idx, 'quantity', e.target.value)} placeholder="Qty" />
+                            <input value={row.unitPrice} onChange={(e) => updateRow(idx, 'unitPrice', e.target.value)} placeholder="Unit price" />
+                            <input value={row.totalPrice} onChange={(e) => updateRow(idx, 'totalPrice', e.target.value)} placeholder="Total" />
+                            <button className="icon-button" onClick={() => setDraft(draft.filter((_, i) => i !== idx))} title="Remove">
+                                <Trash2 size={12} />
+                            </button>
+                        </div>
+                    ))}
+                    <div className="editor-actions">
+                        <button
+                            className="add-button"
+                            onClick={() => setDraft([...draft, { description: '', quantity: '1', unitPrice: '', totalPrice: '', hsnSac: '' }])}
+                        >
+                            <Plus size={12} /> Add item
+                        </button>
+                        <span className="spacer" />
+                        <button className="save-button" onClick={save} disabled={isSaving}>
+                            {isSaving ? <Loader2 size={12} className="animate-spin" /> : <Check size={12} />} Save
+                        </button>
+                        <button className="cancel-button" onClick={() => setDraft(null)} disabled={isSaving}>
+                            <X size={12} /> Cancel
+                        </button>
+                    </div>
+                    {error && <p className="editor-error">{error}</p>}
+                </div>
+            ) : items.length > 0 ? (
+                <table className="line-items-table">
+                    <thead>
+                        <tr>
+                            <th>DESCRIPTION</th>
+                            {showHsnSac && <th>HSN/SAC</th>}
+                            <th>QTY</th>
+                            <th>UNIT</th>
+                            <th>TOTAL</th>
+                        </tr>
+                    </thead>
+                    <tbody>
+                        {items.map((item, idx) => (
+                            <tr key={idx} className={flaggedRows[idx] ? 'flagged' : undefined} title={flaggedRows[idx]}>
+                                <td>{item.description}</td>
+                                {showHsnSac && <td>{item.hsnSac || '-'}</td>}
+                                <td>{item.quantity}</td>
+                                <td>{currencySymbol}{item.unitPrice.toLocaleString()}</td>
+                                <td>{currencySymbol}{item.totalPrice.toLocaleString()}</td>
+                            </tr>
+                        ))}
+                    </tbody>
+                </table>
+            ) : (
+                <p className="empty">No line items extracted</p>
+            )}
+
+            <style jsx>{`
+                .line-items-card {
+                    background: white;
+                    border-radius: 2rem;
+                    padding: 2rem;
+                    box-shadow: 0 10px 50px rgba(20, 33, 61, 0.1);
+                    flex-shrink: 0;
+                }
+
+                .line-items-header {
+                    display: flex;
+                    align-items: center;
+                    gap: 0.5rem;
+                    margin-bottom: 1.5rem;
+                    padding-bottom: 1rem;
+                    border-bottom: 1px solid #f0f0f0;
+                }
+
+                .line-items-header h3 {
+                    display: inline-flex;
+                    align-items: center;
+                    gap: 0.375rem;
+                    margin: 0;
+                    font-size: 0.625rem;
+                    font-weight: 700;
+                    color: rgba(20, 33, 61, 0.4);
+                    letter-spacing: 0.1em;
+                }
+
+                .icon-button {
+                    display: inline-flex;
+                    align-items: center;
+                    padding: 0.25rem;
+                    border: none;
+                    border-radius: 0.25rem;
+                    background: transparent;
+                    color: #a0aec0;
+                    cursor: pointer;
+                }
+
+                .icon-button:hover {
+                    color: var(--tangerine-darker);
+                    background: rgba(252, 163, 17, 0.1);
+                }
+
+                .corrected-badge {
+                    padding: 0.05rem 0.4rem;
+                    border-radius: 999px;
+                    background: #f0fff4;
+                    border: 1px solid #9ae6b4;
+                    color: #276749;
+                    font-size: 0.625rem;
+                    font-weight: 600;
+                }
+
+                .line-items-table {
+                    width: 100%;
+                    border-collapse: collapse;
+                    font-size: 0.8125rem;
+                }
+
+                .line-items-table th {
+                    text-align: left;
+                    font-size: 0.625rem;
+                    letter-spacing: 0.05em;
+                    color: #a0aec0;
+                    padding: 0.375rem 0.5rem;
+                    border-bottom: 1px solid #f0f0f0;
+                }
+
+                .line-items-table td {
+                    padding: 0.5rem;
+                    color: var(--navy-bg);
+                    border-bottom: 1px solid #f7f7f7;
+                    font-variant-numeric: tabular-nums;
+                }
+
+                .line-items-table tr.flagged td {
+                    background: #fffbeb;
+                    color: #92400e;
+                }
+
+                .editor-row {
+                    display: grid;
+                    grid-template-columns: 3fr 1.25fr 1fr 1.5fr 1.5fr auto;
+                    gap: 0.375rem;
+                    margin-bottom: 0.375rem;
+                }
+
+                .editor-row input {
+                    min-width: 0;
+                    padding: 0.3rem 0.5rem;
+                    border: 1px solid #e2e8f0;
+                    border-radius: 0.375rem;
+                    font: inherit;
+                    font-size: 0.8125rem;
+                }
+
+                .editor-row input:focus {
+                    outline: none;
+                    border-color: var(--tangerine);
+                }
+
+                .editor-actions {
+                    display: flex;
+                    align-items: center;
+                    gap: 0.375rem;
+                    margin-top: 0.5rem;
+                }
+
+                .spacer {
+                    flex: 1;
+                }
+
+                .editor-actions button {
+                    display: inline-flex;
+                    align-items: center;
+                    gap: 0.25rem;
+                    padding: 0.3rem 0.625rem;
+                    border: 1px solid #e2e8f0;
+                    border-radius: 0.375rem;
+                    background: white;
+                    color: var(--navy-bg);
+                    font-size: 0.75rem;
+                    font-weight: 600;
+                    cursor: pointer;
+                }
+
+                .editor-actions .save-button {
+                    background: var(--tangerine);
+                    border-color: var(--tangerine);
+                    color: white;
+                }
+
+                .editor-actions button:disabled {
+                    opacity: 0.6;
+                    cursor: default;
+                }
+
+                .editor-error {
+                    margin: 0.5rem 0 0;
+                    font-size: 0.75rem;
+                    color: #c53030;
+                }
+
+                .empty {
+                    margin: 0;
+                    font-size: 0.8125rem;
+                    color: #a0aec0;
+                }
+            `}</style>
+        </div>
+    );
+}
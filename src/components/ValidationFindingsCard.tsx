@@ -0,0 +1,114 @@
+'use client';
+
+import { Calculator, AlertTriangle, CheckCircle } from 'lucide-react';
+
+export interface ValidationFinding {
+    check: 'line-total' | 'subtotal' | 'total' | 'due-date' | 'gstin' | 'hsn-sac' | 'tax-split';
+    field: string;
+    message: string;
+    expected?: number;
+    actual?: number;
+}
+
+interface ValidationFindingsCardProps {
+    /** Undefined when the document wasn't validated (calls) */
+    findings?: ValidationFinding[];
+}
+
+const CHECK_LABELS: Record<ValidationFinding['check'], string> = {
+    'line-total': 'Line total',
+    subtotal: 'Subtotal',
+    total: 'Total',
+    'due-date': 'Due date',
+    gstin: 'GSTIN',
+    'hsn-sac': 'HSN/SAC',
+    'tax-split': 'GST split',
+};
+
+export default function ValidationFindingsCard({ findings }: ValidationFindingsCardProps) {
+    if (!findings) return null;
+
+    return (
+        <div className="validation-card">
+            <h3><Calculator size={14} /> VALIDATION CHECKS</h3>
+
+            {findings.length === 0 ? (
+                <p className="all-good"><CheckCircle size={14} /> Line items, subtotal, tax and total add up</p>
+            ) : (
+                <ul>
+                    {findings.map((finding, idx) => (
+                        <li key={idx}>
+                            <span className="icon"><AlertTriangle size={14} /></span>
+                            <span className="check">{CHECK_LABELS[finding.check]}</span>
+                            <span>{finding.message}</span>
+                        </li>
+                    ))}
+                </ul>
+            )}
+
+            <style jsx>{`
+                .validation-card {
+                    background: white;
+                    border-radius: 2rem;
+                    padding: 2rem;
+                    box-shadow: 0 10px 50px rgba(20, 33, 61, 0.1);
+                    flex-shrink: 0;
+                }
+
+                h3 {
+                    display: flex;
+                    align-items: center;
+                    gap: 0.375rem;
+                    margin: 0 0 1rem;
+                    padding-bottom: 1rem;
+                    border-bottom: 1px solid #f0f0f0;
+                    font-size: 0.625rem;
+                    font-weight: 700;
+                    color: rgba(20, 33, 61, 0.4);
+                    letter-spacing: 0.1em;
+                }
+
+                ul {
+                    list-style: none;
+                    margin: 0;
+                    padding: 0;
+                    display: flex;
+                    flex-direction: column;
+                    gap: 0.5rem;
+                }
+
+                li {
+                    display: flex;
+                    align-items: flex-start;
+                    gap: 0.5rem;
+                    padding: 0.5rem 0.75rem;
+                    border-radius: 0.75rem;
+                    background: #fffbeb;
+                    border: 1px solid #fcd34d;
+                    color: #92400e;
+                    font-size: 0.8125rem;
+                }
+
+                .icon {
+                    display: inline-flex;
+                    flex-shrink: 0;
+                    margin-top: 0.1rem;
+                }
+
+                .check {
+                    flex-shrink: 0;
+                    font-weight: 700;
+                }
+
+                .all-good {
+                    display: flex;
+                    align-items: center;
+                    gap: 0.5rem;
+                    margin: 0;
+                    font-size: 0.8125rem;
+                    color: #276749;
+                }
+            `}</style>
+        </div>
+    );
+}
@@ -0,0 +1,189 @@
+'use client';
+
+import { useMemo } from 'react';
+
+export interface WaveformTurn {
+  start: number;
+  end: number;
+  speaker: string;
+}
+
+export interface WaveformMarker {
+  time: number;
+  label: string;
+  kind: 'talk-over' | 'dead-air' | 'flag';
+}
+
+interface WaveformProps {
+  peaks: number[];
+  duration: number;
+  currentTime: number;
+  onSeek: (time: number) => void;
+  turns?: WaveformTurn[];
+  markers?: WaveformMarker[];
+  bars?: number;
+}
+
+const SPEAKER_COLORS: Record<string, string> = {
+  Agent: 'var(--tangerine)',
+  Customer: '#63b3ed',
+};
+
+export default function Waveform({
+  peaks,
+  duration,
+  currentTime,
+  onSeek,
+  turns = [],
+  markers = [],
+  bars = 120
+}: WaveformProps) {
+  // Downsample the stored peaks to the number of bars we draw
+  const heights = useMemo(() => {
+    if (peaks.length === 0) return [];
+    const perBar = peaks.length / bars;
+    const result: number[] = [];
+    for (let i = 0; i < bars; i++) {
+      const slice = peaks.slice(Math.floor(i * perBar), Math.max(Math.floor((i + 1) * perBar), Math.floor(i * perBar) + 1));
+      result.push(Math.max(...slice, 0));
+    }
+    const max = Math.max(...result, 0.01);
+    return result.map(h => Math.max(4, (h / max) * 100));
+  }, [peaks, bars]);
+
+  const progress = duration > 0 ? currentTime / duration : 0;
+  const toPercent = (time: number) => `${Math.min(100, Math.max(0, (time / duration) * 100))}%`;
+
+  const handleClick = (e: React.MouseEvent<HTMLDivElement>) => {
+    if (!duration) return;
+    const rect = e.currentTarget.getBoundingClientRect();
+    const fraction = (e.clientX - rect.left) / rect.width;
+    onSeek(Math.max(0, Math.min(duration, fraction * duration)));
+  };
+
+  return (
+    <div className="waveform">
+      {/* Flagged moments */}
+      <div className="marker-track">
+        {duration > 0 && markers.map((m, i) => (
+          <div
+            key={i}
+            className={`marker ${m.kind}`}
+            style={{ left: toPercent(m.time) }}
+            title={m.label}
+            onClick={() => onSeek(m.time)}
+          />
+        ))}
+      </div>
+
+      <div className="bars" onClick={handleClick}>
+        {heights.map((h, i) => (
+          <div
+            key={i}
+            className={`wave-bar ${i / heights.length < progress ? 'played' : ''}`}
+            style={{ height: `${h}%` }}
+          />
+        ))}
+        <div className="playhead" style={{ left: `${progress * 100}%` }} />
+      </div>
+
+      {/* Speaker turns */}
+      {duration > 0 && turns.length > 0 && (
+        <div className="turn-track">
+          {turns.map((t, i) => (
+            <div
+              key={i}
+              className="turn"
+              title={t.speaker}
+              style={{
+                left: toPercent(t.start),
+                width: `${Math.max(0.2, ((t.end - t.start) / duration) * 100)}%`,
+                background: SPEAKER_COLORS[t.speaker] || '#a0aec0'
+              }}
+            />
+          ))}
+        </div>
+      )}
+
+      <style jsx>{`
+        .waveform {
+          width: 100%;
+          margin: 1.5rem 0;
+        }
+
+        .marker-track {
+          position: relative;
+          height: 0.75rem;
+          margin-bottom: 0.25rem;
+        }
+
+        .marker {
+          position: absolute;
+          top: 0;
+          width: 0.5rem;
+          height: 0.5rem;
+          border-radius: 50%;
+          transform: translateX(-50%);
+          cursor: pointer;
+        }
+
+        .marker.talk-over {
+          background: #fc8181;
+        }
+
+        .marker.dead-air {
+          background: #a0aec0;
+        }
+
+        .marker.flag {
+          background: var(--tangerine);
+        }
+
+        .bars {
+          position: relative;
+          display: flex;
+          align-items: center;
+          gap: 2px;
+          height: 5rem;
+          cursor: pointer;
+        }
+
+        .wave-bar {
+          flex: 1;
+          background: rgba(255, 255, 255, 0.25);
+          border-radius: 2px;
+          transition: background 0.2s;
+        }
+
+        .wave-bar.played {
+          background: var(--tangerine);
+        }
+
+        .playhead {
+          position: absolute;
+          top: 0;
+          bottom: 0;
+          width: 2px;
+          background: white;
+          pointer-events: none;
+        }
+
+        .turn-track {
+          position: relative;
+          height: 0.375rem;
+          margin-top: 0.5rem;
+          background: rgba(255, 255, 255, 0.05);
+          border-radius: 1rem;
+          overflow: hidden;
+        }
+
+        .turn {
+          position: absolute;
+          top: 0;
+          bottom: 0;
+          opacity: 0.8;
+        }
+      `}</style>
+    </div>
+  );
+}
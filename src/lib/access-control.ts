@@ -0,0 +1,60 @@
+import type { NextRequest } from 'next/server';
+
+/**
+ * Minimal role lookup for API routes. Access tokens are configured as
+ * ACCESS_TOKENS="token1:reviewer,token2:admin" and sent as a Bearer token or
+ * an `access_token` cookie; requests without a known token get DEFAULT_ROLE.
+ */
+
+export const ROLES = ['auditor', 'reviewer', 'admin'] as const;
+export type Role = typeof ROLES[number];
+
+export function isRole(value: unknown): value is Role {
+    return typeof value === 'string' && (ROLES as readonly string[]).includes(value);
+}
+
+function getTokenRoles(): Map<string, Role> {
+    const roles = new Map<string, Role>();
+    for (const entry of (process.env.ACCESS_TOKENS || '').split(',')) {
+        const separator = entry.lastIndexOf(':');
+        const token = entry.slice(0, separator).trim();
+        const role = entry.slice(separator + 1).trim();
+        if (separator > 0 && token && isRole(role)) {
+            roles.set(token, role);
+        }
+    }
+    return roles;
+}
+
+export function getRequestRole(req: NextRequest): Role {
+    const header = req.headers.get('authorization') || '';
+    const token = header.match(/^Bearer\s+(.+)$/i)?.[1]?.trim() || req.cookies.get('access_token')?.value;
+
+    const role = token ? getTokenRoles().get(token) : undefined;
+    if (role) return role;
+
+    const fallback = process.env.DEFAULT_ROLE;
+    return isRole(fallback) ? fallback : 'auditor';
+}
+
+/**
+ * Only internal reviewers and admins may hear PII in call recordings
+ */
+export function canHearUnredactedAudio(role: Role): boolean {
+    return role === 'reviewer' || role === 'admin';
+}
+
+/**
+ * Reviewers and admins may correct AI-extracted fields
+ */
+export function canCorrectExtractions(role: Role): boolean {
+    return role === 'reviewer' || role === 'admin';
+}
+
+/**
+ * Re-enhancing works from the unredacted recording, so it is limited to
+ * those who may hear it
+ */
+export function canEnhanceAudio(role: Role): boolean {
+    return canHearUnredactedAudio(role);
+}
@@ -0,0 +1,163 @@
+import ffmpeg from 'fluent-ffmpeg';
+import { TranscriptionResult, TranscriptSegment } from './transcribers/types';
+
+/**
+ * Splitting long recordings into chunks that Whisper can finish inside a
+ * single Inngest step. Cuts are placed in the middle of silences so no word
+ * is split across two chunks.
+ */
+
+export interface SilenceInterval {
+    start: number;
+    end: number;
+}
+
+export interface AudioChunk {
+    index: number;
+    start: number;
+    end: number;
+    path: string;
+}
+
+export interface ChunkingOptions {
+    /** Recordings up to this length are transcribed in one pass */
+    maxSinglePassSeconds: number;
+    /** Preferred chunk length */
+    targetChunkSeconds: number;
+    /** How far either side of the target we may look for a silence to cut at */
+    searchWindowSeconds: number;
+}
+
+export const DEFAULT_CHUNKING: ChunkingOptions = {
+    maxSinglePassSeconds: Number(process.env.TRANSCRIBE_MAX_SINGLE_PASS_SECONDS) || 900,
+    targetChunkSeconds: Number(process.env.TRANSCRIBE_CHUNK_SECONDS) || 600,
+    searchWindowSeconds: 60,
+};
+
+/**
+ * Find silent stretches with ffmpeg's silencedetect filter
+ */
+export async function detectSilences(
+    inputPath: string,
+    noiseDb: number = -35,
+    minDurationSeconds: number = 0.5
+): Promise<SilenceInterval[]> {
+    return new Promise((resolve, reject) => {
+        const silences: SilenceInterval[] = [];
+        let pendingStart: number | null = null;
+
+        ffmpeg(inputPath)
+            .audioFilters(`silencedetect=noise=${noiseDb}dB:d=${minDurationSeconds}`)
+            .format('null')
+            .on('stderr', (line: string) => {
+                const startMatch = line.match(/silence_start:\s*(-?[\d.]+)/);
+                if (startMatch) {
+                    pendingStart = Math.max(0, parseFloat(startMatch[1]));
+                    return;
+                }
+                const endMatch = line.match(/silence_end:\s*([\d.]+)/);
+                if (endMatch && pendingStart !== null) {
+                    silences.push({ start: pendingStart, end: parseFloat(endMatch[1]) });
+                    pendingStart = null;
+                }
+            })
+            .on('end', () => resolve(silences))
+            .on('error', (err) => {
+                console.error('❌ Silence detection failed:', err.message);
+                reject(new Error(`Silence detection failed: ${err.message}`));
+            })
+            .save('-');
+    });
+}
+
+/**
+ * Choose cut points: for every target boundary, the midpoint of the silence
+ * closest to it (within the search window), else a hard cut at the target.
+ * Returns [start, end] pairs covering the whole recording.
+ */
+export function planChunkBoundaries(
+    durationSeconds: number,
+    silences: SilenceInterval[],
+    options: ChunkingOptions = DEFAULT_CHUNKING
+): Array<{ start: number; end: number }> {
+    if (durationSeconds <= options.maxSinglePassSeconds) {
+        return [{ start: 0, end: durationSeconds }];
+    }
+
+    const boundaries: Array<{ start: number; end: number }> = [];
+    let start = 0;
+
+    while (durationSeconds - start > options.targetChunkSeconds + options.searchWindowSeconds) {
+        const target = start + options.targetChunkSeconds;
+        let cut = target;
+        let bestDistance = Infinity;
+
+        for (const silence of silences) {
+            const mid = (silence.start + silence.end) / 2;
+            const distance = Math.abs(mid - target);
+            if (mid > start && distance <= options.searchWindowSeconds && distance < bestDistance) {
+                cut = mid;
+                bestDistance = distance;
+            }
+        }
+
+        boundaries.push({ start, end: cut });
+        start = cut;
+    }
+
+    boundaries.push({ start, end: durationSeconds });
+    return boundaries;
+}
+
+/**
+ * Write [start, end) of the input to its own 16kHz mono WAV file
+ */
+export async function extractChunk(
+    inputPath: string,
+    start: number,
+    end: number,
+    outputPath: string
+): Promise<string> {
+    return new Promise((resolve, reject) => {
+        ffmpeg(inputPath)
+            .setStartTime(start)
+            .setDuration(end - start)
+            .audioFrequency(16000)
+            .audioChannels(1)
+            .toFormat('wav')
+            .on('end', () => resolve(outputPath))
+            .on('error', (err) => {
+                console.error('❌ Chunk extraction failed:', err.message);
+                reject(new Error(`Chunk extraction failed: ${err.message}`));
+            })
+            .save(outputPath);
+    });
+}
+
+/**
+ * Stitch per-chunk results back into one transcript, shifting every segment
+ * by its chunk's start time and renumbering segment ids.
+ */
+export function mergeChunkTranscripts(
+    chunks: Array<{ start: number; result: TranscriptionResult }>
+): TranscriptionResult {
+    const ordered = [...chunks].sort((a, b) => a.start - b.start);
+    const segments: TranscriptSegment[] = [];
+
+    for (const { start, result } of ordered) {
+        for (const seg of result.segments) {
+            segments.push({
+                ...seg,
+                id: segments.length,
+                start: seg.start + start,
+                end: seg.end + start,
+                words: seg.words?.map(w => ({ ...w, start: w.start + start, end: w.end + start })),
+            });
+        }
+    }
+
+    return {
+        text: ordered.map(c => c.result.text.trim()).filter(Boolean).join(' '),
+        segments,
+    };
+}
@@ -0,0 +1,67 @@
+/**
+ * Audio containers we accept end-to-end. The upload MIME type and file
+ * extension are only hints; the container is confirmed with ffprobe.
+ * Kept free of Node imports so upload and dashboard components can share it.
+ */
+
+export const AUDIO_CONTAINERS = ['wav', 'mp3', 'm4a', 'ogg', 'flac', 'webm', 'amr'] as const;
+
+export type AudioContainer = typeof AUDIO_CONTAINERS[number];
+
+// Canonical MIME type per container (stored as fileType when the browser sends none)
+export const AUDIO_CONTAINER_MIME: Record<AudioContainer, string> = {
+    wav: 'audio/wav',
+    mp3: 'audio/mpeg',
+    m4a: 'audio/mp4',
+    ogg: 'audio/ogg',
+    flac: 'audio/flac',
+    webm: 'audio/webm',
+    amr: 'audio/amr',
+};
+
+// Everything browsers and phone recorders are known to send for these containers
+export const AUDIO_MIME_TYPES = [
+    'audio/wav',
+    'audio/x-wav',
+    'audio/wave',
+    'audio/mpeg',
+    'audio/mp3', // Sometimes mp3 is uploaded as audio/mp3
+    'audio/mp4',
+    'audio/m4a',
+    'audio/x-m4a',
+    'audio/aac',
+    'video/mp4', // Recorder apps often label m4a audio as mp4
+    'audio/ogg',
+    'audio/opus',
+    'audio/flac',
+    'audio/x-flac',
+    'audio/webm',
+    'video/webm', // MediaRecorder output
+    'audio/amr',
+    'audio/3gpp',
+];
+
+export const AUDIO_EXTENSIONS = ['.wav', '.mp3', '.m4a', '.mp4', '.aac', '.ogg', '.oga', '.opus', '.flac', '.webm', '.amr', '.3gp'];
+
+// MIME types that carry no information; the upload is probed to decide
+export const GENERIC_MIME_TYPES = ['', 'application/octet-stream'];
+
+/**
+ * Map an ffprobe `format_name` (e.g. 'mov,mp4,m4a,3gp,3g2,mj2') onto our containers
+ */
+export function containerFromFormatName(formatName: string): AudioContainer | null {
+    const names = formatName.toLowerCase().split(',');
+    if (names.includes('wav')) return 'wav';
+    if (names.includes('mp3')) return 'mp3';
+    if (names.includes('mp4') || names.includes('m4a') || names.includes('mov')) return 'm4a';
+    if (names.includes('ogg')) return 'ogg';
+    if (names.includes('flac')) return 'flac';
+    if (names.includes('webm') || names.includes('matroska')) return 'webm';
+    if (names.includes('amr')) return 'amr';
+    return null;
+}
+
+export function isAudioFileName(fileName: string): boolean {
+    const dot = fileName.lastIndexOf('.');
+    return dot >= 0 && AUDIO_EXTENSIONS.includes(fileName.slice(dot).toLowerCase());
+}
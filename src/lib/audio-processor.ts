@@ -1,51 +1,165 @@
 import ffmpeg from 'fluent-ffmpeg';
 import fs from 'fs';
 import path from 'path';
+import { getFFmpegPath } from './ffmpeg-path';
+import { AudioContainer, containerFromFormatName } from './audio-formats';
+import { EnhancementProfile, EnhancementProfileName, getDefaultEnhancementProfile } from './enhancement-profiles';
+import { diarizeSegments, formatSpeakerTranscript } from './diarization';
+import {
+    ChannelMode,
+    ChannelTrack,
+    extractChannel,
+    getChannelTracks,
+    getDefaultChannelMode,
+    interleaveChannelTranscripts,
+    shouldSplitChannels,
+} from './channel-split';
+import {
+    AudioChunk,
+    ChunkingOptions,
+    DEFAULT_CHUNKING,
+    detectSilences,
+    extractChunk,
+    mergeChunkTranscripts,
+    planChunkBoundaries,
+} from './audio-chunker';
+import { buildVocabularyPrompt } from './keyword-spotting';
+import { getTranscriber, TranscriberName, TranscriptionResult, TranscriptSegment } from './transcribers';
+
+export type { TranscriptSegment, TranscriptionResult } from './transcribers';
+
+// Set the path explicitly to bypass the library's internal auto-discovery logic
+ffmpeg.setFfmpegPath(getFFmpegPath());
+
+// Recordings longer than this are rejected before transcription
+export const MAX_AUDIO_DURATION_SECONDS = Number(process.env.MAX_AUDIO_DURATION_SECONDS) || 4 * 60 * 60;
+
+// Below this, Whisper rarely produces anything useful
+const MIN_USEFUL_DURATION_SECONDS = 1;
+
+export interface AudioMetadata {
+    /** Detected container; unset when ffprobe doesn't recognise it as one we accept */
+    container?: AudioContainer;
+    formatName: string;
+    hasAudio: boolean;
+    durationSeconds: number;
+    codec?: string;
+    sampleRate?: number;
+    channels?: number;
+    bitRate?: number;
+    sizeBytes?: number;
+    /** When the recorder says the call was captured (container creation_time/date tag) */
+    recordedAt?: string;
+}
+
+export interface AudioValidation {
+    /** Problems that make the file unusable */
+    errors: string[];
+    /** Problems worth surfacing that don't stop processing */
+    warnings: string[];
+}
+
+const toNumber = (value: unknown): number | undefined => {
+    const n = Number(value);
+    return Number.isFinite(n) && n > 0 ? n : undefined;
+};
+
+function parseRecordedAt(tags: Record<string, string | number> = {}): string | undefined {
+    const raw = tags.creation_time ?? tags['com.apple.quicktime.creationdate'] ?? tags.date;
+    if (raw === undefined) return undefined;
+    const date = new Date(String(raw));
+    return isNaN(date.getTime()) ? undefined : date.toISOString();
+}
 
 /**
- * FIXED FFmpeg Path Resolution
- * We manually construct the path to avoid the 'package.json' resolve error 
- * triggered by the standard @ffmpeg-installer import.
+ * Probe a recording with ffprobe: container, first audio stream and recording
+ * timestamp. The container comes from the file contents, never the extension.
  */
-const getFFmpegPath = () => {
-    // If we are on Windows (your Acer Predator)
-    if (process.platform === 'win32') {
-        return path.join(
-            process.cwd(),
-            'node_modules',
-            '@ffmpeg-installer',
-            'win32-x64',
-            'ffmpeg.exe'
-        );
+export async function probeAudio(inputPath: string): Promise<AudioMetadata> {
+    return new Promise((resolve, reject) => {
+        ffmpeg.ffprobe(inputPath, (err, metadata) => {
+            if (err) {
+                return reject(new Error(`Failed to probe audio: ${err.message}`));
+            }
+
+            const formatName = metadata.format.format_name || '';
+            const audioStream = metadata.streams.find(s => s.codec_type === 'audio');
+
+            resolve({
+                container: containerFromFormatName(formatName) ?? undefined,
+                formatName,
+                hasAudio: !!audioStream,
+                durationSeconds: toNumber(metadata.format.duration) ?? toNumber(audioStream?.duration) ?? 0,
+                codec: audioStream?.codec_name,
+                sampleRate: toNumber(audioStream?.sample_rate),
+                channels: audioStream?.channels,
+                bitRate: toNumber(metadata.format.bit_rate),
+                sizeBytes: toNumber(metadata.format.size),
+                recordedAt: parseRecordedAt(metadata.format.tags) ?? parseRecordedAt(audioStream?.tags),
+            });
+        });
+    });
+}
+
+/**
+ * Decide whether a probed recording is worth sending to Whisper
+ */
+export function validateAudioMetadata(
+    metadata: AudioMetadata,
+    maxDurationSeconds: number = MAX_AUDIO_DURATION_SECONDS
+): AudioValidation {
+    const errors: string[] = [];
+    const warnings: string[] = [];
+
+    if (!metadata.hasAudio) {
+        errors.push('File contains no audio stream');
+    } else if (!metadata.container) {
+        errors.push(`Unsupported audio container: ${metadata.formatName || 'unknown'}`);
     }
-    // For production/Linux (Vercel, Render, etc.)
-    // These environments usually have ffmpeg pre-installed in the path
-    return 'ffmpeg';
-};
 
-// Set the path explicitly to bypass the library's internal auto-discovery logic
-ffmpeg.setFfmpegPath(getFFmpegPath());
+    if (metadata.durationSeconds <= 0) {
+        errors.push('Recording is empty (zero duration)');
+    } else if (metadata.durationSeconds > maxDurationSeconds) {
+        errors.push(`Recording is ${Math.round(metadata.durationSeconds / 60)} minutes long; the limit is ${Math.round(maxDurationSeconds / 60)} minutes`);
+    } else if (metadata.durationSeconds < MIN_USEFUL_DURATION_SECONDS) {
+        warnings.push(`Recording is only ${metadata.durationSeconds.toFixed(2)}s long`);
+    }
+
+    if (metadata.sampleRate && metadata.sampleRate < 8000) {
+        warnings.push(`Low sample rate (${metadata.sampleRate}Hz); transcription quality may suffer`);
+    }
+
+    return { errors, warnings };
+}
 
 /**
- * Convert M4A/MP3 audio to WAV format optimized for speech recognition
+ * Convert any supported recording (WAV, MP3, M4A, OGG/Opus, FLAC, WebM, AMR)
+ * to 16kHz mono PCM WAV, optimized for speech recognition
  */
 export async function convertToWAV(inputPath: string): Promise<string> {
-    const ext = path.extname(inputPath).toLowerCase();
+    const info = await probeAudio(inputPath);
+
+    if (!info.hasAudio) {
+        throw new Error('File contains no audio stream');
+    }
 
-    if (ext === '.wav') {
-        console.log('✅ Audio already in WAV format');
+    if (info.container === 'wav' && info.codec === 'pcm_s16le' && info.sampleRate === 16000 && info.channels === 1) {
+        console.log('✅ Audio already in 16kHz mono WAV format');
         return inputPath;
     }
 
-    const outputPath = inputPath.replace(/\.(m4a|mp3|mp4)$/i, '.wav');
-    console.log(`🔄 Converting ${ext} to WAV format...`);
+    // Always a new file: the upload's extension says nothing about its container,
+    // and ffmpeg must never write over the file it is reading
+    const parsed = path.parse(inputPath);
+    const outputPath = path.join(parsed.dir, `${parsed.name}_16k.wav`);
+    console.log(`🔄 Converting ${info.container || info.formatName} (${info.codec}) to WAV format...`);
 
     return new Promise((resolve, reject) => {
         ffmpeg(inputPath)
             .toFormat('wav')
+            .audioCodec('pcm_s16le')
             .audioFrequency(16000)  // 16kHz - optimal for speech recognition
             .audioChannels(1)       // Mono
-            .audioBitrate('256k')
             .on('end', () => {
                 console.log('✅ Conversion complete:', outputPath);
                 resolve(outputPath);
@@ -63,148 +177,339 @@ export async function convertToWAV(inputPath: string): Promise<string> {
     });
 }
 
+export interface EnhancementResult {
+    path: string;
+    profile: EnhancementProfileName;
+    profileVersion: number;
+    /** false when FFmpeg failed and `path` is the unprocessed input */
+    applied: boolean;
+}
+
 /**
- * Apply noise reduction filters to audio using FFmpeg
+ * Apply an enhancement profile (denoise + EBU R128 loudness) using FFmpeg
  */
-export async function reduceNoise(inputPath: string): Promise<string> {
-    const outputPath = inputPath.replace('.wav', '_clean.wav');
-    console.log('🔇 Applying noise reduction filters...');
+export async function enhanceAudio(
+    inputPath: string,
+    profile: EnhancementProfile = getDefaultEnhancementProfile()
+): Promise<EnhancementResult> {
+    if (profile.filters.length === 0) {
+        console.log(`⏭️ Enhancement profile "${profile.name}" has no filters, using original audio`);
+        return { path: inputPath, profile: profile.name, profileVersion: profile.version, applied: true };
+    }
 
-    return new Promise((resolve, reject) => {
+    // Profile-specific name so re-enhancing never overwrites a file the player may have cached
+    const parsed = path.parse(inputPath);
+    const outputPath = path.join(parsed.dir, `${parsed.name}_${profile.name}_clean.wav`);
+    console.log(`🔇 Applying enhancement profile "${profile.name}" v${profile.version}...`);
+
+    return new Promise((resolve) => {
         ffmpeg(inputPath)
-            .audioFilters([
-                'highpass=f=200',      // Remove low-frequency rumble
-                'lowpass=f=3000',     // Remove high-frequency hiss
-                'afftdn=nf=-25',       // FFT-based denoising
-            ])
+            .audioFilters(profile.filters)
+            .audioFrequency(16000)  // loudnorm upsamples internally; keep Whisper's rate
             .on('end', () => {
-                console.log('✅ Noise reduction complete:', outputPath);
-                resolve(outputPath);
+                console.log('✅ Enhancement complete:', outputPath);
+                resolve({ path: outputPath, profile: profile.name, profileVersion: profile.version, applied: true });
             })
             .on('error', (err) => {
-                console.error('❌ Noise reduction failed:', err.message);
+                console.error('❌ Enhancement failed:', err.message);
                 console.log('⚠️ Falling back to original audio');
-                resolve(inputPath);
+                resolve({ path: inputPath, profile: profile.name, profileVersion: profile.version, applied: false });
             })
             .save(outputPath);
     });
 }
 
 /**
- * Transcribe audio using local Whisper CLI
- * Requires 'whisper' to be in system PATH
+ * Transcribe audio with the configured speech-to-text engine
+ * (see src/lib/transcribers for the available adapters)
  */
-// ... inside src/lib/audio-processor.ts
-
 export async function transcribeAudio(
     audioPath: string,
-    languageCode: string = 'hi'
-): Promise<string> {
-    // 1. Setup Paths
-    const absolutePath = path.resolve(audioPath);
-    const outputDir = path.dirname(absolutePath);
-    const fileName = path.basename(absolutePath);
-    const fileNameNoExt = path.parse(absolutePath).name;
-
-    console.log(`🎙️ Transcribing: ${fileName}`);
-
-    // 2. PRE-CLEANUP: Delete potential old output files to prevent "Skipping"
-    const potentialFiles = [
-        path.join(outputDir, `${fileNameNoExt}.json`),
-        path.join(outputDir, `${fileName}.json`),
-        path.join(outputDir, `${fileNameNoExt}.wav.json`)
-    ];
-
-    potentialFiles.forEach(f => {
-        if (fs.existsSync(f)) {
-            try { fs.unlinkSync(f); } catch (e) { /* ignore */ }
-        }
-    });
+    languageCode?: string,
+    transcriberName?: TranscriberName,
+    task: 'transcribe' | 'translate' = 'translate',
+    vocabulary: string[] = []
+): Promise<TranscriptionResult> {
+    const transcriber = getTranscriber(transcriberName);
+    const prompt = buildVocabularyPrompt(vocabulary);
+    console.log(`🎧 Speech-to-text engine: ${transcriber.name} (${task}, language: ${languageCode || 'auto'}${prompt ? `, ${vocabulary.length} vocabulary terms` : ''})`);
+    return transcriber.transcribe(audioPath, { languageCode, task, prompt });
+}
 
-    return new Promise((resolve, reject) => {
-        // 3. Command: Added --language to force translation if needed
-        const command = `whisper "${absolutePath}" --model medium --language ${languageCode === 'hi-IN' ? 'hi' : 'en'} --task translate --output_format json --output_dir "${outputDir}" --verbose False`;
-
-        console.log(`🚀 Executing: ${command}`);
-
-        // 0. Inject FFmpeg Path
-        const ffmpegPath = getFFmpegPath();
-        const ffmpegDir = path.dirname(ffmpegPath);
-
-        // Append FFmpeg directory to existing PATH
-        const env = {
-            ...process.env,
-            PATH: `${ffmpegDir}${path.delimiter}${process.env.PATH}`
-        };
-
-        import('child_process').then(({ exec }) => {
-            exec(command, {
-                maxBuffer: 1024 * 1024 * 10,
-                env: env // Pass the modified environment
-            }, (error, stdout, stderr) => {
-                if (error) {
-                    console.error('❌ Whisper CLI Error:', error.message);
-                    // Don't reject yet, sometimes it writes the file anyway
-                }
+export interface BilingualTranscription {
+    /** Spoken language, e.g. 'ta-IN' */
+    language: string;
+    /** Transcript in the spoken language and script */
+    native: TranscriptionResult;
+    /** English translation (the same object as `native` for English calls) */
+    english: TranscriptionResult;
+}
 
-                // 4. Find the new file
-                let foundFile = null;
-                for (const p of potentialFiles) {
-                    if (fs.existsSync(p)) {
-                        foundFile = p;
-                        break;
-                    }
-                }
+/**
+ * Transcribe in the spoken language, then translate to English.
+ * When no language is given it is detected by the first pass.
+ */
+export async function transcribeWithTranslation(
+    audioPath: string,
+    languageCode?: string,
+    transcriberName?: TranscriberName,
+    vocabulary: string[] = []
+): Promise<BilingualTranscription> {
+    const native = await transcribeAudio(audioPath, languageCode, transcriberName, 'transcribe', vocabulary);
+    const language = languageCode || native.language || 'en-IN';
 
-                try {
-                    if (foundFile) {
-                        const jsonContent = fs.readFileSync(foundFile, 'utf-8');
-                        fs.unlinkSync(foundFile); // Cleanup
-                        const result = JSON.parse(jsonContent);
-                        resolve(result.text.trim());
-                    } else {
-                        // Fallback: Check stdout, but filter out "Skipping" messages
-                        const cleanStdout = stdout.trim();
-                        if (cleanStdout && !cleanStdout.startsWith("Skipping")) {
-                            resolve(cleanStdout);
-                        } else {
-                            throw new Error("Whisper skipped processing or failed to generate output.");
-                        }
-                    }
-                } catch (err: any) {
-                    reject(err);
-                }
-            });
+    if (language.startsWith('en')) {
+        return { language, native, english: native };
+    }
+
+    console.log(`🌐 Detected ${language}, translating to English...`);
+    const english = await transcribeAudio(audioPath, language, transcriberName, 'translate', vocabulary);
+    return { language, native, english };
+}
+
+/**
+ * Length of a recording in seconds, read with ffprobe
+ */
+export async function getAudioDuration(inputPath: string): Promise<number> {
+    return new Promise((resolve, reject) => {
+        ffmpeg.ffprobe(inputPath, (err, metadata) => {
+            if (err) {
+                return reject(new Error(`Failed to probe audio: ${err.message}`));
+            }
+            resolve(Number(metadata.format.duration) || 0);
         });
     });
 }
 
+export interface PreparedChannel extends ChannelTrack {
+    /** Enhanced mono WAV holding only this channel */
+    path: string;
+}
+
+export interface PreparedAudio {
+    wavPath: string;
+    cleanPath: string;
+    durationSeconds: number;
+    enhancement: EnhancementResult;
+    /** Set when a stereo recording is transcribed one channel at a time */
+    channels?: PreparedChannel[];
+    tempFiles: string[];
+}
+
+/**
+ * Convert to 16kHz mono WAV and apply the enhancement profile.
+ * With `splitChannels`, each stereo channel is also extracted and enhanced on its own;
+ * the mono mix is still produced for playback, metrics and the waveform.
+ */
+export async function prepareAudio(
+    filePath: string,
+    profile: EnhancementProfile = getDefaultEnhancementProfile(),
+    splitChannels: boolean = false
+): Promise<PreparedAudio> {
+    const tempFiles: string[] = [];
+
+    try {
+        const wavPath = await convertToWAV(filePath);
+        if (wavPath !== filePath) tempFiles.push(wavPath);
+
+        const enhancement = await enhanceAudio(wavPath, profile);
+        const cleanPath = enhancement.path;
+        if (cleanPath !== wavPath) tempFiles.push(cleanPath);
+
+        const durationSeconds = await getAudioDuration(cleanPath);
+
+        let channels: PreparedChannel[] | undefined;
+        if (splitChannels) {
+            channels = [];
+            const parsed = path.parse(filePath);
+            for (const track of getChannelTracks()) {
+                const channelPath = await extractChannel(
+                    filePath,
+                    track.channel,
+                    path.join(parsed.dir, `${parsed.name}_${track.channel}.wav`)
+                );
+                tempFiles.push(channelPath);
+
+                const channelClean = (await enhanceAudio(channelPath, profile)).path;
+                if (channelClean !== channelPath) tempFiles.push(channelClean);
+
+                channels.push({ ...track, path: channelClean });
+            }
+        }
+
+        return { wavPath, cleanPath, durationSeconds, enhancement, channels, tempFiles };
+    } catch (error: any) {
+        cleanupTempFiles(tempFiles);
+        throw error;
+    }
+}
+
+/**
+ * Split long recordings at silences. Short recordings come back as a
+ * single chunk pointing at the clean file itself.
+ */
+export async function planTranscriptionChunks(
+    cleanPath: string,
+    durationSeconds: number,
+    options: ChunkingOptions = DEFAULT_CHUNKING
+): Promise<AudioChunk[]> {
+    if (durationSeconds <= options.maxSinglePassSeconds) {
+        return [{ index: 0, start: 0, end: durationSeconds, path: cleanPath }];
+    }
+
+    console.log(`✂️ Recording is ${Math.round(durationSeconds)}s, splitting at silences...`);
+    const silences = await detectSilences(cleanPath);
+    const boundaries = planChunkBoundaries(durationSeconds, silences, options);
+
+    const chunks: AudioChunk[] = [];
+    try {
+        for (const [index, { start, end }] of boundaries.entries()) {
+            const chunkPath = cleanPath.replace(/\.wav$/i, `_chunk${index}.wav`);
+            await extractChunk(cleanPath, start, end, chunkPath);
+            chunks.push({ index, start, end, path: chunkPath });
+        }
+    } catch (error) {
+        cleanupTempFiles(chunks.map(c => c.path));
+        throw error;
+    }
+
+    console.log(`✅ Split into ${chunks.length} chunks`);
+    return chunks;
+}
+
+/**
+ * Merge chunk transcripts and label speakers on the full recording
+ */
+export async function finalizeTranscript(
+    cleanPath: string,
+    chunkResults: Array<{ start: number; result: BilingualTranscription }>
+): Promise<{
+    transcript: string;
+    segments: TranscriptSegment[];
+    speakerTranscript: string;
+    nativeTranscript: string;
+    nativeSegments: TranscriptSegment[];
+    language: string;
+}> {
+    const { text: transcript, segments: rawSegments } = mergeChunkTranscripts(
+        chunkResults.map(c => ({ start: c.start, result: c.result.english }))
+    );
+    const { text: nativeTranscript, segments: nativeSegments } = mergeChunkTranscripts(
+        chunkResults.map(c => ({ start: c.start, result: c.result.native }))
+    );
+    const language = chunkResults[0]?.result.language || 'en-IN';
+
+    // Diarization is best-effort: an unlabelled transcript is still useful
+    let segments = rawSegments;
+    try {
+        segments = await diarizeSegments(cleanPath, rawSegments);
+    } catch (error: any) {
+        console.error('⚠️ Diarization failed, continuing without speaker labels:', error.message);
+    }
+
+    const speakerTranscript = segments.some(s => s.speaker)
+        ? formatSpeakerTranscript(segments)
+        : transcript;
+
+    return { transcript, segments, speakerTranscript, nativeTranscript, nativeSegments, language };
+}
+
+/**
+ * Interleave per-channel transcripts; speakers come from the channel, so no diarization
+ */
+export function finalizeChannelTranscript(
+    tracks: Array<{ speaker: string; chunks: Array<{ start: number; result: BilingualTranscription }> }>
+): {
+    transcript: string;
+    segments: TranscriptSegment[];
+    speakerTranscript: string;
+    nativeTranscript: string;
+    nativeSegments: TranscriptSegment[];
+    language: string;
+} {
+    const { text: transcript, segments } = interleaveChannelTranscripts(
+        tracks.map(t => ({ speaker: t.speaker, chunks: t.chunks.map(c => ({ start: c.start, result: c.result.english })) }))
+    );
+    const { text: nativeTranscript, segments: nativeSegments } = interleaveChannelTranscripts(
+        tracks.map(t => ({ speaker: t.speaker, chunks: t.chunks.map(c => ({ start: c.start, result: c.result.native })) }))
+    );
+
+    // Either side may speak a regional language; report that one over English
+    const detected = tracks.map(t => t.chunks[0]?.result.language).filter(Boolean);
+    const language = detected.find(l => !l.startsWith('en')) || detected[0] || 'en-IN';
+
+    return {
+        transcript,
+        segments,
+        speakerTranscript: formatSpeakerTranscript(segments),
+        nativeTranscript,
+        nativeSegments,
+        language,
+    };
+}
+
 /**
  * Complete audio processing pipeline
+ * (the Inngest function runs the same stages as separate, resumable steps)
  */
 export async function processAudioComplete(
     filePath: string,
-    languageCode: string = 'hi-IN'
+    languageCode?: string,
+    transcriberName?: TranscriberName,
+    channelMode: ChannelMode = getDefaultChannelMode()
 ): Promise<{
     transcript: string;
+    segments: TranscriptSegment[];
+    speakerTranscript: string;
+    nativeTranscript: string;
+    nativeSegments: TranscriptSegment[];
+    language: string;
     wavPath: string;
     cleanPath: string;
+    enhancement: EnhancementResult;
     tempFiles: string[];
 }> {
     console.log('🚀 Starting complete audio processing pipeline...');
     const tempFiles: string[] = [];
 
     try {
-        const wavPath = await convertToWAV(filePath);
-        if (wavPath !== filePath) tempFiles.push(wavPath);
+        const { channels } = await probeAudio(filePath);
+        const split = await shouldSplitChannels(channelMode, filePath, channels);
+        const prepared = await prepareAudio(filePath, getDefaultEnhancementProfile(), split);
+        tempFiles.push(...prepared.tempFiles);
+        const { wavPath, cleanPath } = prepared;
 
-        const cleanPath = await reduceNoise(wavPath);
-        if (cleanPath !== wavPath) tempFiles.push(cleanPath);
+        // One track for the mono mix, or one per speaker when channels are split
+        const tracks = prepared.channels || [{ speaker: undefined, path: cleanPath }];
+        const trackResults: Array<{ speaker?: string; chunks: Array<{ start: number; result: BilingualTranscription }> }> = [];
+
+        for (const track of tracks) {
+            const chunks = await planTranscriptionChunks(track.path, prepared.durationSeconds);
+            const chunkPaths = chunks.map(c => c.path).filter(p => p !== track.path);
+
+            const chunkResults: Array<{ start: number; result: BilingualTranscription }> = [];
+            try {
+                for (const chunk of chunks) {
+                    // Later chunks reuse the language detected on the first one
+                    const result = await transcribeWithTranslation(
+                        chunk.path,
+                        languageCode || chunkResults[0]?.result.language,
+                        transcriberName
+                    );
+                    chunkResults.push({ start: chunk.start, result });
+                }
+            } finally {
+                cleanupTempFiles(chunkPaths);
+            }
+            trackResults.push({ speaker: track.speaker, chunks: chunkResults });
+        }
 
-        const transcript = await transcribeAudio(cleanPath, languageCode);
+        const finalized = prepared.channels
+            ? finalizeChannelTranscript(trackResults.map(t => ({ speaker: t.speaker!, chunks: t.chunks })))
+            : await finalizeTranscript(cleanPath, trackResults[0].chunks);
         console.log('✅ Audio processing pipeline complete!');
 
-        return { transcript, wavPath, cleanPath, tempFiles };
+        return { ...finalized, wavPath, cleanPath, enhancement: prepared.enhancement, tempFiles };
 
     } catch (error: any) {
         // Cleanup on failure
@@ -228,16 +533,4 @@ export function cleanupTempFiles(files: string[]): void {
     }
 }
 
-export const SUPPORTED_LANGUAGES = {
-    'Hindi': 'hi-IN',
-    'Tamil': 'ta-IN',
-    'Telugu': 'te-IN',
-    'Bengali': 'bn-IN',
-    'Marathi': 'mr-IN',
-    'Gujarati': 'gu-IN',
-    'Kannada': 'kn-IN',
-    'Malayalam': 'ml-IN',
-    'Punjabi': 'pa-Guru-IN',
-    'Urdu': 'ur-IN',
-    'English (India)': 'en-IN',
-} as const;
\ No newline at end of file
+export { SUPPORTED_LANGUAGES } from './languages';
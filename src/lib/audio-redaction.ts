@@ -0,0 +1,209 @@
+import ffmpeg from 'fluent-ffmpeg';
+import fs from 'fs';
+import path from 'path';
+import type { TranscriptSegment } from './transcribers/types';
+import { isRedactionType, REDACTION_TYPES } from './redaction';
+import type { RedactionType, RedactionVault } from './redaction';
+
+/**
+ * Audio counterpart of transcript redaction: the time spans where vault values
+ * (card, account, Aadhaar and PAN numbers by default) are spoken are beeped or
+ * muted in a separate rendition that can be shared with external auditors.
+ * The unredacted recordings move out of public/ into private storage.
+ */
+
+export type AudioRedactionMode = 'beep' | 'mute';
+
+export interface PiiAudioSpan {
+    start: number;
+    end: number;
+    type: RedactionType;
+}
+
+// Unredacted audio lives here, outside the statically served public/ folder
+export const PRIVATE_AUDIO_DIR = process.env.PRIVATE_AUDIO_DIR || path.join(process.cwd(), 'storage', 'audio');
+
+// Silence/beep a little either side of the words so edges aren't audible
+const SPAN_PADDING_SECONDS = 0.15;
+
+export function getAudioRedactionMode(): AudioRedactionMode {
+    return process.env.PII_AUDIO_REDACTION === 'mute' ? 'mute' : 'beep';
+}
+
+/**
+ * Which vault types are removed from audio (PII_AUDIO_TYPES, default DETAIL).
+ * Unknown names are skipped with a warning; if none are left, DETAIL is used
+ * so a typo never leaves account numbers audible.
+ */
+export function getAudibleRedactionTypes(): RedactionType[] {
+    const configured = (process.env.PII_AUDIO_TYPES || 'DETAIL')
+        .split(',')
+        .map(t => t.trim().toUpperCase())
+        .filter(Boolean);
+
+    const unknown = configured.filter(t => !isRedactionType(t));
+    if (unknown.length > 0) {
+        console.warn(`⚠️ Ignoring unknown PII_AUDIO_TYPES ${unknown.join(', ')} (allowed: ${REDACTION_TYPES.join(', ')})`);
+    }
+
+    const types = configured.filter(isRedactionType);
+    return types.length > 0 ? types : ['DETAIL'];
+}
+
+function findAll(haystack: string, needle: string): number[] {
+    const positions: number[] = [];
+    if (!needle) return positions;
+    for (let i = haystack.indexOf(needle); i !== -1; i = haystack.indexOf(needle, i + needle.length)) {
+        positions.push(i);
+    }
+    return positions;
+}
+
+/**
+ * Times at which `value` is spoken inside a segment. Uses word timestamps when
+ * the engine provided them, otherwise the match's position within the text.
+ */
+function locateInSegment(seg: TranscriptSegment, value: string): Array<{ start: number; end: number }> {
+    const needle = value.toLowerCase();
+
+    if (seg.words && seg.words.length > 0) {
+        let text = '';
+        const offsets = seg.words.map(w => {
+            const from = text.length;
+            text += w.word;
+            return { from, to: text.length, start: w.start, end: w.end };
+        });
+
+        return findAll(text.toLowerCase(), needle).map(at => {
+            const covered = offsets.filter(o => o.to > at && o.from < at + needle.length);
+            return {
+                start: Math.min(...covered.map(o => o.start)),
+                end: Math.max(...covered.map(o => o.end)),
+            };
+        });
+    }
+
+    const text = seg.text.toLowerCase();
+    const duration = Math.max(0, seg.end - seg.start);
+    return findAll(text, needle).map(at => ({
+        start: seg.start + (duration * at) / Math.max(1, text.length),
+        end: seg.start + (duration * (at + needle.length)) / Math.max(1, text.length),
+    }));
+}
+
+/**
+ * Spans of the recording to beep, merged where they touch
+ */
+export function findPiiAudioSpans(
+    segments: TranscriptSegment[],
+    vault: RedactionVault,
+    types: RedactionType[] = getAudibleRedactionTypes()
+): PiiAudioSpan[] {
+    const targets = Object.entries(vault)
+        .map(([token, value]) => ({ type: token.slice(1, token.lastIndexOf('_')) as RedactionType, value }))
+        .filter(t => types.includes(t.type));
+
+    const spans: PiiAudioSpan[] = [];
+    for (const seg of segments) {
+        for (const { type, value } of targets) {
+            for (const { start, end } of locateInSegment(seg, value)) {
+                spans.push({
+                    start: Math.max(0, start - SPAN_PADDING_SECONDS),
+                    end: end + SPAN_PADDING_SECONDS,
+                    type,
+                });
+            }
+        }
+    }
+
+    const merged: PiiAudioSpan[] = [];
+    for (const span of spans.sort((a, b) => a.start - b.start)) {
+        const last = merged[merged.length - 1];
+        if (last && span.start <= last.end) {
+            last.end = Math.max(last.end, span.end);
+        } else {
+            merged.push({ ...span });
+        }
+    }
+
+    return merged.map(s => ({ ...s, start: Number(s.start.toFixed(2)), end: Number(s.end.toFixed(2)) }));
+}
+
+/**
+ * Write a copy of `inputPath` with every span beeped (1kHz tone) or muted
+ */
+export async function renderRedactedAudio(
+    inputPath: string,
+    spans: PiiAudioSpan[],
+    outputPath: string,
+    mode: AudioRedactionMode = getAudioRedactionMode()
+): Promise<string> {
+    if (spans.length === 0) {
+        fs.copyFileSync(inputPath, outputPath);
+        return outputPath;
+    }
+
+    console.log(`🔇 Redacting ${spans.length} span(s) from audio (${mode})...`);
+    const enable = spans.map(s => `between(t,${s.start},${s.end})`).join('+');
+
+    return new Promise((resolve, reject) => {
+        const command = ffmpeg(inputPath);
+
+        if (mode === 'mute') {
+            command.audioFilters(`volume=enable='${enable}':volume=0`);
+        } else {
+            // amix halves both inputs, so the result is scaled back up
+            command
+                .input('sine=frequency=1000:sample_rate=16000')
+                .inputFormat('lavfi')
+                .complexFilter([
+                    `[0:a]volume=enable='${enable}':volume=0[speech]`,
+                    `[1:a]volume=0.25,volume=enable='not(${enable})':volume=0[tone]`,
+                    `[speech][tone]amix=inputs=2:duration=first,volume=2[out]`,
+                ], 'out');
+        }
+
+        command
+            .audioCodec('pcm_s16le')
+            .toFormat('wav')
+            .on('end', () => {
+                console.log('✅ Redacted audio written:', path.basename(outputPath));
+                resolve(outputPath);
+            })
+            .on('error', (err) => {
+                console.error('❌ Audio redaction failed:', err.message);
+                reject(new Error(`Audio redaction failed: ${err.message}`));
+            })
+            .save(outputPath);
+    });
+}
+
+/**
+ * Move a file into private storage and return the name it is stored under
+ */
+export function moveToPrivateStorage(filePath: string): string {
+    fs.mkdirSync(PRIVATE_AUDIO_DIR, { recursive: true });
+    const fileName = path.basename(filePath);
+    const target = path.join(PRIVATE_AUDIO_DIR, fileName);
+
+    // Already moved by an earlier attempt of the same step
+    if (!fs.existsSync(filePath) && fs.existsSync(target)) {
+        return fileName;
+    }
+
+    try {
+        fs.renameSync(filePath, target);
+    } catch {
+        // Different filesystem: copy, then remove the public copy
+        fs.copyFileSync(filePath, target);
+        fs.unlinkSync(filePath);
+    }
+    return fileName;
+}
+
+/**
+ * Absolute path of a privately stored file (the name is reduced to its basename)
+ */
+export function privateAudioPath(fileName: string): string {
+    return path.join(PRIVATE_AUDIO_DIR, path.basename(fileName));
+}
@@ -0,0 +1,150 @@
+import { detectSilences, SilenceInterval } from './audio-chunker';
+import type { TranscriptSegment } from './transcribers/types';
+
+/**
+ * Call-quality numbers QA grades agents on: how much of the call is silence,
+ * the longest dead-air gap, where both parties talk at once, and how the talk
+ * time is split between speakers. Talk-over is only measured on channel-split
+ * calls: diarization gives each moment of a mixed recording to one speaker, so
+ * overlaps there are segment-boundary noise, not people talking at once.
+ */
+
+// Silences at least this long count as dead air
+export const DEAD_AIR_SECONDS = Number(process.env.DEAD_AIR_SECONDS) || 5;
+
+export interface TimeRange {
+    start: number;
+    end: number;
+}
+
+export interface TalkOverPeriod extends TimeRange {
+    speakers: string[];
+}
+
+export interface SpeakerTalkTime {
+    speaker: string;
+    seconds: number;
+    /** Fraction of total speech time (0..1) */
+    share: number;
+}
+
+export interface CallMetrics {
+    durationSeconds: number;
+    speechSeconds: number;
+    silenceSeconds: number;
+    /** Fraction of the call that is silence (0..1) */
+    silenceRatio: number;
+    longestDeadAir?: TimeRange & { duration: number };
+    deadAirCount: number;
+    talkOver: TalkOverPeriod[];
+    /** Undefined when talk-over wasn't measured (mixed recordings) */
+    talkOverSeconds?: number;
+    speakerTalkTime: SpeakerTalkTime[];
+}
+
+const round = (value: number, places: number = 2) => Number(value.toFixed(places));
+
+function overlap(a: TimeRange, b: TimeRange): number {
+    return Math.max(0, Math.min(a.end, b.end) - Math.max(a.start, b.start));
+}
+
+/**
+ * Periods where segments from different speakers overlap in time
+ */
+export function findTalkOver(segments: TranscriptSegment[]): TalkOverPeriod[] {
+    const labelled = segments
+        .filter(s => s.speaker && s.end > s.start)
+        .sort((a, b) => a.start - b.start);
+    const periods: TalkOverPeriod[] = [];
+
+    for (let i = 0; i < labelled.length; i++) {
+        for (let j = i + 1; j < labelled.length && labelled[j].start < labelled[i].end; j++) {
+            if (labelled[i].speaker === labelled[j].speaker) continue;
+
+            const start = Math.max(labelled[i].start, labelled[j].start);
+            const end = Math.min(labelled[i].end, labelled[j].end);
+            const speakers = [labelled[i].speaker!, labelled[j].speaker!].sort();
+
+            // Merge with the previous period when they touch
+            const last = periods[periods.length - 1];
+            if (last && start <= last.end) {
+                last.end = Math.max(last.end, end);
+                last.speakers = Array.from(new Set([...last.speakers, ...speakers])).sort();
+            } else {
+                periods.push({ start, end, speakers });
+            }
+        }
+    }
+
+    return periods.map(p => ({ ...p, start: round(p.start), end: round(p.end) }));
+}
+
+/**
+ * Derive call metrics from detected silences and diarized segments
+ */
+export function computeCallMetrics(
+    durationSeconds: number,
+    silences: SilenceInterval[],
+    segments: TranscriptSegment[],
+    channelSplit: boolean
+): CallMetrics {
+    const clipped = silences
+        .map(s => ({ start: Math.max(0, s.start), end: Math.min(durationSeconds, s.end) }))
+        .filter(s => s.end > s.start);
+
+    const silenceSeconds = clipped.reduce((sum, s) => sum + (s.end - s.start), 0);
+    const speechSeconds = Math.max(0, durationSeconds - silenceSeconds);
+
+    const longest = clipped.reduce<TimeRange | null>(
+        (best, s) => (!best || s.end - s.start > best.end - best.start ? s : best),
+        null
+    );
+
+    // Talk time per speaker: segment time minus any silence inside the segment
+    const talkTime = new Map<string, number>();
+    for (const seg of segments) {
+        if (!seg.speaker || seg.end <= seg.start) continue;
+        const silentPart = clipped.reduce((sum, s) => sum + overlap(seg, s), 0);
+        const spoken = Math.max(0, seg.end - seg.start - silentPart);
+        talkTime.set(seg.speaker, (talkTime.get(seg.speaker) || 0) + spoken);
+    }
+    const totalTalk = Array.from(talkTime.values()).reduce((a, b) => a + b, 0);
+
+    const talkOver = channelSplit ? findTalkOver(segments) : [];
+
+    return {
+        durationSeconds: round(durationSeconds),
+        speechSeconds: round(speechSeconds),
+        silenceSeconds: round(silenceSeconds),
+        silenceRatio: durationSeconds > 0 ? round(silenceSeconds / durationSeconds, 3) : 0,
+        longestDeadAir: longest
+            ? { start: round(longest.start), end: round(longest.end), duration: round(longest.end - longest.start) }
+            : undefined,
+        deadAirCount: clipped.filter(s => s.end - s.start >= DEAD_AIR_SECONDS).length,
+        talkOver,
+        talkOverSeconds: channelSplit ? round(talkOver.reduce((sum, p) => sum + (p.end - p.start), 0)) : undefined,
+        speakerTalkTime: Array.from(talkTime.entries())
+            .map(([speaker, seconds]) => ({
+                speaker,
+                seconds: round(seconds),
+                share: totalTalk > 0 ? round(seconds / totalTalk, 3) : 0,
+            }))
+            .sort((a, b) => b.seconds - a.seconds),
+    };
+}
+
+/**
+ * Run voice activity detection (ffmpeg silencedetect) and compute the metrics
+ */
+export async function measureCall(
+    audioPath: string,
+    durationSeconds: number,
+    segments: TranscriptSegment[],
+    channelSplit: boolean
+): Promise<CallMetrics> {
+    console.log('📊 Measuring silence, dead air and talk time...');
+    const silences = await detectSilences(audioPath);
+    const metrics = computeCallMetrics(durationSeconds, silences, segments, channelSplit);
+    console.log(`✅ Call metrics: ${Math.round(metrics.silenceRatio * 100)}% silence, ${channelSplit ? `${metrics.talkOver.length} talk-over period(s)` : 'talk-over not measured (mixed audio)'}`);
+    return metrics;
+}
@@ -0,0 +1,134 @@
+import ffmpeg from 'fluent-ffmpeg';
+import { mergeChunkTranscripts } from './audio-chunker';
+import type { TranscriptionResult, TranscriptSegment } from './transcribers/types';
+
+/**
+ * Dual-channel (stereo) recordings from dialers usually carry the agent on one
+ * channel and the customer on the other. Transcribing each channel on its own
+ * gives exact speaker labels without any voice-print clustering.
+ */
+
+export const CHANNEL_MODES = ['auto', 'mixed', 'split'] as const;
+
+export type ChannelMode = typeof CHANNEL_MODES[number];
+
+export type StereoChannel = 'left' | 'right';
+
+export interface ChannelTrack {
+    channel: StereoChannel;
+    speaker: string;
+}
+
+export function isChannelMode(value: unknown): value is ChannelMode {
+    return typeof value === 'string' && (CHANNEL_MODES as readonly string[]).includes(value);
+}
+
+// Channels whose difference is this far below their sum carry the same audio
+const DUPLICATE_CHANNEL_DB = 20;
+
+/**
+ * Mode from CHANNEL_MODE. Defaults to 'mixed': most stereo files are ordinary
+ * recordings, and splitting one of them puts both speakers on each track.
+ */
+export function getDefaultChannelMode(): ChannelMode {
+    const configured = process.env.CHANNEL_MODE;
+    return isChannelMode(configured) ? configured : 'mixed';
+}
+
+/**
+ * RMS levels (dB) of the left-minus-right and left-plus-right signals
+ */
+async function measureChannelDifference(inputPath: string): Promise<{ differenceDb: number; sumDb: number }> {
+    return new Promise((resolve, reject) => {
+        const levels: number[] = [];
+
+        ffmpeg(inputPath)
+            .audioFilters(['pan=stereo|c0=c0-c1|c1=c0+c1', 'astats=measure_overall=none'])
+            .format('null')
+            .on('stderr', (line: string) => {
+                const match = line.match(/RMS level dB:\s*(-?inf|-?[\d.]+)/);
+                if (match) levels.push(match[1].endsWith('inf') ? -Infinity : parseFloat(match[1]));
+            })
+            .on('end', () => {
+                if (levels.length < 2) return reject(new Error('Channel levels not found in ffmpeg output'));
+                resolve({ differenceDb: levels[0], sumDb: levels[1] });
+            })
+            .on('error', (err) => {
+                console.error('❌ Channel comparison failed:', err.message);
+                reject(new Error(`Channel comparison failed: ${err.message}`));
+            })
+            .save('-');
+    });
+}
+
+/**
+ * 'split' splits every two-channel input; 'auto' only splits when the
+ * channels actually differ (a dual-channel dialer export rather than the
+ * same mix on both sides).
+ */
+export async function shouldSplitChannels(mode: ChannelMode, inputPath: string, channels?: number): Promise<boolean> {
+    if (mode === 'mixed' || channels !== 2) return false;
+    if (mode === 'split') return true;
+
+    const { differenceDb, sumDb } = await measureChannelDifference(inputPath);
+    const distinct = differenceDb > sumDb - DUPLICATE_CHANNEL_DB;
+    console.log(`🎚️ Channel difference ${differenceDb.toFixed(1)} dB vs mix ${sumDb.toFixed(1)} dB: ${distinct ? 'splitting' : 'same audio, mixing down'}`);
+    return distinct;
+}
+
+/**
+ * Which speaker sits on which channel (agent on the left unless STEREO_AGENT_CHANNEL=right)
+ */
+export function getChannelTracks(): ChannelTrack[] {
+    const agentChannel: StereoChannel = process.env.STEREO_AGENT_CHANNEL === 'right' ? 'right' : 'left';
+    return [
+        { channel: agentChannel, speaker: 'Agent' },
+        { channel: agentChannel === 'left' ? 'right' : 'left', speaker: 'Customer' },
+    ];
+}
+
+/**
+ * Write one channel of a stereo recording to its own 16kHz mono WAV file
+ */
+export async function extractChannel(
+    inputPath: string,
+    channel: StereoChannel,
+    outputPath: string
+): Promise<string> {
+    console.log(`🎚️ Extracting ${channel} channel...`);
+
+    return new Promise((resolve, reject) => {
+        ffmpeg(inputPath)
+            .audioFilters(`pan=mono|c0=${channel === 'left' ? 'c0' : 'c1'}`)
+            .audioCodec('pcm_s16le')
+            .audioFrequency(16000)
+            .toFormat('wav')
+            .on('end', () => resolve(outputPath))
+            .on('error', (err) => {
+                console.error(`❌ ${channel} channel extraction failed:`, err.message);
+                reject(new Error(`Channel extraction failed: ${err.message}`));
+            })
+            .save(outputPath);
+    });
+}
+
+/**
+ * Merge each channel's chunks, label every segment with the channel's speaker
+ * and interleave both channels into one timeline ordered by start time.
+ */
+export function interleaveChannelTranscripts(
+    tracks: Array<{ speaker: string; chunks: Array<{ start: number; result: TranscriptionResult }> }>
+): TranscriptionResult {
+    const labelled: TranscriptSegment[] = tracks.flatMap(track =>
+        mergeChunkTranscripts(track.chunks).segments.map(seg => ({ ...seg, speaker: track.speaker }))
+    );
+
+    const segments = labelled
+        .sort((a, b) => a.start - b.start || a.end - b.end)
+        .map((seg, id) => ({ ...seg, id }));
+
+    return {
+        text: segments.map(s => s.text.trim()).filter(Boolean).join(' '),
+        segments,
+    };
+}
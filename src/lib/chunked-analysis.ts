@@ -0,0 +1,283 @@
+import { CallAnalysisData, CallAnalysisSchema } from './mastra';
+import { valuesAgree } from './confidence';
+import { completeStructured, LlmAttempt, LlmProvider, StructuredOutputError } from './llm';
+
+/**
+ * Map-reduce call analysis for transcripts that don't fit the model's context
+ * window: each chunk is analysed on its own, then the partial results are
+ * merged. List entries repeated across chunk boundaries are de-duplicated and
+ * conflicting amounts, dates and names are reconciled (and reported).
+ */
+
+export interface AnalysisConflict {
+    field: string;
+    /** Distinct values found, in transcript order */
+    values: string[];
+    chosen: string;
+}
+
+export interface ChunkingInfo {
+    chunkCount: number;
+    /** Chunks whose analysis failed and were left out of the merge */
+    failedChunks: number[];
+    contextTokens: number;
+    conflicts: AnalysisConflict[];
+}
+
+// Room kept free for the model's answer
+const ANSWER_RESERVE_TOKENS = 1500;
+
+// Lines repeated at the start of the next chunk so events on a boundary keep their context
+const OVERLAP_LINES = 2;
+
+// Word overlap above which two list entries are the same event
+const DUPLICATE_SIMILARITY = 0.8;
+
+/**
+ * Rough token count; three characters per token errs on the safe side for
+ * Devanagari and placeholder-heavy text
+ */
+export function estimateTokens(text: string): number {
+    return Math.ceil(text.length / 3);
+}
+
+/**
+ * Transcript tokens that fit next to the prompt in the model's window
+ */
+export function transcriptTokenBudget(contextTokens: number, promptTokens: number): number {
+    return Math.max(500, contextTokens - promptTokens - ANSWER_RESERVE_TOKENS);
+}
+
+// Break a line that is too long on its own at sentence, then word boundaries
+function splitLongLine(line: string, maxTokens: number): string[] {
+    const pieces: string[] = [];
+    let current = '';
+    const units = line.split(/(?<=[.!?।])\s+/).flatMap(sentence =>
+        estimateTokens(sentence) > maxTokens ? sentence.split(/\s+/) : [sentence]
+    );
+
+    for (const unit of units) {
+        const next = current ? `${current} ${unit}` : unit;
+        if (current && estimateTokens(next) > maxTokens) {
+            pieces.push(current);
+            current = unit;
+        } else {
+            current = next;
+        }
+    }
+    if (current) pieces.push(current);
+    return pieces;
+}
+
+/**
+ * Split a transcript into chunks of whole lines (speaker turns) within the budget
+ */
+export function splitTranscript(transcript: string, maxTokens: number): string[] {
+    const lines = transcript
+        .split('\n')
+        .filter(line => line.trim())
+        .flatMap(line => (estimateTokens(line) > maxTokens ? splitLongLine(line, maxTokens) : [line]));
+
+    const chunks: string[][] = [];
+    let current: string[] = [];
+    let tokens = 0;
+
+    for (const line of lines) {
+        const lineTokens = estimateTokens(line) + 1;
+        if (current.length > 0 && tokens + lineTokens > maxTokens) {
+            chunks.push(current);
+            // Carry the last lines over unless they alone would fill the chunk
+            const overlap = current.slice(-OVERLAP_LINES);
+            const overlapTokens = overlap.reduce((sum, l) => sum + estimateTokens(l) + 1, 0);
+            current = overlapTokens + lineTokens <= maxTokens / 2 ? overlap : [];
+            tokens = current === overlap ? overlapTokens : 0;
+        }
+        current.push(line);
+        tokens += lineTokens;
+    }
+    if (current.length > 0) chunks.push(current);
+
+    return chunks.map(chunk => chunk.join('\n'));
+}
+
+function normalize(text: string): string {
+    return text.toLowerCase().replace(/[^\p{L}\p{N}\[\]_]+/gu, ' ').trim();
+}
+
+function isSameEntry(a: string, b: string): boolean {
+    const x = normalize(a);
+    const y = normalize(b);
+    if (x === y) return true;
+
+    const wordsA = new Set(x.split(' '));
+    const wordsB = new Set(y.split(' '));
+    const shared = [...wordsA].filter(w => wordsB.has(w)).length;
+    return shared / Math.max(wordsA.size, wordsB.size) >= DUPLICATE_SIMILARITY;
+}
+
+type Part = { data: CallAnalysisData; chunk: number };
+type Evidence = CallAnalysisData['evidence'];
+
+function evidenceFor(data: CallAnalysisData, field: string): Evidence {
+    return data.evidence.filter(e => e.field === field);
+}
+
+/**
+ * Union of a list field across chunks, keeping the first of near-duplicate entries
+ */
+function mergeList(parts: Part[], field: 'financialEvents' | 'complianceNotes', evidence: Evidence): string[] {
+    const merged: string[] = [];
+    for (const { data } of parts) {
+        data[field].forEach((entry, idx) => {
+            if (merged.some(existing => isSameEntry(existing, entry))) return;
+            evidence.push(...evidenceFor(data, `${field}[${idx}]`).map(e => ({ ...e, field: `${field}[${merged.length}]` })));
+            merged.push(entry);
+        });
+    }
+    return merged;
+}
+
+function union(lists: Array<string[] | undefined>): string[] {
+    const seen = new Map<string, string>();
+    for (const item of lists.flat()) {
+        if (item && !seen.has(normalize(item))) seen.set(normalize(item), item);
+    }
+    return [...seen.values()];
+}
+
+type ScalarField = 'vendorName' | 'clientName' | 'totalAmount' | 'dueDate' | 'currency' | 'documentType';
+
+/**
+ * Pick one value for a field the chunks disagree on: the value stated in most
+ * chunks, and on a tie the latest one (later in a call is usually the agreed figure)
+ */
+function reconcile(parts: Part[], field: ScalarField, evidence: Evidence, conflicts: AnalysisConflict[]) {
+    const groups: Array<{ value: string | number; parts: Part[] }> = [];
+    for (const part of parts) {
+        const value = part.data[field];
+        if (value === undefined || value === null || value === '') continue;
+        const group = groups.find(g => valuesAgree(field, g.value, value));
+        if (group) group.parts.push(part);
+        else groups.push({ value, parts: [part] });
+    }
+    if (groups.length === 0) return undefined;
+
+    const latest = (g: typeof groups[number]) => Math.max(...g.parts.map(p => p.chunk));
+    const winner = groups.reduce((best, g) =>
+        g.parts.length > best.parts.length || (g.parts.length === best.parts.length && latest(g) > latest(best)) ? g : best
+    );
+
+    if (groups.length > 1) {
+        conflicts.push({ field, values: groups.map(g => String(g.value)), chosen: String(winner.value) });
+    }
+    const source = winner.parts.find(p => evidenceFor(p.data, field).length > 0);
+    if (source) evidence.push(...evidenceFor(source.data, field));
+
+    return winner.value;
+}
+
+/**
+ * Merge per-chunk analyses (in transcript order) into one result
+ */
+export function mergeCallAnalyses(results: CallAnalysisData[]): { data: CallAnalysisData; conflicts: AnalysisConflict[] } {
+    const parts: Part[] = results.map((data, chunk) => ({ data, chunk }));
+    const evidence: Evidence = [];
+    const conflicts: AnalysisConflict[] = [];
+
+    // Sentiment: the most common, the latest on a tie
+    const counts = new Map<CallAnalysisData['sentiment'], number>();
+    parts.forEach(({ data }) => counts.set(data.sentiment, (counts.get(data.sentiment) || 0) + 1));
+    const sentiment = [...parts].reverse().reduce((best, { data }) =>
+        counts.get(data.sentiment)! > counts.get(best)! ? data.sentiment : best, parts[parts.length - 1].data.sentiment);
+
+    // Intent: the most common, the earliest on a tie (the purpose is usually stated up front)
+    const intents = parts.filter(p => p.data.intent);
+    const intentPart = intents.reduce<Part | undefined>((best, p) => {
+        const count = (part: Part) => intents.filter(q => normalize(q.data.intent!) === normalize(part.data.intent!)).length;
+        return !best || count(p) > count(best) ? p : best;
+    }, undefined);
+    if (intentPart) evidence.push(...evidenceFor(intentPart.data, 'intent'));
+
+    // Emotional state: how it developed over the call
+    const emotions = union(parts.map(p => (p.data.emotionalState ? [p.data.emotionalState] : [])));
+    const lastEmotion = [...parts].reverse().find(p => p.data.emotionalState);
+    if (lastEmotion) evidence.push(...evidenceFor(lastEmotion.data, 'emotionalState'));
+
+    const keyFigures = new Map<string, unknown>();
+    parts.forEach(({ data }) => data.key_figures?.forEach(figure => keyFigures.set(JSON.stringify(figure), figure)));
+
+    const data: CallAnalysisData = {
+        summary: parts.map(p => p.data.summary).filter(Boolean).join(' ') || undefined,
+        key_figures: [...keyFigures.values()],
+        dates: union(parts.map(p => p.data.dates)),
+        risks: union(parts.map(p => p.data.risks)),
+        action_items: union(parts.map(p => p.data.action_items)),
+        sentiment,
+        speakers: union(parts.map(p => p.data.speakers)),
+        topics: union(parts.map(p => p.data.topics)),
+        intent: intentPart?.data.intent,
+        financialEvents: mergeList(parts, 'financialEvents', evidence),
+        emotionalState: emotions.length > 0 ? emotions.join(' → ') : undefined,
+        complianceNotes: mergeList(parts, 'complianceNotes', evidence),
+        documentType: reconcile(parts, 'documentType', evidence, conflicts) as string | undefined,
+        vendorName: reconcile(parts, 'vendorName', evidence, conflicts) as string | undefined,
+        clientName: reconcile(parts, 'clientName', evidence, conflicts) as string | undefined,
+        totalAmount: reconcile(parts, 'totalAmount', evidence, conflicts),
+        currency: reconcile(parts, 'currency', evidence, conflicts) as string | undefined,
+        dueDate: reconcile(parts, 'dueDate', evidence, conflicts) as string | undefined,
+        evidence,
+    };
+
+    return { data, conflicts };
+}
+
+/**
+ * Analyse each chunk with the same system prompt and merge the results. Chunks
+ * that fail are skipped; only when every chunk fails is an error thrown.
+ */
+export async function analyzeTranscriptInChunks(
+    llm: LlmProvider,
+    systemPrompt: string,
+    chunks: string[]
+): Promise<{ data: CallAnalysisData; attempts: LlmAttempt[]; repairs: number; chunking: ChunkingInfo }> {
+    const attempts: LlmAttempt[] = [];
+    const results: CallAnalysisData[] = [];
+    const failedChunks: number[] = [];
+    let repairs = 0;
+
+    for (const [i, chunk] of chunks.entries()) {
+        console.log(`🧩 Analyzing chunk ${i + 1}/${chunks.length}...`);
+        try {
+            const result = await completeStructured(llm, 'call-analysis', [
+                { role: 'system', content: systemPrompt },
+                {
+                    role: 'user',
+                    content: `This is part ${i + 1} of ${chunks.length} of a long call transcript. Analyze only this part; the parts are merged afterwards. Each line is prefixed with the speaker (Agent or Customer):\n\n${chunk}`,
+                },
+            ], CallAnalysisSchema);
+            attempts.push(...result.attempts);
+            results.push(result.data);
+            repairs = Math.max(repairs, result.attempts.length - 1);
+        } catch (error: any) {
+            console.warn(`⚠️ Chunk ${i + 1} analysis failed:`, error.message);
+            if (error instanceof StructuredOutputError) attempts.push(...error.attempts);
+            failedChunks.push(i);
+        }
+    }
+
+    if (results.length === 0) {
+        throw new StructuredOutputError(`call-analysis failed for all ${chunks.length} chunks`, attempts);
+    }
+
+    const { data, conflicts } = mergeCallAnalyses(results);
+    if (conflicts.length > 0) {
+        console.warn(`⚠️ Chunks disagreed on ${conflicts.map(c => c.field).join(', ')}`);
+    }
+
+    return {
+        data,
+        attempts,
+        repairs,
+        chunking: { chunkCount: chunks.length, failedChunks, contextTokens: llm.config.contextTokens, conflicts },
+    };
+}
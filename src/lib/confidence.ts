@@ -0,0 +1,161 @@
+import type { TranscriptSegment } from './transcribers/types';
+import type { FieldEvidence } from './evidence';
+import { parseAmount, parseDate } from './redaction';
+
+/**
+ * Per-field confidence for extracted values. Each signal is a factor in
+ * [0, 1] and the score is their product, so one weak signal is enough to
+ * pull a field below the review threshold:
+ * - evidence:      was a supporting quote found (exactly, loosely, not at all)
+ * - agreement:     did an independent second sample give the same value
+ * - repairs:       how many repair prompts the response needed
+ * - transcription: Whisper's avg_logprob over the quoted segments (audio only)
+ */
+
+export interface FieldConfidence {
+    field: string;
+    score: number;
+    factors: {
+        evidence: number;
+        agreement: number;
+        repairs: number;
+        transcription: number;
+    };
+    /** false when the second sample disagreed, undefined when there was none */
+    agreed?: boolean;
+    /** A required field the extraction left empty (scored 0) */
+    missing?: boolean;
+}
+
+// Fields that decide whether a document needs a human look
+export const KEY_FIELDS = ['totalAmount', 'dueDate', 'clientName'] as const;
+
+export function getConfidenceThreshold(): number {
+    const configured = parseFloat(process.env.CONFIDENCE_THRESHOLD || '');
+    return Number.isFinite(configured) ? configured : 0.6;
+}
+
+/**
+ * Whether a second extraction is made to measure model agreement
+ * (LLM_AGREEMENT_CHECK, off unless enabled; it doubles the LLM calls per document)
+ */
+export function isAgreementCheckEnabled(): boolean {
+    return ['1', 'true', 'yes'].includes((process.env.LLM_AGREEMENT_CHECK || '').toLowerCase());
+}
+
+function fieldValue(data: Record<string, unknown>, field: string): unknown {
+    const match = field.match(/^(\w+)\[(\d+)\]$/);
+    if (!match) return data[field];
+    const list = data[match[1]];
+    return Array.isArray(list) ? list[Number(match[2])] : undefined;
+}
+
+function normalizeText(value: string): string {
+    return value.toLowerCase().replace(/[^\p{L}\p{N}\[\]_]+/gu, ' ').trim();
+}
+
+/**
+ * Whether two extractions of the same field agree; undefined when they can't
+ * be compared (free text such as list entries)
+ */
+export function valuesAgree(field: string, a: unknown, b: unknown): boolean | undefined {
+    if (/\[\d+\]$/.test(field)) return undefined;
+    if (a === undefined || a === null || a === '') return b === undefined || b === null || b === '';
+    if (b === undefined || b === null || b === '') return false;
+
+    // Redaction placeholders ([MONEY_1]) only agree with the same placeholder
+    const placeholder = /\[[A-Z]+_\d+\]/;
+    if (placeholder.test(String(a)) || placeholder.test(String(b))) {
+        return normalizeText(String(a)) === normalizeText(String(b));
+    }
+
+    if (/amount|subtotal|total/i.test(field)) {
+        const x = parseAmount(a);
+        const y = parseAmount(b);
+        if (x !== undefined && y !== undefined) return Math.abs(x - y) <= Math.max(1, Math.abs(x) * 0.01);
+    }
+    if (/date/i.test(field)) {
+        const x = parseDate(a);
+        const y = parseDate(b);
+        if (x && y) return x.toISOString().slice(0, 10) === y.toISOString().slice(0, 10);
+    }
+
+    const x = normalizeText(String(a));
+    const y = normalizeText(String(b));
+    return x === y || (x.length > 3 && y.length > 3 && (x.includes(y) || y.includes(x)));
+}
+
+function transcriptionFactor(evidence: FieldEvidence | undefined, segments: TranscriptSegment[] | undefined): number {
+    if (!segments || evidence?.start === undefined || evidence.end === undefined) return 1;
+
+    const logprobs = segments
+        .filter(seg => seg.start >= evidence.start! && seg.end <= evidence.end! && typeof seg.avgLogprob === 'number')
+        .map(seg => seg.avgLogprob!);
+    if (logprobs.length === 0) return 1;
+
+    // exp(avg_logprob) is the mean per-token probability; halved in log space so
+    // ordinary phone-line noise (around -0.4) doesn't outweigh the other signals
+    const mean = logprobs.reduce((sum, lp) => sum + lp, 0) / logprobs.length;
+    return Math.min(1, Math.max(0.3, Math.exp(mean / 2)));
+}
+
+export function scoreFields(options: {
+    fields: string[];
+    data: Record<string, unknown>;
+    /** Second, independent extraction (null when none was made) */
+    sample?: Record<string, unknown> | null;
+    evidence: FieldEvidence[];
+    /** Repair prompts the primary extraction needed */
+    repairs: number;
+    /** Timed transcript, for audio */
+    segments?: TranscriptSegment[];
+    /** Fields that must be extracted; any of them missing from `fields` scores 0 */
+    required?: readonly string[];
+}): FieldConfidence[] {
+    const { fields, data, sample, evidence, repairs, segments, required = KEY_FIELDS } = options;
+    const round = (n: number) => Number(n.toFixed(2));
+
+    // An empty key field is no more trustworthy than a wrong one
+    const missing: FieldConfidence[] = required
+        .filter(field => !fields.includes(field))
+        .map(field => ({
+            field,
+            score: 0,
+            factors: { evidence: 0, agreement: 0, repairs: 0, transcription: 0 },
+            missing: true,
+        }));
+
+    const scored = fields.map(field => {
+        const ev = evidence.find(e => e.field === field);
+        const agreed = sample ? valuesAgree(field, fieldValue(data, field), fieldValue(sample, field)) : undefined;
+
+        const factors = {
+            evidence: !ev?.supported ? 0.4 : ev.approximate ? 0.8 : 1,
+            agreement: agreed === undefined ? 0.9 : agreed ? 1 : 0.5,
+            repairs: Math.max(0.7, 1 - 0.1 * repairs),
+            transcription: transcriptionFactor(ev, segments),
+        };
+
+        return {
+            field,
+            score: round(factors.evidence * factors.agreement * factors.repairs * factors.transcription),
+            factors: {
+                evidence: round(factors.evidence),
+                agreement: round(factors.agreement),
+                repairs: round(factors.repairs),
+                transcription: round(factors.transcription),
+            },
+            agreed,
+        };
+    });
+    return [...scored, ...missing];
+}
+
+/**
+ * Key fields that are missing or score below the threshold
+ */
+export function lowConfidenceKeyFields(confidence: FieldConfidence[], threshold: number = getConfidenceThreshold()): string[] {
+    return confidence
+        .filter(c => (KEY_FIELDS as readonly string[]).includes(c.field) && c.score < threshold)
+        .map(c => c.field);
+}
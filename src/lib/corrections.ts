@@ -0,0 +1,158 @@
+import { parseDate } from './redaction';
+import { normalizeGstin } from './gst';
+
+/**
+ * Reviewer corrections of AI-extracted fields. Every edit is kept with the
+ * original AI value, so corrected documents can be exported as training and
+ * evaluation data. Kept free of Node imports so the review page can use the
+ * field list and validation.
+ */
+
+export type CorrectableKind = 'text' | 'gstin' | 'amount' | 'date' | 'textList' | 'lineItems';
+
+export const CORRECTABLE_FIELDS = {
+    documentType: 'text',
+    invoiceNumber: 'text',
+    invoiceDate: 'date',
+    dueDate: 'date',
+    vendorName: 'text',
+    vendorAddress: 'text',
+    clientName: 'text',
+    clientAddress: 'text',
+    subtotal: 'amount',
+    taxAmount: 'amount',
+    totalAmount: 'amount',
+    currency: 'text',
+    lineItems: 'lineItems',
+    vendorGstin: 'gstin',
+    clientGstin: 'gstin',
+    placeOfSupply: 'text',
+    cgstAmount: 'amount',
+    sgstAmount: 'amount',
+    igstAmount: 'amount',
+    intent: 'text',
+    emotionalState: 'text',
+    financialEvents: 'textList',
+    complianceNotes: 'textList',
+    topics: 'textList',
+    speakers: 'textList',
+} as const satisfies Record<string, CorrectableKind>;
+
+export type CorrectableField = keyof typeof CORRECTABLE_FIELDS;
+
+export interface CorrectedLineItem {
+    description: string;
+    quantity: number;
+    unitPrice: number;
+    totalPrice: number;
+    hsnSac?: string;
+}
+
+export interface Correction {
+    field: CorrectableField;
+    /** Value the AI extracted, carried over from earlier corrections of the field */
+    originalValue: unknown;
+    /** Value just before this edit */
+    previousValue: unknown;
+    correctedValue: unknown;
+    editedBy: string;
+    role: string;
+    editedAt: Date;
+}
+
+export function isCorrectableField(field: unknown): field is CorrectableField {
+    return typeof field === 'string' && Object.prototype.hasOwnProperty.call(CORRECTABLE_FIELDS, field);
+}
+
+function isBlank(value: unknown): boolean {
+    return value === undefined || value === null || (typeof value === 'string' && value.trim() === '');
+}
+
+/**
+ * Amount typed by a reviewer: the whole value must be a number once thousands
+ * separators are removed ("1,250.50", "-500"); anything else is refused
+ * rather than guessed at.
+ */
+function parseEditedAmount(value: unknown): number | undefined {
+    if (typeof value === 'number') return Number.isFinite(value) ? value : undefined;
+    if (typeof value !== 'string') return undefined;
+
+    const text = value.trim().replace(/,/g, '');
+    if (!/^[+-]?(\d+(\.\d*)?|\.\d+)$/.test(text)) return undefined;
+    return Number(text);
+}
+
+/**
+ * Validate and normalise an edited value; null clears the field
+ */
+export function normalizeCorrection(
+    field: CorrectableField,
+    value: unknown
+): { value: unknown } | { error: string } {
+    const kind: CorrectableKind = CORRECTABLE_FIELDS[field];
+
+    switch (kind) {
+        case 'text':
+            if (isBlank(value)) return { value: null };
+            if (typeof value !== 'string' && typeof value !== 'number') return { error: `${field} must be text` };
+            return { value: String(value).trim() };
+
+        // Stored without spaces, upper case; an invalid checksum is reported by validation, not refused
+        case 'gstin':
+            if (isBlank(value)) return { value: null };
+            if (typeof value !== 'string') return { error: `${field} must be text` };
+            return { value: normalizeGstin(value) };
+
+        case 'amount': {
+            if (isBlank(value)) return { value: null };
+            const amount = parseEditedAmount(value);
+            return amount === undefined ? { error: `${field} must be an amount` } : { value: amount };
+        }
+
+        case 'date': {
+            if (isBlank(value)) return { value: null };
+            const date = parseDate(value);
+            return date ? { value: date } : { error: `${field} must be a date` };
+        }
+
+        case 'textList':
+            if (isBlank(value)) return { value: [] };
+            if (!Array.isArray(value) || value.some(v => typeof v !== 'string')) {
+                return { error: `${field} must be a list of strings` };
+            }
+            return { value: value.map(v => v.trim()).filter(Boolean) };
+
+        case 'lineItems': {
+            if (isBlank(value)) return { value: [] };
+            if (!Array.isArray(value)) return { error: 'lineItems must be a list' };
+
+            const items: CorrectedLineItem[] = [];
+            for (const [i, item] of value.entries()) {
+                const description = typeof item?.description === 'string' ? item.description.trim() : '';
+                const quantity = parseEditedAmount(item?.quantity);
+                const unitPrice = parseEditedAmount(item?.unitPrice);
+                const totalPrice = parseEditedAmount(item?.totalPrice);
+                if (!description || quantity === undefined || unitPrice === undefined || totalPrice === undefined) {
+                    return { error: `lineItems[${i}] needs a description, quantity, unitPrice and totalPrice` };
+                }
+                const hsnSac = typeof item?.hsnSac === 'string' || typeof item?.hsnSac === 'number'
+                    ? String(item.hsnSac).trim()
+                    : '';
+                items.push({ description, quantity, unitPrice, totalPrice, ...(hsnSac && { hsnSac }) });
+            }
+            return { value: items };
+        }
+    }
+}
+
+/**
+ * Compare stored and edited values (dates by instant, everything else as JSON)
+ */
+export function sameValue(a: unknown, b: unknown): boolean {
+    const canonical = (value: unknown) => {
+        if (isBlank(value) || (Array.isArray(value) && value.length === 0)) return null;
+        if (value instanceof Date) return value.toISOString();
+        return value;
+    };
+    return JSON.stringify(canonical(a)) === JSON.stringify(canonical(b));
+}
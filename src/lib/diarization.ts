@@ -0,0 +1,278 @@
+import { readWavFile } from './wav';
+import type { TranscriptSegment } from './transcribers/types';
+
+/**
+ * Lightweight speaker diarization that runs entirely on CPU with no model
+ * downloads. Each Whisper segment is summarised as a voice print (mean and
+ * spread of its MFCCs) and the prints are clustered with k-means. Clusters are
+ * then mapped onto call roles: whoever speaks first is taken to be the Agent.
+ */
+
+export const SPEAKER_LABELS = ['Agent', 'Customer'] as const;
+
+const FRAME_SECONDS = 0.025;
+const STEP_SECONDS = 0.01;
+const FFT_SIZE = 512;
+// Voice prints only need telephone bandwidth; reading at 8kHz halves the memory of long calls
+const ANALYSIS_SAMPLE_RATE = 8000;
+const MEL_FILTERS = 26;
+const MFCC_COUNT = 13;
+const KMEANS_ITERATIONS = 25;
+
+// In-place iterative radix-2 FFT
+function fft(re: Float64Array, im: Float64Array): void {
+    const n = re.length;
+
+    for (let i = 1, j = 0; i < n; i++) {
+        let bit = n >> 1;
+        for (; j & bit; bit >>= 1) j ^= bit;
+        j ^= bit;
+        if (i < j) {
+            [re[i], re[j]] = [re[j], re[i]];
+            [im[i], im[j]] = [im[j], im[i]];
+        }
+    }
+
+    for (let len = 2; len <= n; len <<= 1) {
+        const angle = (-2 * Math.PI) / len;
+        const wRe = Math.cos(angle);
+        const wIm = Math.sin(angle);
+        for (let i = 0; i < n; i += len) {
+            let curRe = 1;
+            let curIm = 0;
+            for (let k = 0; k < len / 2; k++) {
+                const aRe = re[i + k];
+                const aIm = im[i + k];
+                const bRe = re[i + k + len / 2] * curRe - im[i + k + len / 2] * curIm;
+                const bIm = re[i + k + len / 2] * curIm + im[i + k + len / 2] * curRe;
+                re[i + k] = aRe + bRe;
+                im[i + k] = aIm + bIm;
+                re[i + k + len / 2] = aRe - bRe;
+                im[i + k + len / 2] = aIm - bIm;
+                const nextRe = curRe * wRe - curIm * wIm;
+                curIm = curRe * wIm + curIm * wRe;
+                curRe = nextRe;
+            }
+        }
+    }
+}
+
+function buildMelFilterbank(sampleRate: number): number[][] {
+    const toMel = (hz: number) => 2595 * Math.log10(1 + hz / 700);
+    const fromMel = (mel: number) => 700 * (Math.pow(10, mel / 2595) - 1);
+
+    const lowMel = toMel(80);
+    const highMel = toMel(Math.min(7600, sampleRate / 2));
+    const bins: number[] = [];
+    for (let i = 0; i < MEL_FILTERS + 2; i++) {
+        const hz = fromMel(lowMel + ((highMel - lowMel) * i) / (MEL_FILTERS + 1));
+        bins.push(Math.floor(((FFT_SIZE + 1) * hz) / sampleRate));
+    }
+
+    const filters: number[][] = [];
+    for (let m = 1; m <= MEL_FILTERS; m++) {
+        const filter = new Array(FFT_SIZE / 2 + 1).fill(0);
+        for (let k = bins[m - 1]; k < bins[m]; k++) {
+            filter[k] = (k - bins[m - 1]) / Math.max(1, bins[m] - bins[m - 1]);
+        }
+        for (let k = bins[m]; k < bins[m + 1]; k++) {
+            filter[k] = (bins[m + 1] - k) / Math.max(1, bins[m + 1] - bins[m]);
+        }
+        filters.push(filter);
+    }
+    return filters;
+}
+
+/**
+ * Voice print for a slice of audio: mean and standard deviation of MFCC 1..12
+ * over the louder (voiced) frames. Returns null when the slice is too short.
+ */
+function voicePrint(samples: Float32Array, sampleRate: number, filters: number[][]): number[] | null {
+    const frames: number[][] = [];
+    const energies: number[] = [];
+    const frameSize = Math.min(FFT_SIZE, Math.round(FRAME_SECONDS * sampleRate));
+    const frameStep = Math.round(STEP_SECONDS * sampleRate);
+
+    const window = new Float64Array(frameSize);
+    for (let i = 0; i < frameSize; i++) {
+        window[i] = 0.54 - 0.46 * Math.cos((2 * Math.PI * i) / (frameSize - 1));
+    }
+
+    for (let start = 0; start + frameSize <= samples.length; start += frameStep) {
+        const re = new Float64Array(FFT_SIZE);
+        const im = new Float64Array(FFT_SIZE);
+        let energy = 0;
+        for (let i = 0; i < frameSize; i++) {
+            re[i] = samples[start + i] * window[i];
+            energy += samples[start + i] * samples[start + i];
+        }
+        fft(re, im);
+
+        const power = new Float64Array(FFT_SIZE / 2 + 1);
+        for (let k = 0; k <= FFT_SIZE / 2; k++) {
+            power[k] = (re[k] * re[k] + im[k] * im[k]) / FFT_SIZE;
+        }
+
+        const logMel = filters.map(filter => {
+            let sum = 0;
+            for (let k = 0; k < filter.length; k++) sum += filter[k] * power[k];
+            return Math.log(sum + 1e-10);
+        });
+
+        // DCT-II; skip c0 because it only tracks loudness
+        const mfcc: number[] = [];
+        for (let c = 1; c < MFCC_COUNT; c++) {
+            let sum = 0;
+            for (let m = 0; m < MEL_FILTERS; m++) {
+                sum += logMel[m] * Math.cos((Math.PI * c * (m + 0.5)) / MEL_FILTERS);
+            }
+            mfcc.push(sum);
+        }
+
+        frames.push(mfcc);
+        energies.push(energy);
+    }
+
+    if (frames.length < 5) return null;
+
+    // Keep the top half of frames by energy so pauses don't dominate the print
+    const threshold = [...energies].sort((a, b) => a - b)[Math.floor(energies.length / 2)];
+    const voiced = frames.filter((_, i) => energies[i] >= threshold);
+
+    const dims = MFCC_COUNT - 1;
+    const mean = new Array(dims).fill(0);
+    const std = new Array(dims).fill(0);
+    for (const f of voiced) for (let d = 0; d < dims; d++) mean[d] += f[d] / voiced.length;
+    for (const f of voiced) for (let d = 0; d < dims; d++) std[d] += (f[d] - mean[d]) ** 2 / voiced.length;
+
+    return [...mean, ...std.map(Math.sqrt)];
+}
+
+function distance(a: number[], b: number[]): number {
+    let sum = 0;
+    for (let i = 0; i < a.length; i++) sum += (a[i] - b[i]) ** 2;
+    return sum;
+}
+
+/**
+ * Deterministic k-means: the first point seeds cluster 0 and each further
+ * centroid is the point farthest from those already chosen.
+ */
+function kMeans(points: number[][], k: number): number[] {
+    const centroids: number[][] = [points[0]];
+    while (centroids.length < k) {
+        let best = 0;
+        let bestDist = -1;
+        points.forEach((p, i) => {
+            const d = Math.min(...centroids.map(c => distance(p, c)));
+            if (d > bestDist) {
+                bestDist = d;
+                best = i;
+            }
+        });
+        centroids.push(points[best]);
+    }
+
+    let assignment = new Array(points.length).fill(0);
+    for (let iter = 0; iter < KMEANS_ITERATIONS; iter++) {
+        const next = points.map(p => {
+            let best = 0;
+            centroids.forEach((c, ci) => {
+                if (distance(p, c) < distance(p, centroids[best])) best = ci;
+            });
+            return best;
+        });
+
+        const changed = next.some((a, i) => a !== assignment[i]);
+        assignment = next;
+
+        for (let ci = 0; ci < k; ci++) {
+            const members = points.filter((_, i) => assignment[i] === ci);
+            if (members.length === 0) continue;
+            centroids[ci] = members[0].map((_, d) => members.reduce((s, m) => s + m[d], 0) / members.length);
+        }
+
+        if (!changed && iter > 0) break;
+    }
+
+    return assignment;
+}
+
+/**
+ * Label each transcript segment with a speaker turn.
+ * Segments too short to fingerprint inherit the previous segment's speaker.
+ */
+export async function diarizeSegments(
+    wavPath: string,
+    segments: TranscriptSegment[]
+): Promise<TranscriptSegment[]> {
+    if (segments.length === 0) return segments;
+
+    console.log(`🗣️ Diarizing ${segments.length} segments...`);
+
+    const { sampleRate, samples } = readWavFile(wavPath, ANALYSIS_SAMPLE_RATE);
+    const filters = buildMelFilterbank(sampleRate);
+
+    const prints = segments.map(seg => {
+        const from = Math.max(0, Math.floor(seg.start * sampleRate));
+        const to = Math.min(samples.length, Math.ceil(seg.end * sampleRate));
+        return to > from ? voicePrint(samples.subarray(from, to), sampleRate, filters) : null;
+    });
+
+    const indexed = prints
+        .map((p, i) => ({ print: p, index: i }))
+        .filter((p): p is { print: number[]; index: number } => p.print !== null);
+
+    const clusterOf = new Map<number, number>();
+    if (indexed.length >= SPEAKER_LABELS.length) {
+        // z-normalise every dimension so no single coefficient dominates the distance
+        const dims = indexed[0].print.length;
+        const normalised = indexed.map(p => [...p.print]);
+        for (let d = 0; d < dims; d++) {
+            const mean = normalised.reduce((s, p) => s + p[d], 0) / normalised.length;
+            const std = Math.sqrt(normalised.reduce((s, p) => s + (p[d] - mean) ** 2, 0) / normalised.length) || 1;
+            for (const p of normalised) p[d] = (p[d] - mean) / std;
+        }
+
+        const assignment = kMeans(normalised, SPEAKER_LABELS.length);
+        indexed.forEach((p, i) => clusterOf.set(p.index, assignment[i]));
+    } else {
+        indexed.forEach(p => clusterOf.set(p.index, 0));
+    }
+
+    // Whoever opens the call is the Agent; clusters are relabelled in order of first appearance
+    const labelOf = new Map<number, string>();
+    let previous: string = SPEAKER_LABELS[0];
+
+    const labelled = segments.map((seg, i) => {
+        const cluster = clusterOf.get(i);
+        if (cluster !== undefined) {
+            if (!labelOf.has(cluster)) labelOf.set(cluster, SPEAKER_LABELS[labelOf.size] || `Speaker ${labelOf.size + 1}`);
+            previous = labelOf.get(cluster)!;
+        }
+        return { ...seg, speaker: previous };
+    });
+
+    console.log(`✅ Diarization complete: ${labelOf.size || 1} speaker(s) found`);
+    return labelled;
+}
+
+/**
+ * Render segments as "Speaker: text" lines, merging consecutive segments
+ * from the same speaker into one turn.
+ */
+export function formatSpeakerTranscript(segments: TranscriptSegment[]): string {
+    const turns: { speaker: string; text: string }[] = [];
+
+    for (const seg of segments) {
+        const speaker = seg.speaker || 'Unknown';
+        const last = turns[turns.length - 1];
+        if (last && last.speaker === speaker) {
+            last.text += ` ${seg.text}`;
+        } else {
+            turns.push({ speaker, text: seg.text });
+        }
+    }
+
+    return turns.map(t => `${t.speaker}: ${t.text}`).join('\n');
+}
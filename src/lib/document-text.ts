@@ -0,0 +1,137 @@
+import path from 'path';
+import { extractPdfText, joinPages, pageAtOffset, PageText } from './pdf-text';
+import { findQuoteBoxes, ocrImage, renderPdfPage } from './ocr';
+import { extractDocxText } from './docx-text';
+import { readPlainText, TextEncoding } from './plain-text';
+import type { FieldEvidence } from './evidence';
+
+/**
+ * Text of an uploaded (non-audio) document, as handed to the extraction LLM.
+ * Paged formats keep their pages so evidence and chat answers can cite them.
+ * Images and scanned PDF pages are read with OCR first; when OCR isn't
+ * available they stay flagged in `ocrPages`.
+ */
+
+export type TextExtractionMethod = 'pdf-text' | 'ocr' | 'docx' | 'plain-text' | 'none';
+
+export interface DocumentText {
+    /** Full text; paged documents carry "--- Page N ---" markers */
+    text: string;
+    method: TextExtractionMethod;
+    pages?: PageText[];
+    pageCount?: number;
+    /** Where each page's text starts in `text` */
+    pageOffsets?: number[];
+    /** Pages (images count as one) that have no text layer and still need OCR */
+    ocrPages: number[];
+    /** Pages whose text was read by OCR */
+    ocrAppliedPages: number[];
+    /** Word documents: tables found (rendered as "| cell | cell |" rows in `text`) */
+    tableCount?: number;
+    /** Plain text: the encoding the file was decoded from */
+    encoding?: TextEncoding;
+}
+
+const IMAGE_TYPES = ['image/png', 'image/jpeg'];
+const DOCX_TYPE = 'application/vnd.openxmlformats-officedocument.wordprocessingml.document';
+
+// Uploads live in public/uploads, so files next to them are served from /uploads
+const publicUrl = (filePath: string) => `/uploads/${path.basename(filePath)}`;
+
+/**
+ * OCR the scanned pages of a PDF in place; pages that fail keep `needsOcr`
+ */
+async function ocrScannedPages(filePath: string, pages: PageText[]): Promise<PageText[]> {
+    const result: PageText[] = [];
+    for (const page of pages) {
+        if (!page.needsOcr) {
+            result.push(page);
+            continue;
+        }
+        try {
+            const imagePath = await renderPdfPage(filePath, page.page);
+            const ocr = await ocrImage(imagePath);
+            result.push({ page: page.page, text: ocr.text, ocr: { ...ocr, imageUrl: publicUrl(imagePath) } });
+        } catch (error: any) {
+            console.warn(`⚠️ OCR failed for page ${page.page}:`, error.message);
+            result.push(page);
+        }
+    }
+    return result;
+}
+
+export async function extractDocumentText(filePath: string, fileType?: string): Promise<DocumentText> {
+    const extension = path.extname(filePath).toLowerCase();
+
+    if (fileType === 'application/pdf' || extension === '.pdf') {
+        const pdf = await extractPdfText(filePath);
+        console.log(`📄 PDF text extracted: ${pdf.pageCount} page(s)${pdf.ocrPages.length ? `, ${pdf.ocrPages.length} scanned` : ''}`);
+        const pages = pdf.ocrPages.length > 0 ? await ocrScannedPages(filePath, pdf.pages) : pdf.pages;
+        const { text, offsets } = joinPages(pages);
+        return {
+            text,
+            method: 'pdf-text',
+            pages,
+            pageCount: pdf.pageCount,
+            pageOffsets: offsets,
+            ocrPages: pages.filter(p => p.needsOcr).map(p => p.page),
+            ocrAppliedPages: pages.filter(p => p.ocr).map(p => p.page),
+        };
+    }
+
+    // Photos and scans have no text layer at all
+    if ((fileType && IMAGE_TYPES.includes(fileType)) || ['.png', '.jpg', '.jpeg'].includes(extension)) {
+        try {
+            const ocr = await ocrImage(filePath);
+            return {
+                text: ocr.text,
+                method: 'ocr',
+                pages: [{ page: 1, text: ocr.text, ocr: { ...ocr, imageUrl: publicUrl(filePath) } }],
+                pageCount: 1,
+                pageOffsets: [0],
+                ocrPages: [],
+                ocrAppliedPages: [1],
+            };
+        } catch (error: any) {
+            console.warn('⚠️ OCR failed:', error.message);
+            return { text: '', method: 'none', pages: [{ page: 1, text: '', needsOcr: true }], pageCount: 1, ocrPages: [1], ocrAppliedPages: [] };
+        }
+    }
+
+    if (fileType === DOCX_TYPE || extension === '.docx') {
+        const docx = await extractDocxText(filePath);
+        return { text: docx.text, method: 'docx', tableCount: docx.tables.length, ocrPages: [], ocrAppliedPages: [] };
+    }
+
+    const { text, encoding } = await readPlainText(filePath);
+    return { text, method: 'plain-text', encoding, ocrPages: [], ocrAppliedPages: [] };
+}
+
+/**
+ * Whether there is any text to extract fields from
+ */
+export function hasText(document: DocumentText): boolean {
+    return document.text.replace(/--- Page \d+ ---/g, '').trim().length > 0;
+}
+
+/**
+ * Add the page each quote was found on (paged documents, exact matches) and,
+ * on OCR'd pages, the boxes to highlight on the page image
+ */
+export function withPageLocations(evidence: FieldEvidence[], document: DocumentText): FieldEvidence[] {
+    const { pages, pageOffsets } = document;
+    if (!pages || !pageOffsets) return evidence;
+
+    return evidence.map(e => {
+        const page = e.offset !== undefined ? pageAtOffset(pages, pageOffsets, e.offset) : undefined;
+
+        // Loose matches have no offset, so look for them on every OCR'd page
+        if (e.supported && e.quote) {
+            for (const candidate of pages.filter(p => p.ocr && (page === undefined || p.page === page))) {
+                const boxes = findQuoteBoxes(e.quote, candidate.ocr!);
+                if (boxes.length > 0) return { ...e, page: candidate.page, boxes };
+            }
+        }
+        return page !== undefined ? { ...e, page } : e;
+    });
+}
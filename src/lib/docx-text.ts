@@ -0,0 +1,187 @@
+import fs from 'fs';
+import zlib from 'zlib';
+import { normalizeText } from './plain-text';
+
+/**
+ * Text and tables of Word (.docx) documents. A .docx is a zip of XML parts;
+ * the body (word/document.xml) is read paragraph by paragraph, and tables are
+ * kept as rows of cells so invoice item tables reach the LLM with their
+ * columns intact. Headers and footers (where vendors put their address and
+ * tax numbers) are included too.
+ */
+
+export interface DocxTable {
+    rows: string[][];
+}
+
+export interface DocxText {
+    text: string;
+    tables: DocxTable[];
+}
+
+/**
+ * Uncompressed contents of the zip entries whose names match
+ */
+function readZipEntries(zip: Buffer, match: (name: string) => boolean): Map<string, Buffer> {
+    // End of central directory record: scan back over a possible trailing comment
+    let eocd = -1;
+    for (let i = zip.length - 22; i >= Math.max(0, zip.length - 65557); i--) {
+        if (zip.readUInt32LE(i) === 0x06054b50) {
+            eocd = i;
+            break;
+        }
+    }
+    if (eocd === -1) throw new Error('Not a zip archive (is the file really a .docx?)');
+
+    const entries = new Map<string, Buffer>();
+    const count = zip.readUInt16LE(eocd + 10);
+    let offset = zip.readUInt32LE(eocd + 16);
+
+    for (let i = 0; i < count; i++) {
+        if (zip.readUInt32LE(offset) !== 0x02014b50) throw new Error('Corrupt zip central directory');
+        const method = zip.readUInt16LE(offset + 10);
+        const compressedSize = zip.readUInt32LE(offset + 20);
+        const nameLength = zip.readUInt16LE(offset + 28);
+        const extraLength = zip.readUInt16LE(offset + 30);
+        const commentLength = zip.readUInt16LE(offset + 32);
+        const localOffset = zip.readUInt32LE(offset + 42);
+        const name = zip.toString('utf-8', offset + 46, offset + 46 + nameLength);
+        offset += 46 + nameLength + extraLength + commentLength;
+
+        if (!match(name)) continue;
+
+        const dataStart = localOffset + 30 + zip.readUInt16LE(localOffset + 26) + zip.readUInt16LE(localOffset + 28);
+        const data = zip.subarray(dataStart, dataStart + compressedSize);
+        if (method === 0) entries.set(name, data);
+        else if (method === 8) entries.set(name, zlib.inflateRawSync(data));
+        else throw new Error(`Unsupported zip compression method ${method} for ${name}`);
+    }
+    return entries;
+}
+
+function decodeEntities(text: string): string {
+    return text
+        .replace(/&#x([0-9a-f]+);/gi, (_, hex) => String.fromCodePoint(parseInt(hex, 16)))
+        .replace(/&#(\d+);/g, (_, dec) => String.fromCodePoint(parseInt(dec, 10)))
+        .replace(/&lt;/g, '<')
+        .replace(/&gt;/g, '>')
+        .replace(/&quot;/g, '"')
+        .replace(/&apos;/g, "'")
+        .replace(/&amp;/g, '&');
+}
+
+type Block = { paragraph: string } | { table: DocxTable };
+
+interface OpenTable {
+    rows: string[][];
+    row: string[] | null;
+    cell: string[] | null;
+    /** Grid columns the open cell spans */
+    span: number;
+}
+
+/**
+ * Paragraphs and tables of one WordprocessingML part, in document order
+ */
+export function parseWordXml(xml: string): Block[] {
+    const blocks: Block[] = [];
+    const tables: OpenTable[] = [];
+    let paragraph = '';
+    let inRun = false;
+    let inText = false;
+
+    const tokens = /<(\/?)(w:[A-Za-z]+)([^>]*?)(\/?)>|([^<]+)/g;
+    for (const [, closing, tag, attributes, selfClosing, content] of xml.matchAll(tokens)) {
+        if (content !== undefined) {
+            if (inText) paragraph += decodeEntities(content);
+            continue;
+        }
+        const table = tables[tables.length - 1];
+
+        switch (tag) {
+            case 'w:r':
+                inRun = !closing && !selfClosing;
+                break;
+            case 'w:t':
+                inText = !closing && !selfClosing;
+                break;
+            // Only inside runs; paragraph properties also list w:tab stops
+            case 'w:tab':
+                if (inRun && !closing) paragraph += '\t';
+                break;
+            case 'w:br':
+            case 'w:cr':
+                if (inRun && !closing) paragraph += '\n';
+                break;
+            case 'w:p':
+                if (!closing && !selfClosing) break;
+                if (table?.cell) table.cell.push(paragraph);
+                else blocks.push({ paragraph });
+                paragraph = '';
+                break;
+            case 'w:tbl':
+                if (!closing) {
+                    tables.push({ rows: [], row: null, cell: null, span: 1 });
+                } else {
+                    const done = tables.pop()!;
+                    const parent = tables[tables.length - 1];
+                    // Nested tables are flattened into the enclosing cell
+                    if (parent?.cell) parent.cell.push(done.rows.map(r => r.join(' ')).join(' '));
+                    else blocks.push({ table: { rows: done.rows } });
+                }
+                break;
+            case 'w:tr':
+                if (!table) break;
+                if (!closing) table.row = [];
+                else if (table.row) {
+                    if (table.row.some(cell => cell)) table.rows.push(table.row);
+                    table.row = null;
+                }
+                break;
+            case 'w:tc':
+                if (!table) break;
+                if (!closing) {
+                    table.cell = [];
+                    table.span = 1;
+                } else if (table.cell) {
+                    table.row?.push(table.cell.filter(Boolean).join(' ').replace(/\s+/g, ' ').trim());
+                    // Merged cells: pad with empty cells so columns stay aligned
+                    for (let i = 1; i < table.span; i++) table.row?.push('');
+                    table.cell = null;
+                }
+                break;
+            case 'w:gridSpan':
+                if (table?.cell) table.span = parseInt(attributes.match(/w:val="(\d+)"/)?.[1] || '1', 10);
+                break;
+        }
+    }
+    return blocks;
+}
+
+function renderBlocks(blocks: Block[]): string {
+    return blocks
+        .map(block => 'paragraph' in block
+            ? block.paragraph
+            // One row per line, cells between "|" (pipes inside cells would break the columns)
+            : `\n${block.table.rows.map(row => `| ${row.map(cell => cell.replace(/\|/g, '/')).join(' | ')} |`).join('\n')}\n`)
+        .join('\n');
+}
+
+export async function extractDocxText(filePath: string): Promise<DocxText> {
+    const zip = await fs.promises.readFile(filePath);
+    const parts = readZipEntries(zip, name => /^word\/(document|header\d*|footer\d*)\.xml$/.test(name));
+
+    const body = parts.get('word/document.xml');
+    if (!body) throw new Error('No word/document.xml in the .docx');
+
+    const partBlocks = (prefix: string) => [...parts.keys()]
+        .filter(name => name.startsWith(prefix))
+        .sort()
+        .flatMap(name => parseWordXml(parts.get(name)!.toString('utf-8')));
+
+    const blocks = [...partBlocks('word/header'), ...parseWordXml(body.toString('utf-8')), ...partBlocks('word/footer')];
+    const tables = blocks.flatMap(block => ('table' in block ? [block.table] : []));
+
+    console.log(`📝 DOCX text extracted: ${blocks.length - tables.length} paragraph(s), ${tables.length} table(s)`);
+    return { text: normalizeText(renderBlocks(blocks)), tables };
+}
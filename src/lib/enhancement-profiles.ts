@@ -0,0 +1,80 @@
+/**
+ * Named, versioned FFmpeg filter chains used to produce the enhanced audio.
+ * Bump `version` whenever a chain changes so stored documents still say
+ * exactly which filters produced their `enhancedAudioUrl`.
+ * Kept free of Node imports so the review page can list the profiles.
+ */
+
+export const ENHANCEMENT_PROFILE_NAMES = ['telephony', 'wideband', 'aggressive', 'none'] as const;
+
+export type EnhancementProfileName = typeof ENHANCEMENT_PROFILE_NAMES[number];
+
+export interface EnhancementProfile {
+    name: EnhancementProfileName;
+    version: number;
+    label: string;
+    description: string;
+    filters: string[];
+}
+
+// EBU R128 loudness normalisation (-16 LUFS, the usual target for speech)
+const LOUDNORM = 'loudnorm=I=-16:TP=-1.5:LRA=11';
+
+export const ENHANCEMENT_PROFILES: Record<EnhancementProfileName, EnhancementProfile> = {
+    telephony: {
+        name: 'telephony',
+        version: 2,
+        label: 'Telephony',
+        description: 'Narrowband phone audio (300-3400 Hz) with light denoising',
+        filters: [
+            'highpass=f=200',      // Remove low-frequency rumble
+            'lowpass=f=3400',      // Telephone band upper edge
+            'afftdn=nf=-25',       // FFT-based denoising
+            LOUDNORM,
+        ],
+    },
+    wideband: {
+        name: 'wideband',
+        version: 1,
+        label: 'Wideband',
+        description: 'VoIP / app recordings; keeps the full 16 kHz speech band',
+        filters: [
+            'highpass=f=80',
+            'lowpass=f=7800',
+            'afftdn=nf=-20',
+            LOUDNORM,
+        ],
+    },
+    aggressive: {
+        name: 'aggressive',
+        version: 1,
+        label: 'Aggressive',
+        description: 'Very noisy calls; strong denoising at the cost of some clarity',
+        filters: [
+            'highpass=f=250',
+            'lowpass=f=3000',
+            'afftdn=nf=-35:tn=1',  // Track the noise floor as it changes
+            'anlmdn=s=7',          // Non-local means denoiser
+            LOUDNORM,
+        ],
+    },
+    none: {
+        name: 'none',
+        version: 1,
+        label: 'None',
+        description: 'No processing; the enhanced audio is the converted original',
+        filters: [],
+    },
+};
+
+export function isEnhancementProfileName(name: unknown): name is EnhancementProfileName {
+    return typeof name === 'string' && (ENHANCEMENT_PROFILE_NAMES as readonly string[]).includes(name);
+}
+
+/**
+ * Profile used when none is requested (ENHANCEMENT_PROFILE env, default: telephony)
+ */
+export function getDefaultEnhancementProfile(): EnhancementProfile {
+    const configured = typeof process !== 'undefined' ? process.env.ENHANCEMENT_PROFILE : undefined;
+    return ENHANCEMENT_PROFILES[isEnhancementProfileName(configured) ? configured : 'telephony'];
+}
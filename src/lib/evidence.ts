@@ -0,0 +1,133 @@
+import type { TranscriptSegment } from './transcribers/types';
+import type { PageBox } from './ocr';
+
+/**
+ * Grounding for extracted fields. The LLM is asked to quote the text behind
+ * each value; quotes are then located in the transcript (or document text) so
+ * reviewers can see where a value came from. Values whose quote is missing or
+ * can't be found are flagged as unsupported.
+ */
+
+export interface EvidenceClaim {
+    /** Field path, e.g. 'totalAmount' or 'financialEvents[2]' */
+    field: string;
+    quote: string;
+}
+
+export interface FieldEvidence {
+    field: string;
+    /** Quote as the model gave it */
+    quote?: string;
+    supported: boolean;
+    /** The quote only loosely matched the source text */
+    approximate?: boolean;
+    /** Audio: where the quote was found */
+    segmentId?: number;
+    start?: number;
+    end?: number;
+    /** Documents: character offset of the quote in the extracted text */
+    offset?: number;
+    /** Paged documents: page the quote is on */
+    page?: number;
+    /** OCR'd pages: where the quote is on the page image */
+    boxes?: PageBox[];
+}
+
+// Share of the quote's words that must appear in one segment for a loose match
+const MIN_WORD_OVERLAP = 0.7;
+
+function normalize(text: string): string {
+    return text
+        .normalize('NFC')
+        .toLowerCase()
+        .replace(/[^\p{L}\p{M}\p{N}\[\]_]+/gu, ' ')
+        .trim();
+}
+
+function words(text: string): string[] {
+    return normalize(text).split(' ').filter(Boolean);
+}
+
+/**
+ * Paths of every non-empty extracted value that should be backed by a quote
+ */
+export function evidenceFields(data: Record<string, unknown>, scalarFields: string[], listFields: string[] = []): string[] {
+    const present = (value: unknown) =>
+        value !== undefined && value !== null && !(typeof value === 'string' && value.trim() === '');
+
+    return [
+        ...scalarFields.filter(field => present(data[field])),
+        ...listFields.flatMap(field => {
+            const list = data[field];
+            return Array.isArray(list) ? list.map((_, i) => `${field}[${i}]`) : [];
+        }),
+    ];
+}
+
+function locateInSegments(quote: string, segments: TranscriptSegment[]): Omit<FieldEvidence, 'field' | 'quote'> | null {
+    const needle = normalize(quote);
+    if (!needle) return null;
+
+    // Exact match, possibly running across up to four consecutive segments
+    // (the first segment it ends in, narrowed to the latest one it starts in)
+    const texts = segments.map(seg => normalize(seg.text));
+    for (let j = 0; j < segments.length; j++) {
+        let joined = '';
+        for (let i = j; i >= Math.max(0, j - 3); i--) {
+            joined = `${texts[i]} ${joined}`.trim();
+            if (joined.includes(needle)) {
+                return { supported: true, segmentId: segments[i].id, start: segments[i].start, end: segments[j].end };
+            }
+        }
+    }
+
+    // Paraphrased quote: the segment sharing most of its words
+    const quoteWords = words(quote);
+    let best: { seg: TranscriptSegment; overlap: number } | null = null;
+    for (const seg of segments) {
+        const segWords = new Set(words(seg.text));
+        const overlap = quoteWords.filter(w => segWords.has(w)).length / quoteWords.length;
+        if (!best || overlap > best.overlap) best = { seg, overlap };
+    }
+    if (best && best.overlap >= MIN_WORD_OVERLAP) {
+        return { supported: true, approximate: true, segmentId: best.seg.id, start: best.seg.start, end: best.seg.end };
+    }
+
+    return null;
+}
+
+function locateInText(quote: string, text: string): Omit<FieldEvidence, 'field' | 'quote'> | null {
+    const needle = quote.trim().replace(/\s+/g, ' ');
+    if (!needle) return null;
+
+    const exact = text.indexOf(needle);
+    if (exact !== -1) return { supported: true, offset: exact };
+
+    // Layout whitespace and case often differ from the quote
+    const flattened = text.replace(/\s+/g, ' ').toLowerCase();
+    if (flattened.includes(needle.toLowerCase())) return { supported: true, approximate: true };
+
+    return null;
+}
+
+/**
+ * Match each field to its quote and find the quote in the source
+ */
+export function groundEvidence(
+    fields: string[],
+    claims: EvidenceClaim[],
+    source: { segments: TranscriptSegment[] } | { text: string }
+): FieldEvidence[] {
+    return fields.map(field => {
+        const claim = claims.find(c => c.field === field);
+        if (!claim) return { field, supported: false };
+
+        const location = 'segments' in source
+            ? locateInSegments(claim.quote, source.segments)
+            : locateInText(claim.quote, source.text);
+
+        return location
+            ? { field, quote: claim.quote, ...location }
+            : { field, quote: claim.quote, supported: false };
+    });
+}
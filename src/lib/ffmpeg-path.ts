@@ -0,0 +1,34 @@
+import path from 'path';
+
+/**
+ * FIXED FFmpeg Path Resolution
+ * We manually construct the path to avoid the 'package.json' resolve error 
+ * triggered by the standard @ffmpeg-installer import.
+ */
+export const getFFmpegPath = () => {
+    // If we are on Windows (your Acer Predator)
+    if (process.platform === 'win32') {
+        return path.join(
+            process.cwd(),
+            'node_modules',
+            '@ffmpeg-installer',
+            'win32-x64',
+            'ffmpeg.exe'
+        );
+    }
+    // For production/Linux (Vercel, Render, etc.)
+    // These environments usually have ffmpeg pre-installed in the path
+    return 'ffmpeg';
+};
+
+/**
+ * Environment for child processes (Whisper and friends shell out to ffmpeg)
+ * with the FFmpeg directory prepended to PATH
+ */
+export const getFFmpegEnv = (): NodeJS.ProcessEnv => {
+    const ffmpegDir = path.dirname(getFFmpegPath());
+    return {
+        ...process.env,
+        PATH: `${ffmpegDir}${path.delimiter}${process.env.PATH}`
+    };
+};
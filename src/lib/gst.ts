@@ -0,0 +1,217 @@
+import { ValidationFinding, withinTolerance } from './invoice-validation';
+
+/**
+ * Indian GST checks that need no network: GSTIN format, state code and check
+ * digit, HSN/SAC code format, and whether the CGST/SGST/IGST split matches
+ * the supply (same state: CGST + SGST, different states: IGST). Kept free of
+ * Node imports so the review page can validate GSTINs too.
+ */
+
+// GST state codes (first two digits of a GSTIN and of place of supply)
+export const GST_STATES: Record<string, string> = {
+    '01': 'Jammu and Kashmir',
+    '02': 'Himachal Pradesh',
+    '03': 'Punjab',
+    '04': 'Chandigarh',
+    '05': 'Uttarakhand',
+    '06': 'Haryana',
+    '07': 'Delhi',
+    '08': 'Rajasthan',
+    '09': 'Uttar Pradesh',
+    '10': 'Bihar',
+    '11': 'Sikkim',
+    '12': 'Arunachal Pradesh',
+    '13': 'Nagaland',
+    '14': 'Manipur',
+    '15': 'Mizoram',
+    '16': 'Tripura',
+    '17': 'Meghalaya',
+    '18': 'Assam',
+    '19': 'West Bengal',
+    '20': 'Jharkhand',
+    '21': 'Odisha',
+    '22': 'Chhattisgarh',
+    '23': 'Madhya Pradesh',
+    '24': 'Gujarat',
+    '25': 'Daman and Diu',
+    '26': 'Dadra and Nagar Haveli and Daman and Diu',
+    '27': 'Maharashtra',
+    '28': 'Andhra Pradesh (Old)',
+    '29': 'Karnataka',
+    '30': 'Goa',
+    '31': 'Lakshadweep',
+    '32': 'Kerala',
+    '33': 'Tamil Nadu',
+    '34': 'Puducherry',
+    '35': 'Andaman and Nicobar Islands',
+    '36': 'Telangana',
+    '37': 'Andhra Pradesh',
+    '38': 'Ladakh',
+    '97': 'Other Territory',
+    '99': 'Centre Jurisdiction',
+};
+
+// Spellings invoices use for the same state
+const STATE_ALIASES: Record<string, string> = {
+    'new delhi': '07',
+    'nct of delhi': '07',
+    orissa: '21',
+    pondicherry: '34',
+    'jammu & kashmir': '01',
+    'andaman & nicobar islands': '35',
+};
+
+const GSTIN_CHARS = '0123456789ABCDEFGHIJKLMNOPQRSTUVWXYZ';
+// 2-digit state code, 10-character PAN, entity number, default "Z", check character
+const GSTIN_FORMAT = /^\d{2}[A-Z]{5}\d{4}[A-Z][1-9A-Z][A-Z\d][A-Z\d]$/;
+
+export interface GstinCheck {
+    gstin: string;
+    valid: boolean;
+    stateCode?: string;
+    stateName?: string;
+    /** Why the GSTIN is invalid */
+    error?: string;
+}
+
+export function normalizeGstin(value: string): string {
+    return value.replace(/[\s-]/g, '').toUpperCase();
+}
+
+/**
+ * Check character over the first 14 characters (base-36 Luhn variant)
+ */
+export function gstinCheckCharacter(first14: string): string {
+    let sum = 0;
+    for (let i = 0; i < 14; i++) {
+        const product = GSTIN_CHARS.indexOf(first14[i]) * (i % 2 === 0 ? 1 : 2);
+        sum += Math.floor(product / 36) + (product % 36);
+    }
+    return GSTIN_CHARS[(36 - (sum % 36)) % 36];
+}
+
+export function checkGstin(value: string): GstinCheck {
+    const gstin = normalizeGstin(value);
+    if (!GSTIN_FORMAT.test(gstin)) {
+        return { gstin, valid: false, error: 'not in GSTIN format (15 characters: state code, PAN, entity, Z, check)' };
+    }
+
+    const stateCode = gstin.slice(0, 2);
+    const stateName = GST_STATES[stateCode];
+    if (!stateName) {
+        return { gstin, valid: false, stateCode, error: `unknown state code ${stateCode}` };
+    }
+
+    const expected = gstinCheckCharacter(gstin.slice(0, 14));
+    if (gstin[14] !== expected) {
+        return { gstin, valid: false, stateCode, stateName, error: `check character should be ${expected}, not ${gstin[14]}` };
+    }
+
+    return { gstin, valid: true, stateCode, stateName };
+}
+
+/**
+ * State code of a place of supply written as "27", "27-Maharashtra" or "Maharashtra"
+ */
+export function placeOfSupplyStateCode(placeOfSupply: string): string | undefined {
+    const code = placeOfSupply.match(/^\s*(\d{1,2})\b/)?.[1]?.padStart(2, '0');
+    if (code && GST_STATES[code]) return code;
+
+    const name = placeOfSupply.replace(/^\s*\d{1,2}\s*[-–:]?\s*/, '').replace(/\(.*?\)/g, '').trim().toLowerCase();
+    if (!name) return undefined;
+    if (STATE_ALIASES[name]) return STATE_ALIASES[name];
+    return Object.keys(GST_STATES).find(c => GST_STATES[c].toLowerCase() === name);
+}
+
+// HSN codes (goods) have 4, 6 or 8 digits; SAC codes (services) are 6 digits starting with 99
+export function isValidHsnSac(code: string): boolean {
+    return /^(\d{4}|\d{6}|\d{8})$/.test(code.replace(/\s/g, ''));
+}
+
+export interface GstValues {
+    vendorGstin?: string | null;
+    clientGstin?: string | null;
+    placeOfSupply?: string | null;
+    taxAmount?: number | null;
+    cgstAmount?: number | null;
+    sgstAmount?: number | null;
+    igstAmount?: number | null;
+    lineItems?: Array<{ description?: string; hsnSac?: string | null }> | null;
+}
+
+const isAmount = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value);
+const hasTax = (value: unknown) => isAmount(value) && Math.abs(value) > 0;
+
+export function validateGst(values: GstValues): ValidationFinding[] {
+    const findings: ValidationFinding[] = [];
+
+    const gstins = (['vendorGstin', 'clientGstin'] as const).map(field => {
+        const value = values[field];
+        if (!value) return undefined;
+        const check = checkGstin(value);
+        if (!check.valid) {
+            findings.push({ check: 'gstin', field, message: `${field === 'vendorGstin' ? 'Vendor' : 'Client'} GSTIN ${check.gstin}: ${check.error}` });
+        }
+        return check;
+    });
+    const [vendor, client] = gstins;
+
+    values.lineItems?.forEach((item, i) => {
+        if (item.hsnSac && !isValidHsnSac(item.hsnSac)) {
+            findings.push({
+                check: 'hsn-sac',
+                field: `lineItems[${i}]`,
+                message: `${item.description || `Line ${i + 1}`}: HSN/SAC code "${item.hsnSac}" should have 4, 6 or 8 digits`,
+            });
+        }
+    });
+
+    // Supply within one state is taxed as CGST + SGST, between states as IGST
+    const posState = values.placeOfSupply ? placeOfSupplyStateCode(values.placeOfSupply) : undefined;
+    if (values.placeOfSupply && !posState) {
+        findings.push({ check: 'tax-split', field: 'placeOfSupply', message: `Place of supply "${values.placeOfSupply}" is not a known state` });
+    }
+    const supplierState = vendor?.stateName && vendor.stateCode;
+    const recipientState = posState || (client?.stateName && client.stateCode);
+    const splitTaxed = hasTax(values.cgstAmount) || hasTax(values.sgstAmount);
+    const integratedTaxed = hasTax(values.igstAmount);
+
+    if (supplierState && recipientState && (splitTaxed || integratedTaxed)) {
+        const from = GST_STATES[supplierState];
+        const to = GST_STATES[recipientState];
+        if (supplierState === recipientState && integratedTaxed) {
+            findings.push({ check: 'tax-split', field: 'igstAmount', message: `Intra-state supply (${from}) should be taxed as CGST + SGST, not IGST` });
+        }
+        if (supplierState !== recipientState && splitTaxed) {
+            findings.push({ check: 'tax-split', field: 'cgstAmount', message: `Inter-state supply (${from} → ${to}) should be taxed as IGST, not CGST + SGST` });
+        }
+    }
+
+    // CGST and SGST are always charged at the same rate
+    if (isAmount(values.cgstAmount) && isAmount(values.sgstAmount) && !withinTolerance(values.cgstAmount, values.sgstAmount)) {
+        findings.push({
+            check: 'tax-split',
+            field: 'sgstAmount',
+            message: `CGST ${values.cgstAmount} and SGST ${values.sgstAmount} should be equal`,
+            expected: values.cgstAmount,
+            actual: values.sgstAmount,
+        });
+    }
+
+    // The components add up to the tax amount
+    const components = [values.cgstAmount, values.sgstAmount, values.igstAmount].filter(isAmount);
+    if (components.length > 0 && isAmount(values.taxAmount)) {
+        const sum = Math.round(components.reduce((a, b) => a + b, 0) * 100) / 100;
+        if (!withinTolerance(sum, values.taxAmount)) {
+            findings.push({
+                check: 'tax-split',
+                field: 'taxAmount',
+                message: `CGST + SGST + IGST add up to ${sum}, but the tax amount is ${values.taxAmount}`,
+                expected: sum,
+                actual: values.taxAmount,
+            });
+        }
+    }
+
+    return findings;
+}
@@ -1,12 +1,56 @@
+import { NonRetriableError } from 'inngest';
 import { inngest } from './client';
 import { connectToDatabase } from '../mongoose';
 import FinancialDocument from '../../models/FinancialDocument';
-import { extractFinancialData } from '../mastra';
-import { processAudioComplete, cleanupTempFiles, SUPPORTED_LANGUAGES } from '../audio-processor';
+import { CallAnalysisData, CallAnalysisSchema, extractFinancialData } from '../mastra';
+import {
+    convertToWAV,
+    enhanceAudio,
+    probeAudio,
+    validateAudioMetadata,
+    prepareAudio,
+    planTranscriptionChunks,
+    transcribeWithTranslation,
+    finalizeTranscript,
+    finalizeChannelTranscript,
+    cleanupTempFiles,
+    BilingualTranscription,
+    TranscriptSegment,
+} from '../audio-processor';
+import {
+    ENHANCEMENT_PROFILES,
+    getDefaultEnhancementProfile,
+    isEnhancementProfileName,
+} from '../enhancement-profiles';
+import { getDefaultChannelMode, isChannelMode, shouldSplitChannels } from '../channel-split';
+import { DEFAULT_KEYWORDS, Keyword, keywordVocabulary, spotKeywords } from '../keyword-spotting';
+import KeywordList from '../../models/KeywordList';
+import { PiiRedactor, RedactionType, parseAmount, parseDate, rehydrate } from '../redaction';
+import { decryptPayload, decryptVault, encryptPayload, EncryptedPayload, encryptVault } from '../pii-vault';
+import {
+    findPiiAudioSpans,
+    getAudibleRedactionTypes,
+    getAudioRedactionMode,
+    moveToPrivateStorage,
+    renderRedactedAudio,
+} from '../audio-redaction';
+import { measureCall } from '../call-metrics';
+import { evidenceFields, groundEvidence } from '../evidence';
+import { isAgreementCheckEnabled, KEY_FIELDS, lowConfidenceKeyFields, scoreFields } from '../confidence';
+import {
+    ChunkingInfo,
+    analyzeTranscriptInChunks,
+    estimateTokens,
+    splitTranscript,
+    transcriptTokenBudget,
+} from '../chunked-analysis';
+import { generateWaveform } from '../waveform';
+import { extractDocumentText, hasText, withPageLocations } from '../document-text';
+import { validateInvoice } from '../invoice-validation';
+import { validateGst } from '../gst';
 import fs from 'fs';
 import path from 'path';
-import { Ollama } from 'ollama'; // Local LLM
-import OpenAI from 'openai'; // Keep OpenAI for legacy textual docs if needed, but we use Ollama for audio
+import { LlmAttempt, LlmMessage, StructuredOutputError, completeStructured, getLlm } from '../llm';
 
 // Background function to process financial documents (PDF/Images)
 export const processFinancialDocument = inngest.createFunction(
@@ -20,38 +64,122 @@ export const processFinancialDocument = inngest.createFunction(
     },
     { event: 'app/document.uploaded' },
     async ({ event, step }) => {
-        const { documentId, filePath } = event.data;
+        const { documentId, filePath, fileType } = event.data;
 
-        // Step 1: Read the file content
-        const fileContent = await step.run('read-file', async () => {
+        // Step 1: Extract the text (per page for PDFs; images and scanned pages via OCR)
+        const documentText = await step.run('extract-text', async () => {
             try {
                 if (!fs.existsSync(filePath)) {
                     throw new Error(`File not found at path: ${filePath}`);
                 }
-                return await fs.promises.readFile(filePath, 'utf-8');
+                return await extractDocumentText(filePath, fileType);
             } catch (error: any) {
                 console.error('Error reading file:', error);
                 throw new Error(`Failed to read uploaded file: ${error.message}`);
             }
         });
+        const fileContent = documentText.text;
+        const textExtraction = {
+            method: documentText.method,
+            pageCount: documentText.pageCount,
+            ocrPages: documentText.ocrPages,
+            ocrAppliedPages: documentText.ocrAppliedPages,
+            tableCount: documentText.tableCount,
+            encoding: documentText.encoding,
+        };
+
+        // Scans OCR couldn't read can't be extracted from; keep them marked for OCR
+        if (!hasText(documentText)) {
+            await step.run('mark-needs-ocr', async () => {
+                await connectToDatabase();
+                await FinancialDocument.findByIdAndUpdate(documentId, {
+                    status: 'FAILED',
+                    processingError: documentText.ocrPages.length > 0
+                        ? 'No text layer found and OCR could not read the scanned pages'
+                        : 'No text found in the document',
+                    pages: documentText.pages,
+                    textExtraction,
+                    processedAt: new Date(),
+                });
+            });
+            return { documentId, status: 'failed' };
+        }
 
-        // Step 2: Extract data using AI (Mastra)
-        const extractedData = await step.run('extract-data-with-ai', async () => {
+        // Step 2: Extract data using AI (Mastra), validated against FinancialDocumentSchema
+        const extraction = await step.run('extract-data-with-ai', async () => {
             try {
-                return await extractFinancialData(fileContent);
+                const result = await extractFinancialData(fileContent);
+                const attempts = [...result.attempts];
+
+                // An independent second extraction, compared field by field for confidence (best-effort)
+                let sample: typeof result.data | null = null;
+                if (isAgreementCheckEnabled()) {
+                    try {
+                        const second = await extractFinancialData(fileContent);
+                        sample = second.data;
+                        attempts.push(...second.attempts);
+                    } catch (error: any) {
+                        console.warn('⚠️ Agreement sample failed:', error.message);
+                        if (error instanceof StructuredOutputError) attempts.push(...error.attempts);
+                    }
+                }
+
+                return { data: result.data, sample, repairs: result.attempts.length - 1, attempts };
             } catch (error: any) {
                 console.error('Error extracting data:', error);
+
+                // The repair prompts already ran; record them and stop instead of retrying the step
+                if (error instanceof StructuredOutputError) {
+                    await connectToDatabase();
+                    await FinancialDocument.findByIdAndUpdate(documentId, {
+                        status: 'FAILED',
+                        processingError: `AI Extraction Failed: ${error.message}`,
+                        llmAttempts: error.attempts,
+                        processedAt: new Date(),
+                    });
+                    throw new NonRetriableError(`AI Extraction Failed: ${error.message}`);
+                }
                 throw new Error(`AI Extraction Failed: ${error.message}`);
             }
         });
+        const extractedData = extraction.data;
 
         // Step 3: Update database with extracted data
         await step.run('update-database', async () => {
             await connectToDatabase();
 
             try {
+                const fields = evidenceFields(
+                    extractedData,
+                    [
+                        'invoiceNumber', 'invoiceDate', 'dueDate', 'vendorName', 'vendorAddress', 'clientName', 'clientAddress',
+                        'subtotal', 'taxAmount', 'totalAmount',
+                        'vendorGstin', 'clientGstin', 'placeOfSupply', 'cgstAmount', 'sgstAmount', 'igstAmount',
+                    ],
+                    ['lineItems']
+                );
+                const evidence = withPageLocations(
+                    groundEvidence(fields, extractedData.evidence, { text: fileContent }),
+                    documentText
+                );
+                const confidence = scoreFields({
+                    fields,
+                    data: extractedData,
+                    sample: extraction.sample,
+                    evidence,
+                    repairs: extraction.repairs,
+                });
+                const lowConfidence = lowConfidenceKeyFields(confidence);
+                const validationFindings = [...validateInvoice(extractedData), ...validateGst(extractedData)];
+                if (validationFindings.length > 0) {
+                    console.warn(`⚠️ Invoice figures don't add up: ${validationFindings.map(f => f.message).join('; ')}`);
+                }
+
                 const updateResult = await FinancialDocument.findByIdAndUpdate(documentId, {
-                    status: 'COMPLETED',
+                    // Scanned pages weren't read, so values on them may be missing
+                    status: lowConfidence.length > 0 || validationFindings.length > 0 || documentText.ocrPages.length > 0
+                        ? 'NEEDS_REVIEW'
+                        : 'COMPLETED',
                     documentType: extractedData.documentType,
                     invoiceNumber: extractedData.invoiceNumber,
                     invoiceDate: extractedData.invoiceDate
@@ -69,6 +197,20 @@ export const processFinancialDocument = inngest.createFunction(
                     totalAmount: extractedData.totalAmount,
                     currency: extractedData.currency,
                     lineItems: extractedData.lineItems,
+                    vendorGstin: extractedData.vendorGstin,
+                    clientGstin: extractedData.clientGstin,
+                    placeOfSupply: extractedData.placeOfSupply,
+                    cgstAmount: extractedData.cgstAmount,
+                    sgstAmount: extractedData.sgstAmount,
+                    igstAmount: extractedData.igstAmount,
+                    pages: documentText.pages,
+                    textExtraction,
+                    evidence,
+                    unsupportedFields: evidence.filter(e => !e.supported).map(e => e.field),
+                    confidence,
+                    lowConfidenceFields: lowConfidence,
+                    validationFindings,
+                    llmAttempts: extraction.attempts,
                     processedAt: new Date(),
                 });
 
@@ -95,7 +237,7 @@ export const processFinancialDocument = inngest.createFunction(
     }
 );
 
-// Background function for audio processing with enhanced M4A support and Google Cloud transcription
+// Background function for audio processing with enhanced M4A support and pluggable transcription
 export const processFinancialAudio = inngest.createFunction(
     {
         id: 'process-financial-audio-enhanced',
@@ -107,43 +249,226 @@ export const processFinancialAudio = inngest.createFunction(
     },
     { event: 'app/audio.uploaded' },
     async ({ event, step }) => {
-        const { documentId, filePath, language = 'hi-IN' } = event.data;
+        // `language` is an optional per-upload override; otherwise Whisper detects it
+        const { documentId, filePath, language, transcriber, enhancementProfile, channelMode, organizationId } = event.data;
         let tempFiles: string[] = [];
 
         try {
-            // Step 1: Process Audio (Convert + Denoise + Transcribe)
-            const audioResult = await step.run('process-audio-pipeline', async () => {
+            // Step 0: Probe the recording and stop before any expensive work if it is unusable
+            const audioMetadata = await step.run('probe-audio', async () => {
+                if (!fs.existsSync(filePath)) {
+                    throw new NonRetriableError(`Audio file not found at path: ${filePath}`);
+                }
+
+                const metadata = await probeAudio(filePath).catch((error: Error) => {
+                    throw new NonRetriableError(`Unreadable audio file: ${error.message}`);
+                });
+                const { errors, warnings } = validateAudioMetadata(metadata);
+
+                await connectToDatabase();
+                await FinancialDocument.findByIdAndUpdate(documentId, {
+                    audioMetadata: metadata,
+                    audioWarnings: warnings,
+                    ...(errors.length > 0 ? {
+                        status: 'FAILED',
+                        processingError: errors.join('; '),
+                        processedAt: new Date(),
+                    } : {}),
+                });
+
+                if (errors.length > 0) {
+                    console.error('❌ Audio rejected:', errors.join('; '));
+                    throw new NonRetriableError(`Audio rejected: ${errors.join('; ')}`);
+                }
+                warnings.forEach(w => console.warn(`⚠️ ${w}`));
+                return metadata;
+            });
+
+            // Step 0b: The organisation's keyword list (falls back to the default collections list)
+            const keywords = await step.run('load-keywords', async (): Promise<Keyword[]> => {
+                if (organizationId) {
+                    await connectToDatabase();
+                    const list = await KeywordList.findOne({ organizationId }).lean();
+                    if (list?.keywords?.length) {
+                        return list.keywords.map(k => ({ phrase: k.phrase, aliases: k.aliases, category: k.category }));
+                    }
+                }
+                return DEFAULT_KEYWORDS;
+            });
+            const vocabulary = keywordVocabulary(keywords);
+
+            // Step 1: Prepare Audio (Convert + Enhance)
+            const prepared = await step.run('prepare-audio', async () => {
                 try {
                     if (!fs.existsSync(filePath)) {
                         throw new Error(`Audio file not found at path: ${filePath}`);
                     }
 
                     console.log(`🎵 Processing audio file locally: ${filePath}`);
+                    const profile = isEnhancementProfileName(enhancementProfile)
+                        ? ENHANCEMENT_PROFILES[enhancementProfile]
+                        : getDefaultEnhancementProfile();
+                    // Stereo dialer exports can be transcribed per channel (agent/customer)
+                    const mode = isChannelMode(channelMode) ? channelMode : getDefaultChannelMode();
+                    const split = await shouldSplitChannels(mode, filePath, audioMetadata.channels);
+                    return await prepareAudio(filePath, profile, split);
+                } catch (error: any) {
+                    console.error('Audio processing error:', error);
+                    throw new Error(`Failed to process audio: ${error.message}`);
+                }
+            });
+            tempFiles = prepared.tempFiles;
+            const splitChannels = !!prepared.channels;
+
+            // Step 1b: Split long recordings at silence points (per channel when split)
+            const tracks = await step.run('plan-transcription-chunks', async () => {
+                const sources = prepared.channels || [{ speaker: undefined, path: prepared.cleanPath }];
+                const planned = [];
+                for (const source of sources) {
+                    planned.push({
+                        speaker: source.speaker,
+                        chunks: await planTranscriptionChunks(source.path, prepared.durationSeconds),
+                    });
+                }
+                return planned;
+            });
 
-                    // Call local pipeline (Convert -> Denoise -> Whisper CLI)
-                    const result = await processAudioComplete(filePath, language);
+            // Step 1c: Transcribe each chunk as its own step so a long call can
+            // resume from the last finished chunk instead of starting over.
+            // Inngest stores step outputs, so the raw transcription leaves each step encrypted.
+            const trackResults: Array<{ speaker?: string; chunks: Array<{ start: number; language: string; sealed: EncryptedPayload }> }> = [];
+            for (const track of tracks) {
+                const chunkResults: Array<{ start: number; language: string; sealed: EncryptedPayload }> = [];
+                const stepPrefix = track.speaker ? `transcribe-${track.speaker.toLowerCase()}` : 'transcribe';
+
+                for (const chunk of track.chunks) {
+                    // Later chunks reuse the language detected on the first one
+                    const chunkLanguage = language || chunkResults[0]?.language;
+                    const result = await step.run(`${stepPrefix}-chunk-${chunk.index}`, async () => {
+                        try {
+                            const transcription = await transcribeWithTranslation(chunk.path, chunkLanguage, transcriber, vocabulary);
+                            return { language: transcription.language, sealed: encryptPayload(transcription) };
+                        } catch (error: any) {
+                            console.error(`Transcription error (${track.speaker || 'mixed'} chunk ${chunk.index}):`, error);
+                            throw new Error(`Failed to transcribe audio: ${error.message}`);
+                        }
+                    });
+                    chunkResults.push({ start: chunk.start, ...result });
+                }
+                trackResults.push({ speaker: track.speaker, chunks: chunkResults });
+            }
 
-                    if (!result.transcript || result.transcript.trim().length === 0) {
-                        throw new Error('Transcription resulted in empty text');
-                    }
+            // Step 1d: Merge chunks (with time offsets) and diarize, or interleave channels,
+            // then redact PII before anything reaches an LLM. Only redacted text and
+            // encrypted data leave this step.
+            const redacted = await step.run('merge-transcript', async () => {
+                const unsealed = trackResults.map(t => ({
+                    speaker: t.speaker,
+                    chunks: t.chunks.map(c => ({ start: c.start, result: decryptPayload<BilingualTranscription>(c.sealed) })),
+                }));
+                const result = splitChannels
+                    ? finalizeChannelTranscript(unsealed.map(t => ({ speaker: t.speaker!, chunks: t.chunks })))
+                    : await finalizeTranscript(prepared.cleanPath, unsealed[0].chunks);
+
+                if (!result.transcript || result.transcript.trim().length === 0) {
+                    throw new Error('Transcription resulted in empty text');
+                }
 
-                    return {
-                        transcript: result.transcript,
-                        cleanPath: result.cleanPath,
-                        tempFiles: result.tempFiles
-                    };
+                const sourcePaths = [prepared.cleanPath, ...(prepared.channels || []).map(c => c.path)];
+                cleanupTempFiles(tracks.flatMap(t => t.chunks.map(c => c.path)).filter(p => !sourcePaths.includes(p)));
+
+                const redactor = new PiiRedactor();
+                const output = {
+                    transcript: redactor.redact(result.transcript),
+                    segments: redactor.redactSegments(result.segments),
+                    speakerTranscript: redactor.redact(result.speakerTranscript),
+                    nativeTranscript: redactor.redact(result.nativeTranscript),
+                    vault: encryptVault(redactor.vault),
+                    summary: redactor.summary(),
+                    // Unredacted segments, for keyword spotting and locating the PII to beep
+                    sealedSegments: encryptPayload({ segments: result.segments, nativeSegments: result.nativeSegments }),
+                    language: result.language,
+                    cleanPath: prepared.cleanPath,
+                };
+                console.log(`🛡️ Redacted ${output.vault.tokenCount} sensitive value(s)`);
+                return output;
+            });
+            const unsealSegments = () => decryptPayload<{ segments: TranscriptSegment[]; nativeSegments: TranscriptSegment[] }>(
+                redacted.sealedSegments
+            );
+
+            // Step 1d2: Spot keywords in the English and (for non-English calls) native transcripts
+            const keywordHits = await step.run('spot-keywords', async () => {
+                const { segments, nativeSegments } = unsealSegments();
+                const hits = spotKeywords(keywords, [
+                    { source: 'english', segments },
+                    ...(redacted.language.startsWith('en') ? [] : [{ source: 'native' as const, segments: nativeSegments }]),
+                ]);
+                console.log(`🔎 Keyword spotting: ${hits.length} hit(s)`);
+                return hits;
+            });
+
+            // Step 1e: Voice activity detection and call-quality metrics (best-effort)
+            const callMetrics = await step.run('measure-call', async () => {
+                try {
+                    return await measureCall(prepared.cleanPath, prepared.durationSeconds, redacted.segments, splitChannels);
                 } catch (error: any) {
-                    console.error('Audio processing error:', error);
-                    throw new Error(`Failed to process audio: ${error.message}`);
+                    console.error('⚠️ Call metrics failed, continuing without them:', error.message);
+                    return null;
                 }
             });
 
-            // Step 2: Analyze transcript with Ollama (Local Llama 3.2)
-            const analysisData = await step.run('analyze-transcript', async () => {
+            // Step 1f: Waveform peaks for the review player (best-effort)
+            const waveformUrl = await step.run('generate-waveform', async () => {
                 try {
-                    console.log('🤖 Analyzing transcript with Local Ollama (Anti-Gravity)...');
+                    const peaksPath = prepared.cleanPath.replace(/\.wav$/i, '.peaks.json');
+                    await generateWaveform(prepared.cleanPath, peaksPath);
+                    return `/uploads/${path.basename(peaksPath)}`;
+                } catch (error: any) {
+                    console.error('⚠️ Waveform generation failed:', error.message);
+                    return null;
+                }
+            });
+
+            // Step 1g: Beep the spoken PII in a shareable rendition and move the
+            // unredacted recordings out of public/ (rendering is best-effort, the move is not)
+            const audioRedaction = await step.run('redact-audio', async () => {
+                const mode = getAudioRedactionMode();
+                const types = getAudibleRedactionTypes();
+                const spans = findPiiAudioSpans(unsealSegments().segments, decryptVault(redacted.vault), types);
+                const redactedPath = redacted.cleanPath.replace(/(\.[^.]+)?$/, '_redacted.wav');
 
-                    const ollama = new Ollama(); // connects to localhost:11434 by default
+                let error: string | undefined;
+                try {
+                    await renderRedactedAudio(redacted.cleanPath, spans, redactedPath, mode);
+                } catch (err: any) {
+                    console.error('⚠️ Audio redaction failed, only gated audio will be available:', err.message);
+                    error = err.message;
+                }
+
+                const sourceFile = moveToPrivateStorage(filePath);
+                const enhancedFile = redacted.cleanPath === filePath
+                    ? sourceFile
+                    : moveToPrivateStorage(redacted.cleanPath);
+
+                return {
+                    mode,
+                    types,
+                    spans,
+                    status: error ? 'FAILED' as const : 'COMPLETED' as const,
+                    error,
+                    sourceFile,
+                    enhancedFile,
+                    redactedAudioUrl: error ? undefined : `/uploads/${path.basename(redactedPath)}`,
+                };
+            });
+
+            // Step 2: Analyze transcript (local Ollama Llama 3.2 unless LLM_CALL_ANALYSIS_* says otherwise)
+            const analysisResult = await step.run('analyze-transcript', async () => {
+                let attempts: LlmAttempt[] = [];
+                try {
+                    const llm = getLlm('call-analysis');
+                    console.log(`🤖 Analyzing transcript with ${llm.name} (${llm.config.model})...`);
 
                     const SYSTEM_PROMPT = `
 You are a highly intelligent financial analyst AI. Your task is to extract structured financial data from a conversation transcript.
@@ -154,6 +479,8 @@ You are a highly intelligent financial analyst AI. Your task is to extract struc
 3.  Do NOT include any introductory or concluding text.
 4.  If a field is not mentioned, use null or an empty array [].
 5.  **Sentiment** must be one of: "Positive", "Neutral", "Negative".
+6.  The transcript is redacted. Placeholders such as [MONEY_1], [DATE_1], [RATE_1], [DETAIL_1], [NAME_1] and [ORG_1] stand for hidden values. Copy a placeholder verbatim wherever its value belongs (e.g. "totalAmount": "[MONEY_1]") and never guess what it hides.
+7.  **Evidence:** for every value you fill in (vendorName, clientName, totalAmount, dueDate, intent, emotionalState, and each entry of financialEvents and complianceNotes), add an "evidence" entry quoting the exact words from the transcript that support it, placeholders included. Use "financialEvents[0]", "complianceNotes[1]", ... for list entries. Quote, do not paraphrase; leave out values you cannot quote.
 
 **DATA SCHEMAS:**
 - **Money:** formatted as string (e.g., "₹5 Lakhs", "$500").
@@ -178,58 +505,73 @@ You are a highly intelligent financial analyst AI. Your task is to extract struc
   "clientName": null,
   "totalAmount": null,
   "currency": "USD",
-  "dueDate": null
+  "dueDate": null,
+  "evidence": [{"field": "totalAmount", "quote": "I can pay [MONEY_1] by Friday"}, {"field": "financialEvents[0]", "quote": "Exact words"}]
 }
 `;
 
-                    const response = await ollama.chat({
-                        model: 'llama3.2', // Ensure this model is pulled
-                        messages: [
-                            { role: 'system', content: SYSTEM_PROMPT },
-                            { role: 'user', content: `Analyze the following transcript:\n\n"${audioResult.transcript}"` }
-                        ],
-                        format: 'json', // Enforce JSON mode
-                        stream: false
-                    });
-
-                    const responseText = response.message.content;
-                    console.log("Raw Ollama Response:", responseText);
+                    // Transcripts longer than the model's window are analysed in chunks and merged
+                    const budget = transcriptTokenBudget(llm.config.contextTokens, estimateTokens(SYSTEM_PROMPT) + 100);
+                    if (estimateTokens(redacted.speakerTranscript) > budget) {
+                        const chunks = splitTranscript(redacted.speakerTranscript, budget);
+                        console.log(`📏 Transcript exceeds the ${llm.config.contextTokens}-token context; analyzing ${chunks.length} chunks`);
+                        const chunked = await analyzeTranscriptInChunks(llm, SYSTEM_PROMPT, chunks);
+                        attempts = chunked.attempts;
+                        console.log(`✅ Chunked analysis complete (${chunked.attempts.length} attempt(s))`);
+
+                        // No agreement sample here: it would repeat every chunk
+                        return {
+                            data: chunked.data,
+                            sample: null,
+                            repairs: chunked.repairs,
+                            attempts,
+                            chunking: chunked.chunking as ChunkingInfo | null,
+                            error: null as string | null,
+                        };
+                    }
 
-                    // Robust JSON Parsing
-                    let analysis;
-                    try {
-                        // 1. Try direct parse
-                        analysis = JSON.parse(responseText);
-                    } catch (e) {
-                        console.warn("⚠️ Direct JSON parse failed. Attempting cleanup...");
-                        // 2. Try stripping markdown code blocks
-                        const cleanText = responseText.replace(/```json\n|\n```|```/g, '').trim();
+                    // JSON mode, validated against CallAnalysisSchema with repair prompts on failure
+                    const messages: LlmMessage[] = [
+                        { role: 'system', content: SYSTEM_PROMPT },
+                        { role: 'user', content: `Analyze the following transcript. Each line is prefixed with the speaker (Agent or Customer):\n\n${redacted.speakerTranscript}` }
+                    ];
+                    const result = await completeStructured(llm, 'call-analysis', messages, CallAnalysisSchema);
+                    attempts = [...result.attempts];
+                    console.log(`✅ Analysis complete (${result.attempts.length} attempt(s))`);
+
+                    // An independent second answer, compared field by field for confidence (best-effort)
+                    let sample: CallAnalysisData | null = null;
+                    if (isAgreementCheckEnabled()) {
                         try {
-                            analysis = JSON.parse(cleanText);
-                        } catch (e2) {
-                            console.error("❌ Failed to parse JSON even after cleanup.", e2);
-                            throw new Error("Invalid JSON extraction from LLM.");
+                            const second = await completeStructured(llm, 'call-analysis', messages, CallAnalysisSchema);
+                            sample = second.data;
+                            attempts.push(...second.attempts);
+                        } catch (error: any) {
+                            console.warn('⚠️ Agreement sample failed:', error.message);
+                            if (error instanceof StructuredOutputError) attempts.push(...error.attempts);
                         }
                     }
 
-                    console.log('✅ Analysis complete');
-                    return analysis;
+                    return { data: result.data, sample, repairs: result.attempts.length - 1, attempts, chunking: null, error: null };
 
                 } catch (error: any) {
                     console.error('Analysis error:', error);
+                    if (error instanceof StructuredOutputError) attempts = error.attempts;
+
                     // Provide a partial result so we don't fail the whole job
-                    return {
+                    const fallback: CallAnalysisData = {
                         summary: "Analysis failed due to LLM error. Please review the transcript manually.",
-                        processingError: error.message,
-                        // Return empty defaults to avoid DB update failures
                         sentiment: "Neutral",
                         speakers: [],
                         topics: [],
                         financialEvents: [],
-                        complianceNotes: []
+                        complianceNotes: [],
+                        evidence: []
                     };
+                    return { data: fallback, sample: null, repairs: attempts.length, attempts, chunking: null, error: error.message as string };
                 }
             });
+            const analysisData = analysisResult.data;
 
             // Step 3: Update database
             await step.run('update-database', async () => {
@@ -240,83 +582,120 @@ You are a highly intelligent financial analyst AI. Your task is to extract struc
                 try {
                     console.log('📄 Updating document:', documentId);
 
-                    // Normalize sentiment to match Schema Enum
-                    let sentiment = analysisData.sentiment;
-                    const validSentiments = ['Positive', 'Neutral', 'Negative'];
-
-                    if (sentiment && typeof sentiment === 'string' && sentiment.trim().length > 0) {
-                        // Capitalize first letter, lowercase rest
-                        sentiment = sentiment.charAt(0).toUpperCase() + sentiment.slice(1).toLowerCase();
-                        if (!validSentiments.includes(sentiment)) {
-                            console.warn(`⚠️ Invalid sentiment "${analysisData.sentiment}" received. Defaulting to Neutral.`);
-                            sentiment = 'Neutral';
-                        }
-                    } else {
-                        // Default to Neutral if missing or empty string to avoid Validation Error
-                        sentiment = 'Neutral';
+                    // Put the real values back into the LLM output before storing it
+                    const vault = decryptVault(redacted.vault);
+                    const analysis = rehydrate(analysisData, vault);
+                    const chunking = analysisResult.chunking && rehydrate(analysisResult.chunking, vault);
+
+                    // Quotes are matched against the redacted segments the model saw (and that we store)
+                    const fields = evidenceFields(
+                        analysisData,
+                        ['vendorName', 'clientName', 'totalAmount', 'dueDate', 'intent', 'emotionalState'],
+                        ['financialEvents', 'complianceNotes']
+                    );
+                    const evidence = groundEvidence(fields, analysisData.evidence, { segments: redacted.segments });
+
+                    // Low confidence in a key field (or no analysis at all) sends the call to the review queue
+                    const confidence = scoreFields({
+                        fields,
+                        data: analysisData,
+                        sample: analysisResult.sample,
+                        evidence,
+                        repairs: analysisResult.repairs,
+                        segments: redacted.segments,
+                    });
+                    const lowConfidence = lowConfidenceKeyFields(confidence);
+
+                    // Chunks that failed, or that disagree on a key field, also need a human look
+                    const chunkProblems = chunking ? [
+                        ...chunking.failedChunks.map(i => `chunk ${i + 1} failed`),
+                        ...chunking.conflicts
+                            .filter(c => (KEY_FIELDS as readonly string[]).includes(c.field))
+                            .map(c => `chunks disagree on ${c.field}`),
+                    ] : [];
+
+                    const reviewReasons = analysisResult.error
+                        ? ['analysis failed']
+                        : [...(lowConfidence.length > 0 ? [`low confidence in ${lowConfidence.join(', ')}`] : []), ...chunkProblems];
+                    const needsReview = reviewReasons.length > 0;
+                    if (needsReview) {
+                        console.warn(`⚠️ Needs review: ${reviewReasons.join('; ')}`);
                     }
 
-                    // Helper to normalize array fields (handle strings, arrays of objects, etc.)
-                    const normalizeStringArray = (input: any): string[] => {
-                        if (!input) return [];
-
-                        let arr = input;
-                        // specific handling if it's a string looking like an array
-                        if (typeof input === 'string') {
-                            try {
-                                const parsed = JSON.parse(input);
-                                if (Array.isArray(parsed)) arr = parsed;
-                                else return [input];
-                            } catch (e) {
-                                return [input];
-                            }
-                        }
-
-                        if (!Array.isArray(arr)) {
-                            return [String(arr)];
-                        }
-
-                        return arr.map((item: any) => {
-                            if (typeof item === 'string') return item;
-                            if (typeof item === 'object' && item !== null) {
-                                // Extract common fields if present, else stringify
-                                const distinctValues = [item.description, item.amount, item.value, item.item, item.risk, item.action]
-                                    .filter(v => v && typeof v === 'string' || typeof v === 'number');
-
-                                if (distinctValues.length > 0) {
-                                    return distinctValues.join(': ');
-                                }
-                                return JSON.stringify(item);
-                            }
-                            return String(item);
-                        });
-                    };
+                    const diarizedSpeakers = Array.from(new Set(
+                        redacted.segments.map(s => s.speaker).filter((s): s is string => !!s)
+                    ));
 
                     const updateData = {
-                        status: 'COMPLETED',
+                        status: needsReview ? 'NEEDS_REVIEW' : 'COMPLETED',
                         // Store transcript
-                        transcript: audioResult.transcript,
+                        // Transcripts are stored redacted; the vault holds the originals
+                        transcript: redacted.transcript,
+                        segments: redacted.segments,
+                        nativeTranscript: redacted.nativeTranscript,
+                        piiVault: redacted.vault,
+                        redactionSummary: redacted.summary,
+                        // What the model wrote for the parsed fields, placeholders and all
+                        redactedSources: {
+                            totalAmount: analysisData.totalAmount == null ? undefined : String(analysisData.totalAmount),
+                            dueDate: analysisData.dueDate || undefined,
+                        },
+                        callMetrics: callMetrics || undefined,
+                        waveformUrl: waveformUrl || undefined,
+                        language: redacted.language,
+                        languageSource: language ? 'override' : 'detected',
+                        speakerSource: splitChannels ? 'channels' : 'diarization',
+                        keywordHits,
+                        keywordsMatched: Array.from(new Set(keywordHits.map(h => h.keyword))),
                         // Store audio analysis
-                        sentiment: sentiment,
-                        speakers: normalizeStringArray(analysisData.speakers),
-                        topics: normalizeStringArray(analysisData.topics),
+                        sentiment: analysis.sentiment,
+                        // Prefer diarized speaker turns over the names the LLM guessed
+                        speakers: diarizedSpeakers.length > 0 ? diarizedSpeakers : analysis.speakers,
+                        topics: analysis.topics,
                         // Store financial data
-                        documentType: analysisData.documentType || 'Audio Call',
-                        vendorName: analysisData.vendorName,
-                        clientName: analysisData.clientName,
-                        totalAmount: analysisData.totalAmount,
-                        currency: analysisData.currency || 'USD',
-                        dueDate: analysisData.dueDate,
+                        documentType: analysis.documentType || 'Audio Call',
+                        vendorName: analysis.vendorName,
+                        clientName: analysis.clientName,
+                        totalAmount: parseAmount(analysis.totalAmount),
+                        currency: analysis.currency || 'USD',
+                        dueDate: parseDate(analysis.dueDate),
                         // Store call analysis
-                        intent: typeof analysisData.intent === 'string' ? analysisData.intent : JSON.stringify(analysisData.intent),
-                        financialEvents: normalizeStringArray(analysisData.financialEvents),
-                        emotionalState: analysisData.emotionalState,
-                        complianceNotes: normalizeStringArray(analysisData.complianceNotes),
+                        intent: analysis.intent,
+                        financialEvents: analysis.financialEvents,
+                        emotionalState: analysis.emotionalState,
+                        complianceNotes: analysis.complianceNotes,
+                        evidence,
+                        unsupportedFields: evidence.filter(e => !e.supported).map(e => e.field),
+                        confidence,
+                        lowConfidenceFields: lowConfidence,
+                        llmAttempts: analysisResult.attempts,
+                        analysisChunking: chunking || undefined,
                         processedAt: new Date(),
-                        enhancedAudioUrl: audioResult.cleanPath ? `/uploads/${path.basename(audioResult.cleanPath)}` : undefined,
+                        // Unredacted recordings are only served through the role-checked audio route
+                        fileUrl: `/api/documents/${documentId}/audio?variant=original`,
+                        enhancedAudioUrl: `/api/documents/${documentId}/audio?variant=enhanced`,
+                        redactedAudioUrl: audioRedaction.redactedAudioUrl,
+                        audioRedaction: {
+                            mode: audioRedaction.mode,
+                            types: audioRedaction.types,
+                            spans: audioRedaction.spans,
+                            status: audioRedaction.status,
+                            error: audioRedaction.error,
+                            sourceFile: audioRedaction.sourceFile,
+                            enhancedFile: audioRedaction.enhancedFile,
+                            createdAt: new Date(),
+                        },
+                        enhancement: {
+                            profile: prepared.enhancement.profile,
+                            profileVersion: prepared.enhancement.profileVersion,
+                            status: prepared.enhancement.applied ? 'COMPLETED' : 'FAILED',
+                            error: prepared.enhancement.applied ? undefined : 'Enhancement failed; original audio used',
+                            appliedAt: new Date(),
+                        },
                     };
 
-                    console.log('📝 Update payload:', JSON.stringify(updateData, null, 2));
+                    // Field names only: the payload holds the re-hydrated (unredacted) values
+                    console.log('📝 Update payload fields:', Object.keys(updateData).join(', '));
 
                     const updateResult = await FinancialDocument.findByIdAndUpdate(documentId, updateData, { new: true, runValidators: true });
 
@@ -350,8 +729,8 @@ You are a highly intelligent financial analyst AI. Your task is to extract struc
             await step.run('cleanup', async () => {
                 if (tempFiles.length > 0) {
                     // IMPORTANT: Do NOT delete the 'cleanPath' file as we are now serving it
-                    // Filter out the cleanPath from tempFiles before deleting
-                    const filesToDelete = tempFiles.filter(f => f !== audioResult.cleanPath);
+                    // (from private storage). Filter out the cleanPath from tempFiles before deleting
+                    const filesToDelete = tempFiles.filter(f => f !== redacted.cleanPath);
                     cleanupTempFiles(filesToDelete);
                 }
             });
@@ -359,7 +738,7 @@ You are a highly intelligent financial analyst AI. Your task is to extract struc
             return {
                 documentId,
                 status: 'completed',
-                transcriptLength: audioResult.transcript.length,
+                transcriptLength: redacted.transcript.length,
             };
 
         } catch (error: any) {
@@ -371,3 +750,105 @@ You are a highly intelligent financial analyst AI. Your task is to extract struc
         }
     }
 );
+
+// Background function to re-run enhancement with a different profile (requested from the review page)
+export const reenhanceFinancialAudio = inngest.createFunction(
+    {
+        id: 'reenhance-financial-audio',
+        name: 'Re-run Audio Enhancement',
+        throttle: {
+            limit: 2,
+            period: '1m',
+        },
+    },
+    { event: 'app/audio.enhance.requested' },
+    async ({ event, step }) => {
+        const { documentId, filePath, profile: profileName } = event.data;
+        const profile = isEnhancementProfileName(profileName)
+            ? ENHANCEMENT_PROFILES[profileName]
+            : getDefaultEnhancementProfile();
+
+        // Step 1: Convert the original upload and apply the requested profile
+        const enhancement = await step.run('enhance-audio', async () => {
+            if (!fs.existsSync(filePath)) {
+                throw new Error(`Audio file not found at path: ${filePath}`);
+            }
+
+            const wavPath = await convertToWAV(filePath);
+            const result = await enhanceAudio(wavPath, profile);
+
+            // Keep the converted WAV only if it is what we're serving ('none' profile)
+            if (wavPath !== filePath && result.path !== wavPath) {
+                cleanupTempFiles([wavPath]);
+            }
+            return result;
+        });
+
+        // Step 2: Re-beep the stored PII spans in the new rendition (documents
+        // processed with audio redaction keep their enhanced audio private)
+        const redaction = await step.run('redact-audio', async () => {
+            if (!enhancement.applied) return null;
+
+            await connectToDatabase();
+            const document = await FinancialDocument.findById(documentId).select('audioRedaction').lean();
+            const stored = document?.audioRedaction;
+            if (!stored) return null;
+
+            const redactedPath = path.join(
+                process.cwd(), 'public', 'uploads',
+                path.basename(enhancement.path).replace(/(\.[^.]+)?$/, '_redacted.wav')
+            );
+            const result: { enhancedFile: string; redactedAudioUrl?: string; error?: string } = {
+                enhancedFile: path.basename(enhancement.path),
+            };
+            try {
+                const spans = stored.spans.map(s => ({ start: s.start, end: s.end, type: s.type as RedactionType }));
+                await renderRedactedAudio(enhancement.path, spans, redactedPath, stored.mode);
+                result.redactedAudioUrl = `/uploads/${path.basename(redactedPath)}`;
+            } catch (error: any) {
+                console.error('⚠️ Audio redaction failed for the new rendition:', error.message);
+                result.error = error.message;
+            }
+            return result;
+        });
+
+        // Step 3: Record the new rendition and which profile produced it
+        await step.run('update-database', async () => {
+            await connectToDatabase();
+
+            const rendition = redaction
+                ? {
+                    enhancedAudioUrl: `/api/documents/${documentId}/audio?variant=enhanced`,
+                    redactedAudioUrl: redaction.redactedAudioUrl,
+                    'audioRedaction.enhancedFile': redaction.enhancedFile,
+                    'audioRedaction.status': redaction.error ? 'FAILED' : 'COMPLETED',
+                    'audioRedaction.error': redaction.error,
+                }
+                : { enhancedAudioUrl: `/uploads/${path.basename(enhancement.path)}` };
+
+            const update = enhancement.applied
+                ? {
+                    ...rendition,
+                    enhancement: {
+                        profile: enhancement.profile,
+                        profileVersion: enhancement.profileVersion,
+                        status: 'COMPLETED',
+                        appliedAt: new Date(),
+                    },
+                }
+                : {
+                    // Keep serving the previous rendition
+                    'enhancement.status': 'FAILED',
+                    'enhancement.error': `Enhancement with profile "${enhancement.profile}" failed`,
+                };
+
+            const updateResult = await FinancialDocument.findByIdAndUpdate(documentId, update);
+            if (!updateResult) {
+                throw new Error(`Document with ID ${documentId} not found`);
+            }
+            return { success: true };
+        });
+
+        return { documentId, profile: enhancement.profile, applied: enhancement.applied };
+    }
+);
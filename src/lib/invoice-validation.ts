@@ -0,0 +1,114 @@
+import { parseDate } from './redaction';
+
+/**
+ * Arithmetic checks of extracted invoices: line totals, subtotal, grand total
+ * and the due date. The LLM reads each number on its own, so a misread digit
+ * or a missed line item only shows up when the figures are added up.
+ * Kept free of Node imports so corrections can be re-checked anywhere.
+ * GST-specific checks live in gst.ts.
+ */
+
+export type ValidationCheck = 'line-total' | 'subtotal' | 'total' | 'due-date' | 'gstin' | 'hsn-sac' | 'tax-split';
+
+export interface ValidationFinding {
+    check: ValidationCheck;
+    /** Field path the finding is about, e.g. 'lineItems[2]' or 'totalAmount' */
+    field: string;
+    message: string;
+    /** Value the other figures add up to */
+    expected?: number;
+    /** Value on the document */
+    actual?: number;
+}
+
+export interface InvoiceValues {
+    invoiceDate?: string | Date | null;
+    dueDate?: string | Date | null;
+    subtotal?: number | null;
+    taxAmount?: number | null;
+    totalAmount?: number | null;
+    lineItems?: Array<{ description?: string; quantity?: number; unitPrice?: number; totalPrice?: number }> | null;
+}
+
+// Differences up to a currency unit are rounding (or a round-off line), as are
+// relative differences below this share of the amount
+const ABSOLUTE_TOLERANCE = 1;
+const RELATIVE_TOLERANCE = 0.001;
+
+const isNumber = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value);
+const round = (value: number) => Math.round(value * 100) / 100;
+
+export function withinTolerance(expected: number, actual: number): boolean {
+    return Math.abs(expected - actual) <= Math.max(ABSOLUTE_TOLERANCE, Math.abs(expected) * RELATIVE_TOLERANCE);
+}
+
+export function validateInvoice(values: InvoiceValues): ValidationFinding[] {
+    const findings: ValidationFinding[] = [];
+    const lineItems = values.lineItems || [];
+
+    // quantity × unit price = line total
+    lineItems.forEach((item, i) => {
+        if (!isNumber(item.quantity) || !isNumber(item.unitPrice) || !isNumber(item.totalPrice)) return;
+        const expected = round(item.quantity * item.unitPrice);
+        if (!withinTolerance(expected, item.totalPrice)) {
+            findings.push({
+                check: 'line-total',
+                field: `lineItems[${i}]`,
+                message: `${item.description || `Line ${i + 1}`}: ${item.quantity} × ${item.unitPrice} = ${expected}, not ${item.totalPrice}`,
+                expected,
+                actual: item.totalPrice,
+            });
+        }
+    });
+
+    // Line totals add up to the subtotal (or, without subtotal and tax, to the total)
+    const lineTotals = lineItems.map(item => item.totalPrice).filter(isNumber);
+    if (lineTotals.length > 0 && lineTotals.length === lineItems.length) {
+        const sum = round(lineTotals.reduce((a, b) => a + b, 0));
+        const target = isNumber(values.subtotal)
+            ? { field: 'subtotal', label: 'subtotal', value: values.subtotal }
+            : !isNumber(values.taxAmount) && isNumber(values.totalAmount)
+                ? { field: 'totalAmount', label: 'total', value: values.totalAmount }
+                : null;
+
+        if (target && !withinTolerance(sum, target.value)) {
+            findings.push({
+                check: 'subtotal',
+                field: target.field,
+                message: `Line items add up to ${sum}, but the ${target.label} is ${target.value}`,
+                expected: sum,
+                actual: target.value,
+            });
+        }
+    }
+
+    // subtotal + tax = total
+    if (isNumber(values.subtotal) && isNumber(values.totalAmount)) {
+        const tax = isNumber(values.taxAmount) ? values.taxAmount : 0;
+        const expected = round(values.subtotal + tax);
+        if (!withinTolerance(expected, values.totalAmount)) {
+            findings.push({
+                check: 'total',
+                field: 'totalAmount',
+                message: isNumber(values.taxAmount)
+                    ? `Subtotal ${values.subtotal} + tax ${values.taxAmount} = ${expected}, but the total is ${values.totalAmount}`
+                    : `Subtotal ${values.subtotal} differs from the total ${values.totalAmount} and no tax was extracted`,
+                expected,
+                actual: values.totalAmount,
+            });
+        }
+    }
+
+    // The due date can't be before the invoice date
+    const invoiceDate = values.invoiceDate ? parseDate(values.invoiceDate) : undefined;
+    const dueDate = values.dueDate ? parseDate(values.dueDate) : undefined;
+    if (invoiceDate && dueDate && dueDate.getTime() < invoiceDate.getTime()) {
+        findings.push({
+            check: 'due-date',
+            field: 'dueDate',
+            message: `Due date ${dueDate.toISOString().slice(0, 10)} is before the invoice date ${invoiceDate.toISOString().slice(0, 10)}`,
+        });
+    }
+
+    return findings;
+}
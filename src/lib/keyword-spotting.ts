@@ -0,0 +1,134 @@
+import type { TranscriptSegment } from './transcribers/types';
+
+/**
+ * Phrase spotting for collections calls. Each organisation keeps its own
+ * keyword list (lender names, product terms); the same list doubles as the
+ * Whisper initial prompt so rare words are transcribed the way we search for them.
+ */
+
+export interface Keyword {
+    /** Canonical phrase reported on a hit, e.g. 'stop calling' */
+    phrase: string;
+    /** Other spellings/scripts that count as the same phrase */
+    aliases?: string[];
+    category?: string;
+}
+
+export interface KeywordHit {
+    keyword: string;
+    category?: string;
+    /** Text as it appears in the transcript */
+    matched: string;
+    /** Estimated from the match's position inside its segment */
+    start: number;
+    end: number;
+    segmentId: number;
+    speaker?: string;
+    /** Which transcript the hit was found in */
+    source: 'english' | 'native';
+}
+
+// Used when an organisation has not configured its own list
+export const DEFAULT_KEYWORDS: Keyword[] = [
+    { phrase: 'settlement', aliases: ['settle'], category: 'payment' },
+    { phrase: 'bankruptcy', aliases: ['bankrupt', 'insolvency', 'diwaliya', 'दिवालिया'], category: 'legal' },
+    { phrase: 'lawyer', aliases: ['attorney', 'advocate', 'vakil', 'वकील'], category: 'legal' },
+    { phrase: 'stop calling', aliases: ["don't call", 'do not call'], category: 'complaint' },
+    { phrase: 'kist', aliases: ['qist', 'किस्त'], category: 'payment' },
+    { phrase: 'byaaj', aliases: ['byaj', 'ब्याज'], category: 'payment' },
+];
+
+// Whisper only looks at the last ~224 tokens of the prompt
+const MAX_PROMPT_CHARS = 600;
+
+// Letters, combining marks (Indic vowel signs) and digits form words
+const WORD_CHAR = '[\\p{L}\\p{M}\\p{N}]';
+
+/**
+ * Whisper initial prompt listing the vocabulary to bias towards
+ */
+export function buildVocabularyPrompt(terms: string[]): string {
+    const unique = Array.from(new Set(terms.map(t => t.trim()).filter(Boolean)));
+    if (unique.length === 0) return '';
+
+    let prompt = 'Glossary:';
+    for (const term of unique) {
+        const next = `${prompt} ${term},`;
+        if (next.length > MAX_PROMPT_CHARS) break;
+        prompt = next;
+    }
+    return prompt.replace(/,$/, '.');
+}
+
+/**
+ * Every phrase and alias, for vocabulary biasing
+ */
+export function keywordVocabulary(keywords: Keyword[]): string[] {
+    return keywords.flatMap(k => [k.phrase, ...(k.aliases || [])]);
+}
+
+function escapeRegExp(value: string): string {
+    return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+function phrasePattern(phrase: string): RegExp {
+    // Words may be separated by any run of spaces or punctuation ("stop, calling")
+    const body = phrase
+        .normalize('NFC')
+        .trim()
+        .split(/\s+/)
+        .map(escapeRegExp)
+        .join('[\\s\\p{P}]+');
+    return new RegExp(`(?<!${WORD_CHAR})${body}(?!${WORD_CHAR})`, 'giu');
+}
+
+/**
+ * Find keyword occurrences in transcript segments. A hit found in both the
+ * English and native transcripts at overlapping times is reported once.
+ */
+export function spotKeywords(
+    keywords: Keyword[],
+    transcripts: Array<{ source: KeywordHit['source']; segments: TranscriptSegment[] }>
+): KeywordHit[] {
+    const hits: KeywordHit[] = [];
+
+    for (const { source, segments } of transcripts) {
+        for (const keyword of keywords) {
+            const patterns = [keyword.phrase, ...(keyword.aliases || [])].filter(Boolean).map(phrasePattern);
+
+            for (const seg of segments) {
+                const text = seg.text.normalize('NFC');
+                const duration = Math.max(0, seg.end - seg.start);
+
+                for (const pattern of patterns) {
+                    for (const match of text.matchAll(pattern)) {
+                        const offset = match.index ?? 0;
+                        const start = Number((seg.start + (duration * offset) / Math.max(1, text.length)).toFixed(2));
+                        const end = Number(Math.min(seg.end, start + (duration * match[0].length) / Math.max(1, text.length)).toFixed(2));
+
+                        // Same spot in the same transcript, or the other transcript's version of this moment
+                        const duplicate = hits.some(h => h.keyword === keyword.phrase && (
+                            h.source === source
+                                ? h.segmentId === seg.id && h.start === start
+                                : h.start < seg.end && seg.start < h.end
+                        ));
+                        if (duplicate) continue;
+
+                        hits.push({
+                            keyword: keyword.phrase,
+                            category: keyword.category,
+                            matched: match[0],
+                            start,
+                            end,
+                            segmentId: seg.id,
+                            speaker: seg.speaker,
+                            source,
+                        });
+                    }
+                }
+            }
+        }
+    }
+
+    return hits.sort((a, b) => a.start - b.start);
+}
@@ -0,0 +1,56 @@
+/**
+ * Spoken languages we expect on uploaded calls. Kept free of Node imports so
+ * client components can render the language picker from the same list.
+ */
+export const SUPPORTED_LANGUAGES = {
+    'Hindi': 'hi-IN',
+    'Tamil': 'ta-IN',
+    'Telugu': 'te-IN',
+    'Bengali': 'bn-IN',
+    'Marathi': 'mr-IN',
+    'Gujarati': 'gu-IN',
+    'Kannada': 'kn-IN',
+    'Malayalam': 'ml-IN',
+    'Punjabi': 'pa-Guru-IN',
+    'Urdu': 'ur-IN',
+    'English (India)': 'en-IN',
+} as const;
+
+export type SupportedLanguageCode = typeof SUPPORTED_LANGUAGES[keyof typeof SUPPORTED_LANGUAGES];
+
+// Whisper (and Groq) sometimes report the language by name instead of ISO code
+const WHISPER_LANGUAGE_NAMES: Record<string, string> = {
+    hindi: 'hi',
+    tamil: 'ta',
+    telugu: 'te',
+    bengali: 'bn',
+    marathi: 'mr',
+    gujarati: 'gu',
+    kannada: 'kn',
+    malayalam: 'ml',
+    punjabi: 'pa',
+    urdu: 'ur',
+    english: 'en',
+};
+
+export function isSupportedLanguage(code: unknown): code is SupportedLanguageCode {
+    return typeof code === 'string' && (Object.values(SUPPORTED_LANGUAGES) as string[]).includes(code);
+}
+
+/**
+ * Whisper-family engines only take ISO 639-1 codes ('hi', 'ta', ...)
+ */
+export function toWhisperLanguage(languageCode: string): string {
+    return languageCode.split('-')[0].toLowerCase();
+}
+
+/**
+ * Map a language reported by Whisper ('ta' or 'tamil') back onto our codes ('ta-IN').
+ * Languages we don't list are returned as their ISO code.
+ */
+export function fromWhisperLanguage(detected: string): string {
+    const lower = detected.trim().toLowerCase();
+    const iso = WHISPER_LANGUAGE_NAMES[lower] || lower;
+    const match = Object.values(SUPPORTED_LANGUAGES).find(code => toWhisperLanguage(code) === iso);
+    return match || iso;
+}
@@ -0,0 +1,155 @@
+import { LlmConfig, LlmProvider, LlmProviderName, LlmTask, LLM_PROVIDER_NAMES } from './types';
+import { OpenAICompatibleProvider } from './openai-compatible';
+import { OllamaProvider } from './ollama';
+
+export * from './types';
+export * from './structured';
+
+interface TaskDefaults {
+    provider: LlmProviderName;
+    model?: string;
+    temperature?: number;
+    timeoutMs: number;
+}
+
+// What each task used before it became configurable
+const TASK_DEFAULTS: Record<LlmTask, TaskDefaults> = {
+    'document-extraction': { provider: 'groq', model: 'llama-3.3-70b-versatile', temperature: 0.1, timeoutMs: 120_000 },
+    'call-analysis': { provider: 'ollama', model: 'llama3.2', timeoutMs: 300_000 },
+    'audio-analysis': { provider: 'groq', model: 'llama-3.3-70b-versatile', temperature: 0.1, timeoutMs: 120_000 },
+    'chat': { provider: 'groq', model: 'llama-3.3-70b-versatile', temperature: 0.3, timeoutMs: 60_000 },
+};
+
+function defaultModel(provider: LlmProviderName): string {
+    switch (provider) {
+        case 'groq':
+            return 'llama-3.3-70b-versatile';
+        case 'ollama':
+            return process.env.OLLAMA_MODEL || 'llama3.2';
+        case 'openai':
+            return process.env.OPENAI_MODEL || 'gpt-4o-mini';
+    }
+}
+
+function defaultBaseURL(provider: LlmProviderName): string {
+    switch (provider) {
+        case 'groq':
+            return 'https://api.groq.com/openai/v1';
+        case 'ollama':
+            return process.env.OLLAMA_HOST || 'http://127.0.0.1:11434';
+        case 'openai':
+            return process.env.OPENAI_BASE_URL || 'https://api.openai.com/v1';
+    }
+}
+
+// Ollama's own default window (2048 tokens) silently cuts long prompts, so a larger one is requested
+function defaultContextTokens(provider: LlmProviderName): number {
+    return provider === 'ollama' ? 8192 : 128_000;
+}
+
+function defaultApiKey(provider: LlmProviderName, baseURL: string): string | undefined {
+    switch (provider) {
+        case 'groq':
+            return process.env.GROQ_API_KEY;
+        case 'ollama':
+            return undefined;
+        case 'openai':
+            // Local OpenAI-compatible servers accept any key
+            return process.env.OPENAI_API_KEY || (isLocalURL(baseURL) ? 'local' : undefined);
+    }
+}
+
+export function isLlmProviderName(name: unknown): name is LlmProviderName {
+    return typeof name === 'string' && (LLM_PROVIDER_NAMES as readonly string[]).includes(name);
+}
+
+/**
+ * LLM_OFFLINE=true keeps every task on this machine or the local network
+ */
+export function isOfflineMode(): boolean {
+    return ['1', 'true', 'yes'].includes((process.env.LLM_OFFLINE || '').toLowerCase());
+}
+
+/**
+ * Loopback, private-range, .local and single-label (e.g. a docker service) hosts
+ */
+export function isLocalURL(url: string): boolean {
+    let host: string;
+    try {
+        host = new URL(url).hostname.replace(/^\[|\]$/g, '');
+    } catch {
+        return false;
+    }
+
+    return host === 'localhost'
+        || host === '::1'
+        || host === '0.0.0.0'
+        || host.endsWith('.local')
+        || !host.includes('.') && !host.includes(':')
+        || /^127\./.test(host)
+        || /^10\./.test(host)
+        || /^192\.168\./.test(host)
+        || /^172\.(1[6-9]|2\d|3[01])\./.test(host);
+}
+
+function readNumber(name: string): number | undefined {
+    const value = process.env[name];
+    if (value === undefined || value.trim() === '') return undefined;
+    const parsed = Number(value);
+    if (!Number.isFinite(parsed)) {
+        console.warn(`⚠️ Ignoring non-numeric ${name}="${value}"`);
+        return undefined;
+    }
+    return parsed;
+}
+
+/**
+ * Resolve a task's settings: LLM_<TASK>_* first, then the global LLM_* values,
+ * then the task's defaults. In offline mode anything that would leave the
+ * local network is routed to Ollama instead.
+ */
+export function getLlmConfig(task: LlmTask): LlmConfig {
+    const prefix = `LLM_${task.toUpperCase().replace(/-/g, '_')}_`;
+    const env = (key: string) => process.env[prefix + key] || process.env[`LLM_${key}`] || undefined;
+    const defaults = TASK_DEFAULTS[task];
+
+    const configuredProvider = env('PROVIDER');
+    if (configuredProvider && !isLlmProviderName(configuredProvider)) {
+        console.warn(`⚠️ Unknown LLM provider "${configuredProvider}" for ${task}, falling back to ${defaults.provider}`);
+    }
+    let provider = isLlmProviderName(configuredProvider) ? configuredProvider : defaults.provider;
+    let model = env('MODEL') || (provider === defaults.provider && defaults.model) || defaultModel(provider);
+    let baseURL = env('BASE_URL') || defaultBaseURL(provider);
+
+    if (isOfflineMode() && (provider === 'groq' || !isLocalURL(baseURL))) {
+        if (provider === 'ollama') {
+            throw new Error(`Offline mode: Ollama host ${baseURL} for ${task} is not on the local network`);
+        }
+        console.warn(`⚠️ Offline mode: routing ${task} from ${provider} to local Ollama`);
+        provider = 'ollama';
+        model = defaultModel('ollama');
+        baseURL = defaultBaseURL('ollama');
+    }
+
+    return {
+        provider,
+        model,
+        temperature: readNumber(`${prefix}TEMPERATURE`) ?? readNumber('LLM_TEMPERATURE') ?? defaults.temperature,
+        timeoutMs: readNumber(`${prefix}TIMEOUT_MS`) ?? readNumber('LLM_TIMEOUT_MS') ?? defaults.timeoutMs,
+        contextTokens: readNumber(`${prefix}CONTEXT_TOKENS`) ?? readNumber('LLM_CONTEXT_TOKENS') ?? defaultContextTokens(provider),
+        baseURL,
+        apiKey: defaultApiKey(provider, baseURL),
+    };
+}
+
+export function getLlm(task: LlmTask): LlmProvider {
+    const config = getLlmConfig(task);
+
+    switch (config.provider) {
+        case 'groq':
+        case 'openai':
+            return new OpenAICompatibleProvider({ ...config, provider: config.provider });
+        case 'ollama':
+            return new OllamaProvider(config);
+    }
+}
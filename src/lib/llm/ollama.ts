@@ -0,0 +1,33 @@
+import { Ollama } from 'ollama';
+import { CompletionOptions, LlmConfig, LlmMessage, LlmProvider } from './types';
+
+/**
+ * Local Ollama server (`ollama serve`); the model must be pulled beforehand
+ */
+export class OllamaProvider implements LlmProvider {
+    readonly name = 'ollama' as const;
+    private readonly client: Ollama;
+
+    constructor(readonly config: LlmConfig) {
+        this.client = new Ollama({
+            host: config.baseURL,
+            // The client has no timeout option of its own
+            fetch: (input, init) => fetch(input, { ...init, signal: AbortSignal.timeout(config.timeoutMs) }),
+        });
+    }
+
+    async complete(messages: LlmMessage[], options: CompletionOptions = {}): Promise<string> {
+        const response = await this.client.chat({
+            model: this.config.model,
+            messages,
+            format: options.json ? 'json' : undefined,
+            options: {
+                num_ctx: this.config.contextTokens,
+                ...(this.config.temperature !== undefined && { temperature: this.config.temperature }),
+            },
+            stream: false,
+        });
+
+        return response.message.content;
+    }
+}
@@ -0,0 +1,36 @@
+import OpenAI from 'openai';
+import { CompletionOptions, LlmConfig, LlmMessage, LlmProvider } from './types';
+
+/**
+ * Any OpenAI-compatible chat API: Groq, OpenAI, or a local server
+ * (llama.cpp server, LM Studio, vLLM) via its base URL
+ */
+export class OpenAICompatibleProvider implements LlmProvider {
+    readonly name: 'groq' | 'openai';
+    private readonly client: OpenAI;
+
+    constructor(readonly config: LlmConfig & { provider: 'groq' | 'openai' }) {
+        this.name = config.provider;
+
+        if (!config.apiKey) {
+            throw new Error(config.provider === 'groq' ? 'GROQ_API_KEY is missing' : 'OPENAI_API_KEY is missing');
+        }
+
+        this.client = new OpenAI({
+            apiKey: config.apiKey,
+            baseURL: config.baseURL,
+            timeout: config.timeoutMs,
+        });
+    }
+
+    async complete(messages: LlmMessage[], options: CompletionOptions = {}): Promise<string> {
+        const result = await this.client.chat.completions.create({
+            model: this.config.model,
+            messages,
+            temperature: this.config.temperature,
+            ...(options.json ? { response_format: { type: 'json_object' as const } } : {}),
+        });
+
+        return result.choices[0]?.message.content || '';
+    }
+}
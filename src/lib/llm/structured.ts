@@ -0,0 +1,111 @@
+import { z } from 'zod';
+import { LlmMessage, LlmProvider, LlmTask, parseJsonResponse } from './types';
+
+/**
+ * One call to the model while producing a structured result
+ */
+export interface LlmAttempt {
+    task: LlmTask;
+    /** 1 for the original prompt, 2+ for repair prompts */
+    attempt: number;
+    provider: string;
+    model: string;
+    ok: boolean;
+    /** Why the response was rejected (parse or schema errors) */
+    issues?: string[];
+    durationMs: number;
+}
+
+export interface StructuredResult<T> {
+    data: T;
+    attempts: LlmAttempt[];
+}
+
+/**
+ * Thrown when no attempt produced a valid response; carries the attempts so
+ * callers can record them alongside their fallback
+ */
+export class StructuredOutputError extends Error {
+    constructor(message: string, readonly attempts: LlmAttempt[]) {
+        super(message);
+        this.name = 'StructuredOutputError';
+    }
+}
+
+/**
+ * Repair prompts after the first answer (LLM_MAX_REPAIR_ATTEMPTS, default 2)
+ */
+export function getMaxRepairAttempts(): number {
+    const configured = parseInt(process.env.LLM_MAX_REPAIR_ATTEMPTS || '', 10);
+    return Number.isFinite(configured) && configured >= 0 ? configured : 2;
+}
+
+function describeIssues(error: z.ZodError): string[] {
+    return error.issues.map(issue => `${issue.path.length > 0 ? issue.path.join('.') : '(root)'}: ${issue.message}`);
+}
+
+/**
+ * Ask for JSON, validate it against `schema`, and on failure send the
+ * validation errors back to the model for a corrected answer
+ */
+export async function completeStructured<S extends z.ZodTypeAny>(
+    llm: LlmProvider,
+    task: LlmTask,
+    messages: LlmMessage[],
+    schema: S,
+    options: { json?: boolean; maxRepairs?: number } = {}
+): Promise<StructuredResult<z.infer<S>>> {
+    const { json = true, maxRepairs = getMaxRepairAttempts() } = options;
+    const conversation = [...messages];
+    const attempts: LlmAttempt[] = [];
+
+    for (let attempt = 1; attempt <= maxRepairs + 1; attempt++) {
+        const startedAt = Date.now();
+        const record = (ok: boolean, issues?: string[]) => attempts.push({
+            task,
+            attempt,
+            provider: llm.name,
+            model: llm.config.model,
+            ok,
+            issues,
+            durationMs: Date.now() - startedAt,
+        });
+
+        // Transport errors (timeouts, connection refused) are not something a repair prompt can fix
+        let responseText: string;
+        try {
+            responseText = await llm.complete(conversation, { json });
+        } catch (error: any) {
+            record(false, [error.message]);
+            throw new StructuredOutputError(`${task} request failed: ${error.message}`, attempts);
+        }
+
+        let errors: string[];
+        try {
+            const parsed = schema.safeParse(parseJsonResponse(responseText));
+            if (parsed.success) {
+                record(true);
+                return { data: parsed.data, attempts };
+            }
+            errors = describeIssues(parsed.error);
+        } catch (error: any) {
+            errors = [`Response is not valid JSON: ${error.message}`];
+        }
+
+        record(false, errors);
+        console.warn(`⚠️ ${task} response rejected (attempt ${attempt}): ${errors.join('; ')}`);
+
+        conversation.push(
+            { role: 'assistant', content: responseText },
+            {
+                role: 'user',
+                content: `Your previous response did not match the required JSON structure:\n- ${errors.join('\n- ')}\n\nReturn the corrected JSON object only, with no other text.`,
+            }
+        );
+    }
+
+    throw new StructuredOutputError(
+        `${task} output failed validation after ${attempts.length} attempt(s)`,
+        attempts
+    );
+}
@@ -0,0 +1,56 @@
+export const LLM_PROVIDER_NAMES = ['groq', 'ollama', 'openai'] as const;
+
+export type LlmProviderName = typeof LLM_PROVIDER_NAMES[number];
+
+/**
+ * Every place the app calls a language model. Each task is configured on its
+ * own (LLM_<TASK>_PROVIDER, _MODEL, _TEMPERATURE, _TIMEOUT_MS, _BASE_URL,
+ * _CONTEXT_TOKENS).
+ */
+export const LLM_TASKS = ['document-extraction', 'call-analysis', 'audio-analysis', 'chat'] as const;
+
+export type LlmTask = typeof LLM_TASKS[number];
+
+export interface LlmConfig {
+    provider: LlmProviderName;
+    model: string;
+    /** Omit to use the provider's default */
+    temperature?: number;
+    timeoutMs: number;
+    /** Context window (prompt + answer) the caller must stay within */
+    contextTokens: number;
+    baseURL: string;
+    apiKey?: string;
+}
+
+export interface LlmMessage {
+    role: 'system' | 'user' | 'assistant';
+    content: string;
+}
+
+export interface CompletionOptions {
+    /** Ask the backend for a JSON object (JSON mode) */
+    json?: boolean;
+}
+
+/**
+ * Chat-completion backend. Adapters only differ in transport; prompts and
+ * response parsing stay with the caller.
+ */
+export interface LlmProvider {
+    readonly name: LlmProviderName;
+    readonly config: LlmConfig;
+    complete(messages: LlmMessage[], options?: CompletionOptions): Promise<string>;
+}
+
+/**
+ * Parse a JSON reply, tolerating markdown code fences around it
+ */
+export function parseJsonResponse(responseText: string): any {
+    try {
+        return JSON.parse(responseText);
+    } catch {
+        const cleanText = responseText.replace(/```json\n|\n```|```/g, '').trim();
+        return JSON.parse(cleanText);
+    }
+}
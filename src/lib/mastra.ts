@@ -1,62 +1,175 @@
 import { z } from 'zod';
-import OpenAI from 'openai';
 import { Workflow } from '@mastra/core/workflows';
-import fs from 'fs';
+import { getTranscriber } from './transcribers';
+import { normalizeGstin } from './gst';
+import {
+    completeStructured,
+    getLlm,
+    isOfflineMode,
+    StructuredOutputError,
+    StructuredResult,
+} from './llm';
+
+// Coercions for the shape drift small models produce; anything still invalid
+// after these goes back to the model as a repair prompt
+
+// null / "" mean "not mentioned"
+const optional = <T extends z.ZodTypeAny>(schema: T) =>
+    z.preprocess(value => (value === null || value === '' ? undefined : value), schema.optional());
+
+// "1,250.00", "₹500", "Rs. 1,250.00" and "$20" are numbers; "(500)" and "-₹500" are negative
+const looseNumber = z.preprocess(value => {
+    if (typeof value !== 'string') return value;
+    const token = value.match(/-?\d[\d,]*(?:\.\d+)?/)?.[0];
+    if (!token) return value;
+
+    const amount = Number(token.replace(/,/g, ''));
+    const negative = token.startsWith('-') || /^\s*-/.test(value) || /^\s*\(.*\)\s*$/.test(value);
+    return negative ? -Math.abs(amount) : amount;
+}, z.number());
+
+// "27 aapfu 0939 f1zv" → "27AAPFU0939F1ZV"
+const gstin = optional(z.string()).transform(value => (value ? normalizeGstin(value) || undefined : undefined));
+
+// A single string, a JSON-encoded array, or objects like { description, amount } become string lists
+const stringArray = z.preprocess((input: unknown) => {
+    if (input === null || input === undefined) return [];
+
+    let arr = input;
+    if (typeof input === 'string') {
+        try {
+            const parsed = JSON.parse(input);
+            arr = Array.isArray(parsed) ? parsed : [input];
+        } catch {
+            arr = [input];
+        }
+    }
+    if (!Array.isArray(arr)) arr = [arr];
+
+    return (arr as unknown[]).map(item => {
+        if (typeof item === 'string' || typeof item === 'number') return String(item);
+        if (typeof item === 'object' && item !== null) {
+            const obj = item as Record<string, unknown>;
+            const distinctValues = [obj.description, obj.amount, obj.value, obj.item, obj.risk, obj.action]
+                .filter(v => typeof v === 'string' || typeof v === 'number');
+            return distinctValues.length > 0 ? distinctValues.join(': ') : JSON.stringify(item);
+        }
+        return item;
+    });
+}, z.array(z.string()));
+
+// "negative" / " POSITIVE " → "Negative" / "Positive"
+const sentiment = z.preprocess(
+    value => (typeof value === 'string' ? value.trim().charAt(0).toUpperCase() + value.trim().slice(1).toLowerCase() : value),
+    z.enum(['Positive', 'Neutral', 'Negative'])
+);
+
+// Intent sometimes comes back as { primary, secondary }
+const text = z.preprocess(
+    value => (typeof value === 'object' && value !== null ? JSON.stringify(value) : value),
+    z.string()
+);
+
+// Supporting quotes, as [{ field, quote }] or { field: quote | [quotes] }; unusable
+// entries are dropped (the field is then reported as unsupported, not re-prompted)
+const evidenceList = z.preprocess((input: unknown) => {
+    const entries: Array<{ field: unknown; quote: unknown }> = Array.isArray(input)
+        ? input.filter(item => typeof item === 'object' && item !== null)
+        : typeof input === 'object' && input !== null
+            ? Object.entries(input).flatMap(([field, value]) => Array.isArray(value)
+                ? value.map((quote, i) => ({ field: `${field}[${i}]`, quote }))
+                : [{ field, quote: value }])
+            : [];
+    return entries.filter(e => typeof e.field === 'string' && typeof e.quote === 'string' && e.quote.trim());
+}, z.array(z.object({ field: z.string(), quote: z.string() })));
 
 // Zod Schema for Financial Document Extraction
 export const LineItemSchema = z.object({
     description: z.string().describe('Description of the item or service'),
-    quantity: z.number().describe('Quantity of items'),
-    unitPrice: z.number().describe('Price per unit'),
-    totalPrice: z.number().describe('Total price for this line item'),
+    quantity: looseNumber.describe('Quantity of items'),
+    unitPrice: looseNumber.describe('Price per unit'),
+    totalPrice: looseNumber.describe('Total price for this line item'),
+    hsnSac: optional(z.coerce.string()).describe('HSN or SAC code of the item (Indian GST invoices)'),
 });
 
 export const FinancialDocumentSchema = z.object({
     documentType: z.string().describe('Type of document (e.g., Invoice, Receipt, Bill)'),
-    invoiceNumber: z.string().optional().describe('Invoice or document number'),
-    invoiceDate: z.string().optional().describe('Date of the invoice (ISO format)'),
-    dueDate: z.string().optional().describe('Payment due date (ISO format)'),
-    vendorName: z.string().optional().describe('Name of the vendor/seller'),
-    vendorAddress: z.string().optional().describe('Address of the vendor'),
-    clientName: z.string().optional().describe('Name of the client/buyer'),
-    clientAddress: z.string().optional().describe('Address of the client'),
-    subtotal: z.number().optional().describe('Subtotal amount before tax'),
-    taxAmount: z.number().optional().describe('Tax amount'),
-    totalAmount: z.number().describe('Total amount to be paid'),
-    currency: z.string().default('USD').describe('Currency code (e.g., USD, EUR)'),
-    lineItems: z.array(LineItemSchema).optional().describe('Individual line items'),
+    invoiceNumber: optional(z.coerce.string()).describe('Invoice or document number'),
+    invoiceDate: optional(z.string()).describe('Date of the invoice (ISO format)'),
+    dueDate: optional(z.string()).describe('Payment due date (ISO format)'),
+    vendorName: optional(z.string()).describe('Name of the vendor/seller'),
+    vendorAddress: optional(z.string()).describe('Address of the vendor'),
+    clientName: optional(z.string()).describe('Name of the client/buyer'),
+    clientAddress: optional(z.string()).describe('Address of the client'),
+    subtotal: optional(looseNumber).describe('Subtotal amount before tax'),
+    taxAmount: optional(looseNumber).describe('Tax amount'),
+    totalAmount: looseNumber.describe('Total amount to be paid'),
+    currency: optional(z.string()).transform(value => value || 'USD').describe('Currency code (e.g., USD, EUR)'),
+    lineItems: optional(z.array(LineItemSchema)).describe('Individual line items'),
+    vendorGstin: gstin.describe("Vendor's GSTIN (Indian GST number)"),
+    clientGstin: gstin.describe("Buyer's GSTIN"),
+    placeOfSupply: optional(z.coerce.string()).describe('Place of supply (state name and/or state code)'),
+    cgstAmount: optional(looseNumber).describe('Central GST amount'),
+    sgstAmount: optional(looseNumber).describe('State / Union Territory GST amount'),
+    igstAmount: optional(looseNumber).describe('Integrated GST amount'),
+    evidence: evidenceList.describe('Verbatim snippet of the document behind each extracted value'),
 });
 
 export const AudioAnalysisSchema = z.object({
-    sentiment: z.enum(['Positive', 'Neutral', 'Negative']).describe('Overall sentiment of the discussion'),
-    speakers: z.array(z.string()).describe('List of identified speakers (e.g., Speaker 1, Speaker 2, or names if available)'),
-    topics: z.array(z.string()).describe('Key financial topics discussed'),
-    transcript: z.string().optional().describe('Full text transcript of the audio'),
+    sentiment: sentiment.describe('Overall sentiment of the discussion'),
+    speakers: stringArray.describe('List of identified speakers (e.g., Speaker 1, Speaker 2, or names if available)'),
+    topics: stringArray.describe('Key financial topics discussed'),
+    transcript: optional(z.string()).describe('Full text transcript of the audio'),
     // Financial data extracted from audio
-    documentType: z.string().optional().describe('Type of financial discussion (e.g., Debt Collection, Payment Reminder, Loan Inquiry)'),
-    vendorName: z.string().optional().describe('Name of the organization/company mentioned'),
-    clientName: z.string().optional().describe('Name of the customer/client'),
-    totalAmount: z.number().optional().describe('Total amount mentioned in the conversation'),
-    currency: z.string().optional().describe('Currency code'),
-    dueDate: z.string().optional().describe('Due date mentioned (ISO format)'),
-    interestRate: z.number().optional().describe('Interest rate mentioned'),
-    latePaymentCharge: z.number().optional().describe('Late payment fees mentioned'),
+    documentType: optional(z.string()).describe('Type of financial discussion (e.g., Debt Collection, Payment Reminder, Loan Inquiry)'),
+    vendorName: optional(z.string()).describe('Name of the organization/company mentioned'),
+    clientName: optional(z.string()).describe('Name of the customer/client'),
+    totalAmount: optional(looseNumber).describe('Total amount mentioned in the conversation'),
+    currency: optional(z.string()).describe('Currency code'),
+    dueDate: optional(z.string()).describe('Due date mentioned (ISO format)'),
+    interestRate: optional(looseNumber).describe('Interest rate mentioned'),
+    latePaymentCharge: optional(looseNumber).describe('Late payment fees mentioned'),
 
     // Call Analysis Summary
-    intent: z.string().describe('Primary intent of the call (e.g., Payment Arrangement, Dispute, Inquiry)'),
-    financialEvents: z.array(z.string()).describe('List of key financial events (e.g., "Promised to pay $500", " disputed charge of $20")'),
-    emotionalState: z.string().describe('Detailed emotional state of the speakers (e.g., "Customer appears stressed but cooperative")'),
-    complianceNotes: z.array(z.string()).describe('Compliance related notes (e.g., "Call recording disclosure mentioned", "Mini-Miranda warning given")'),
+    intent: text.describe('Primary intent of the call (e.g., Payment Arrangement, Dispute, Inquiry)'),
+    financialEvents: stringArray.describe('List of key financial events (e.g., "Promised to pay $500", " disputed charge of $20")'),
+    emotionalState: text.describe('Detailed emotional state of the speakers (e.g., "Customer appears stressed but cooperative")'),
+    complianceNotes: stringArray.describe('Compliance related notes (e.g., "Call recording disclosure mentioned", "Mini-Miranda warning given")'),
+});
+
+// Output of the redacted call-analysis prompt (processFinancialAudio). Amounts and
+// dates stay strings here because they may be placeholders such as [MONEY_1].
+export const CallAnalysisSchema = z.object({
+    summary: optional(z.string()),
+    key_figures: optional(z.array(z.unknown())),
+    dates: optional(stringArray),
+    risks: optional(stringArray),
+    action_items: optional(stringArray),
+    sentiment: sentiment,
+    speakers: stringArray,
+    topics: stringArray,
+    intent: optional(text),
+    financialEvents: stringArray,
+    emotionalState: optional(text),
+    complianceNotes: stringArray,
+    documentType: optional(z.string()),
+    vendorName: optional(z.string()),
+    clientName: optional(z.string()),
+    totalAmount: optional(z.union([z.string(), z.number()])),
+    currency: optional(z.string()),
+    dueDate: optional(z.string()),
+    evidence: evidenceList,
 });
 
 export const DocumentChatSchema = z.object({
-    answer: z.string().describe('Answer to the user question based on the document data'),
+    answer: text.describe('Answer to the user question based on the document data'),
 });
 
 export type DocumentChatData = z.infer<typeof DocumentChatSchema>;
 
 export type FinancialDocumentData = z.infer<typeof FinancialDocumentSchema>;
 export type AudioAnalysisData = z.infer<typeof AudioAnalysisSchema>;
+export type CallAnalysisData = z.infer<typeof CallAnalysisSchema>;
 
 // Create a workflow for document processing (Keeping Workflow structure for compatibility if needed elsewhere)
 export const documentProcessingWorkflow = new Workflow({
@@ -68,18 +181,13 @@ export const documentProcessingWorkflow = new Workflow({
     outputSchema: z.any(),
 });
 
-// Helper function to process document with Grok
+// Helper function to extract structured data from a document (provider: LLM_DOCUMENT_EXTRACTION_*).
+// Throws StructuredOutputError (with the attempts made) when no response validates.
 export async function extractFinancialData(
     fileContent: string
-): Promise<FinancialDocumentData> {
+): Promise<StructuredResult<FinancialDocumentData>> {
     try {
-        const apiKey = process.env.GROQ_API_KEY;
-        if (!apiKey) throw new Error('GROQ_API_KEY is missing');
-
-        const openai = new OpenAI({
-            apiKey: apiKey,
-            baseURL: "https://api.groq.com/openai/v1",
-        });
+        const llm = getLlm('document-extraction');
 
         const prompt = `
             You are an expert financial document analyzer. Extract structured data from this document content.
@@ -89,8 +197,10 @@ export async function extractFinancialData(
             - Vendor and client information
             - Dates (invoice date, due date)
             - Financial amounts (subtotal, tax, total)
-            - Line items with descriptions, quantities, and prices
+            - Line items with descriptions, quantities, prices and HSN/SAC codes
             - Currency
+            - For Indian GST invoices: vendor and buyer GSTIN, place of supply, and the
+              CGST, SGST (or UTGST) and IGST amounts
 
             Return ONLY valid JSON matching this schema:
             {
@@ -106,60 +216,58 @@ export async function extractFinancialData(
                 "taxAmount": number (optional),
                 "totalAmount": number,
                 "currency": "string",
-                "lineItems": [{ "description": "string", "quantity": number, "unitPrice": number, "totalPrice": number }]
+                "lineItems": [{ "description": "string", "quantity": number, "unitPrice": number, "totalPrice": number, "hsnSac": "string (optional)" }],
+                "vendorGstin": "string (optional)",
+                "clientGstin": "string (optional)",
+                "placeOfSupply": "string (optional)",
+                "cgstAmount": number (optional),
+                "sgstAmount": number (optional),
+                "igstAmount": number (optional),
+                "evidence": [{ "field": "totalAmount", "quote": "verbatim text from the document" }]
             }
 
+            Pages of PDFs are marked "--- Page N ---"; never include those markers in a value or quote.
+            Scanned pages are OCR text and may contain recognition errors; quote them as they appear.
+            Tables from Word documents are given one row per line with cells between "|". In an
+            item table, every row below the header is one entry of "lineItems" (map the columns by
+            their headers); quote a single cell, never the "|" separators.
+            "taxAmount" is the total tax; on GST invoices it is CGST + SGST + IGST. Leave a GST
+            component out when the invoice doesn't charge it.
+
+            For "evidence", give one entry per value you extracted. "field" is the key
+            (use "lineItems[0]", "lineItems[1]", ... for line items) and "quote" is the exact,
+            shortest snippet of the document that states the value. Copy it character for
+            character; do not paraphrase. Leave out values you cannot quote.
+
             Document Content:
             ${fileContent}
         `;
 
-        const result = await openai.chat.completions.create({
-            model: "llama-3.3-70b-versatile",
-            messages: [
-                { role: "user", content: prompt }
-            ],
-            temperature: 0.1,
-        });
-
-        const responseText = result.choices[0].message.content || '';
-        const jsonString = responseText.replace(/```json\n|\n```/g, '').replace(/```/g, '').trim();
-
-        const data = JSON.parse(jsonString);
-
-        return data as FinancialDocumentData;
+        return await completeStructured(llm, 'document-extraction', [
+            { role: "user", content: prompt }
+        ], FinancialDocumentSchema, { json: false });
 
     } catch (error: any) {
-        console.error('Error extracting financial data with Groq:', error);
+        console.error('Error extracting financial data:', error);
+        if (error instanceof StructuredOutputError) throw error;
         throw new Error(`Failed to extract financial data from document: ${error.message}`);
     }
 }
 
-// Helper function to analyze audio with Groq (Transcription -> Analysis)
+// Helper function to analyze audio (Transcription -> Analysis, provider: LLM_AUDIO_ANALYSIS_*)
 export async function analyzeAudio(filePath: string, fileType: string): Promise<AudioAnalysisData> {
     try {
-        const apiKey = process.env.GROQ_API_KEY;
-        if (!apiKey) {
-            throw new Error('GROQ_API_KEY is missing');
-        }
-
-        const openai = new OpenAI({
-            apiKey: apiKey,
-            baseURL: "https://api.groq.com/openai/v1",
-            timeout: 120 * 1000,
-        });
+        const llm = getLlm('audio-analysis');
 
         console.log(`Starting audio analysis for: ${filePath}`);
 
-        // Step 1: Transcribe the audio using Groq's Whisper model
+        // Step 1: Transcribe the audio (Groq's Whisper, or the local engine in offline mode)
         console.log('Step 1: Transcribing audio...');
-        const transcription = await openai.audio.transcriptions.create({
-            file: fs.createReadStream(filePath),
-            model: "whisper-large-v3",
-            response_format: "json",
-        });
+        const transcriber = getTranscriber(isOfflineMode() ? undefined : 'groq');
+        const transcription = await transcriber.transcribe(filePath, { task: 'transcribe' });
 
         const transcriptText = transcription.text;
-        console.log('Transcription complete via Groq.');
+        console.log(`Transcription complete via ${transcriber.name}.`);
 
         // Step 2: Analyze the transcript using Llama 3
         console.log('Step 2: Analyzing transcript...');
@@ -203,51 +311,36 @@ export async function analyzeAudio(filePath: string, fileType: string): Promise<
             }
         `;
 
-        const completion = await openai.chat.completions.create({
-            model: "llama-3.3-70b-versatile",
-            messages: [
-                { role: "system", content: "You are a precise JSON extractor." },
-                { role: "user", content: prompt }
-            ],
-            temperature: 0.1,
-            response_format: { type: "json_object" }
-        });
-
-        const responseText = completion.choices[0].message.content || '{}';
-        const analysisData = JSON.parse(responseText);
+        const { data: analysisData } = await completeStructured(llm, 'audio-analysis', [
+            { role: "system", content: "You are a precise JSON extractor." },
+            { role: "user", content: prompt }
+        ], AudioAnalysisSchema);
 
         // Ensure transcript is included if the LLM missed it
         if (!analysisData.transcript) {
             analysisData.transcript = transcriptText;
         }
 
-        return analysisData as AudioAnalysisData;
+        return analysisData;
 
     } catch (error: any) {
-        console.error('Error analyzing audio with Groq:', error);
-        throw new Error(`Failed to analyze audio with Groq: ${error.message}`);
+        console.error('Error analyzing audio:', error);
+        throw new Error(`Failed to analyze audio: ${error.message}`);
     }
 }
 
-// Helper function to chat with document using Grok
+// Helper function to chat with a document (provider: LLM_CHAT_*)
 export async function chatWithDocument(
     documentData: any,
     question: string
 ): Promise<DocumentChatData> {
     try {
-        const apiKey = process.env.GROQ_API_KEY;
-        if (!apiKey) {
-            throw new Error('GROQ_API_KEY is missing');
-        }
-
-        const openai = new OpenAI({
-            apiKey: apiKey,
-            baseURL: "https://api.groq.com/openai/v1",
-        });
+        const llm = getLlm('chat');
 
         const prompt = `
             You are a helpful financial assistant. Answer the user's question about this financial document.
             Be concise and specific. If the information is not available in the document, say so.
+            When the data includes "pages", cite the page a figure comes from, e.g. "(page 2)".
 
             Document Data:
             ${JSON.stringify(documentData, null, 2)}
@@ -260,21 +353,17 @@ export async function chatWithDocument(
             }
         `;
 
-        const result = await openai.chat.completions.create({
-            model: "llama-3.3-70b-versatile",
-            messages: [
-                { role: "user", content: prompt }
-            ],
-            temperature: 0.3,
-        });
-
-        const responseText = result.choices[0].message.content || '';
-        const jsonString = responseText.replace(/```json\n|\n```/g, '').replace(/```/g, '').trim();
-        const data = JSON.parse(jsonString);
+        const { data } = await completeStructured(llm, 'chat', [
+            { role: "user", content: prompt }
+        ], DocumentChatSchema, { json: false });
 
         return { answer: data.answer };
 
     } catch (error: any) {
+        if (error instanceof StructuredOutputError) {
+            console.error('Chat answer failed validation:', error.message);
+            return { answer: "Sorry, I couldn't produce an answer to that. Please try rephrasing the question." };
+        }
         console.error('Error chatting with document:', error);
         throw new Error(`Failed to generate answer: ${error.message}`);
     }
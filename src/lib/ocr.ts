@@ -0,0 +1,178 @@
+import fs from 'fs';
+import { execFile } from 'child_process';
+
+/**
+ * Local OCR for photographed and scanned documents (Tesseract). Besides the
+ * text, every recognised word keeps its bounding box so extracted values can
+ * be highlighted on the page image. Scanned PDF pages are rendered to PNG
+ * with pdftoppm (poppler) first.
+ *
+ * Configure with TESSERACT_BIN, OCR_LANGUAGES (Tesseract language packs,
+ * e.g. "eng+hin"), PDFTOPPM_BIN and OCR_DPI.
+ */
+
+export interface OcrWord {
+    text: string;
+    /** Pixel box on the page image */
+    left: number;
+    top: number;
+    width: number;
+    height: number;
+    /** Tesseract confidence, 0-100 */
+    confidence: number;
+    /** Line index on the page (reading order) */
+    line: number;
+}
+
+export interface OcrPage {
+    text: string;
+    words: OcrWord[];
+    /** Size of the page image the boxes refer to */
+    width: number;
+    height: number;
+    /** Mean word confidence, 0-100 */
+    confidence: number;
+    /** Public URL of the page image */
+    imageUrl?: string;
+}
+
+/** Box on a page, as fractions of the page size */
+export interface PageBox {
+    x: number;
+    y: number;
+    w: number;
+    h: number;
+}
+
+function run(binary: string, args: string[], label: string): Promise<string> {
+    console.log(`🚀 Executing: ${binary} ${args.join(' ')}`);
+    return new Promise((resolve, reject) => {
+        execFile(binary, args, { maxBuffer: 1024 * 1024 * 50 }, (error, stdout) => {
+            if (error) {
+                console.error(`❌ ${label} Error:`, error.message);
+                return reject(new Error(`${label} failed: ${error.message}`));
+            }
+            resolve(stdout);
+        });
+    });
+}
+
+/**
+ * Words, lines and page size from Tesseract's TSV output
+ */
+export function parseTesseractTsv(tsv: string): Omit<OcrPage, 'imageUrl'> {
+    const words: OcrWord[] = [];
+    const lines: string[][] = [];
+    const paragraphEnds = new Set<number>();
+    let width = 0;
+    let height = 0;
+    let lineKey = '';
+    let paragraphKey = '';
+
+    for (const row of tsv.split('\n').slice(1)) {
+        const cols = row.split('\t');
+        if (cols.length < 12) continue;
+        const [level, , block, paragraph, line, , left, top, w, h, conf] = cols.slice(0, 11).map(Number);
+        const text = cols.slice(11).join('\t').trim();
+
+        // Level 1 is the page itself; level 5 rows are words
+        if (level === 1) {
+            width = w;
+            height = h;
+            continue;
+        }
+        if (level !== 5 || !text) continue;
+
+        const nextParagraph = `${block}.${paragraph}`;
+        const nextLine = `${nextParagraph}.${line}`;
+        if (nextLine !== lineKey) {
+            if (paragraphKey && nextParagraph !== paragraphKey) paragraphEnds.add(lines.length - 1);
+            lines.push([]);
+            lineKey = nextLine;
+            paragraphKey = nextParagraph;
+        }
+        lines[lines.length - 1].push(text);
+        words.push({ text, left, top, width: w, height: h, confidence: conf, line: lines.length - 1 });
+    }
+
+    const text = lines
+        .map((line, i) => line.join(' ') + (paragraphEnds.has(i) ? '\n' : ''))
+        .join('\n');
+    const confidence = words.length > 0 ? words.reduce((sum, w) => sum + w.confidence, 0) / words.length : 0;
+
+    return { text, words, width, height, confidence: Math.round(confidence * 10) / 10 };
+}
+
+/**
+ * Recognise the text of one image
+ */
+export async function ocrImage(imagePath: string): Promise<OcrPage> {
+    const binary = process.env.TESSERACT_BIN || 'tesseract';
+    const languages = process.env.OCR_LANGUAGES || 'eng+hin';
+
+    const tsv = await run(binary, [imagePath, 'stdout', '-l', languages, 'tsv'], 'Tesseract');
+    const page = parseTesseractTsv(tsv);
+    console.log(`🔎 OCR: ${page.words.length} words (mean confidence ${page.confidence})`);
+    return page;
+}
+
+/**
+ * Render one PDF page to PNG; returns the image path
+ */
+export async function renderPdfPage(pdfPath: string, page: number): Promise<string> {
+    const binary = process.env.PDFTOPPM_BIN || 'pdftoppm';
+    const dpi = parseInt(process.env.OCR_DPI || '300', 10);
+    const outputPrefix = pdfPath.replace(/\.[^.]+$/, '') + `.page-${page}`;
+
+    await run(binary, ['-r', String(dpi), '-f', String(page), '-l', String(page), '-png', '-singlefile', pdfPath, outputPrefix], 'pdftoppm');
+
+    const imagePath = `${outputPrefix}.png`;
+    if (!fs.existsSync(imagePath)) {
+        throw new Error(`pdftoppm did not produce an image for page ${page}`);
+    }
+    return imagePath;
+}
+
+function tokens(text: string): string[] {
+    return text
+        .normalize('NFC')
+        .toLowerCase()
+        .replace(/[^\p{L}\p{M}\p{N}]+/gu, ' ')
+        .trim()
+        .split(' ')
+        .filter(Boolean);
+}
+
+/**
+ * Boxes (one per line) around the words of a quote on an OCR'd page, or
+ * nothing when the quote's words don't appear there in sequence
+ */
+export function findQuoteBoxes(quote: string, page: Pick<OcrPage, 'words' | 'width' | 'height'>): PageBox[] {
+    const needle = tokens(quote);
+    if (needle.length === 0 || !page.width || !page.height) return [];
+
+    // One word can hold several tokens ("₹1,50,000.00"), so match on tokens and map back
+    const haystack = page.words.flatMap((word, index) => tokens(word.text).map(token => ({ token, index })));
+
+    for (let i = 0; i + needle.length <= haystack.length; i++) {
+        if (!needle.every((token, j) => haystack[i + j].token === token)) continue;
+
+        const matched = [...new Set(haystack.slice(i, i + needle.length).map(t => t.index))].map(index => page.words[index]);
+        const byLine = new Map<number, OcrWord[]>();
+        matched.forEach(word => byLine.set(word.line, [...(byLine.get(word.line) || []), word]));
+
+        return [...byLine.values()].map(lineWords => {
+            const left = Math.min(...lineWords.map(w => w.left));
+            const top = Math.min(...lineWords.map(w => w.top));
+            const right = Math.max(...lineWords.map(w => w.left + w.width));
+            const bottom = Math.max(...lineWords.map(w => w.top + w.height));
+            return {
+                x: left / page.width,
+                y: top / page.height,
+                w: (right - left) / page.width,
+                h: (bottom - top) / page.height,
+            };
+        });
+    }
+    return [];
+}
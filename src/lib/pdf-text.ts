@@ -0,0 +1,143 @@
+import fs from 'fs';
+import type { OcrPage } from './ocr';
+
+/**
+ * Text layer extraction for uploaded PDFs (pdf.js). Text items are put back
+ * into reading order (top to bottom, left to right) line by line, and each
+ * page is kept separately so extracted values can be traced to a page.
+ * Pages without a usable text layer (scans, photographed invoices) are
+ * flagged for OCR.
+ */
+
+export interface PageText {
+    /** 1-based page number */
+    page: number;
+    text: string;
+    /** No usable text layer; the page is an image and needs OCR */
+    needsOcr?: boolean;
+    /** The text was read by OCR; word boxes for highlighting */
+    ocr?: OcrPage;
+}
+
+export interface PdfText {
+    pages: PageText[];
+    pageCount: number;
+    /** Pages flagged for OCR */
+    ocrPages: number[];
+}
+
+// Fewer visible characters than this on a page that draws an image means "scanned"
+const MIN_TEXT_CHARS = 20;
+
+interface PositionedText {
+    str: string;
+    x: number;
+    y: number;
+    width: number;
+    height: number;
+}
+
+/**
+ * Group positioned items into lines and lines into page text
+ */
+function layoutText(items: PositionedText[]): string {
+    const sorted = items
+        .filter(item => item.str.trim())
+        .sort((a, b) => b.y - a.y || a.x - b.x);
+
+    const lines: PositionedText[][] = [];
+    for (const item of sorted) {
+        const line = lines[lines.length - 1];
+        // Same line when the baselines are within half a glyph height
+        if (line && Math.abs(line[0].y - item.y) <= Math.max(2, line[0].height * 0.5)) {
+            line.push(item);
+        } else {
+            lines.push([item]);
+        }
+    }
+
+    return lines
+        .map(line => {
+            let text = '';
+            let lastEnd: number | undefined;
+            for (const item of line.sort((a, b) => a.x - b.x)) {
+                const gap = lastEnd === undefined ? 0 : item.x - lastEnd;
+                // Wide gaps are table columns; keep them visible as runs of spaces
+                if (lastEnd !== undefined) {
+                    text += gap > item.height * 2 ? '   ' : gap > item.height * 0.15 ? ' ' : '';
+                }
+                text += item.str;
+                lastEnd = item.x + item.width;
+            }
+            return text.replace(/\s+$/, '');
+        })
+        .join('\n');
+}
+
+export async function extractPdfText(filePath: string): Promise<PdfText> {
+    // The legacy build runs in Node without a DOM
+    const pdfjs = await import('pdfjs-dist/legacy/build/pdf.mjs');
+    const data = new Uint8Array(await fs.promises.readFile(filePath));
+    const pdf = await pdfjs.getDocument({ data, useSystemFonts: true, isEvalSupported: false }).promise;
+
+    try {
+        const pages: PageText[] = [];
+
+        for (let pageNumber = 1; pageNumber <= pdf.numPages; pageNumber++) {
+            const page = await pdf.getPage(pageNumber);
+            const content = await page.getTextContent();
+
+            const items: PositionedText[] = content.items.flatMap(item =>
+                'str' in item
+                    ? [{ str: item.str, x: item.transform[4], y: item.transform[5], width: item.width, height: Math.abs(item.transform[3]) || item.height }]
+                    : []
+            );
+            const text = layoutText(items);
+
+            let needsOcr = false;
+            if (text.replace(/\s/g, '').length < MIN_TEXT_CHARS) {
+                // Little or no text: only a page that draws images is a scan (blank pages are just blank)
+                const operators = await page.getOperatorList();
+                const imageOps = [pdfjs.OPS.paintImageXObject, pdfjs.OPS.paintInlineImageXObject, pdfjs.OPS.paintImageMaskXObject];
+                needsOcr = operators.fnArray.some(op => imageOps.includes(op));
+            }
+
+            pages.push({ page: pageNumber, text, ...(needsOcr && { needsOcr }) });
+            page.cleanup();
+        }
+
+        return {
+            pages,
+            pageCount: pdf.numPages,
+            ocrPages: pages.filter(p => p.needsOcr).map(p => p.page),
+        };
+    } finally {
+        await pdf.destroy();
+    }
+}
+
+/**
+ * Join pages into one text with page markers, plus where each page starts
+ */
+export function joinPages(pages: PageText[]): { text: string; offsets: number[] } {
+    let text = '';
+    const offsets: number[] = [];
+    for (const { page, text: pageText } of pages) {
+        if (text) text += '\n\n';
+        text += `--- Page ${page} ---\n`;
+        offsets.push(text.length);
+        text += pageText;
+    }
+    return { text, offsets };
+}
+
+/**
+ * Page number containing a character offset of the joined text
+ */
+export function pageAtOffset(pages: PageText[], offsets: number[], offset: number): number | undefined {
+    let found: number | undefined;
+    offsets.forEach((start, i) => {
+        if (offset >= start) found = pages[i].page;
+    });
+    return found;
+}
@@ -0,0 +1,64 @@
+import crypto from 'crypto';
+import type { RedactionVault } from './redaction';
+
+/**
+ * Encryption at rest for redaction vaults and other unredacted data (AES-256-GCM).
+ * The key comes from PII_VAULT_KEY: 64 hex characters, or any passphrase,
+ * which is stretched with scrypt.
+ */
+
+/**
+ * Any JSON value, encrypted. Inngest persists step outputs, so steps that
+ * handle unredacted text pass it on in this form.
+ */
+export interface EncryptedPayload {
+    algorithm: 'aes-256-gcm';
+    iv: string;
+    authTag: string;
+    ciphertext: string;
+}
+
+export interface EncryptedVault extends EncryptedPayload {
+    tokenCount: number;
+}
+
+function getVaultKey(): Buffer {
+    const secret = process.env.PII_VAULT_KEY;
+    if (!secret) {
+        throw new Error('PII_VAULT_KEY is missing (needed to encrypt the PII vault)');
+    }
+    return /^[0-9a-f]{64}$/i.test(secret)
+        ? Buffer.from(secret, 'hex')
+        : crypto.scryptSync(secret, 'financial-pii-vault', 32);
+}
+
+export function encryptPayload(value: unknown): EncryptedPayload {
+    const iv = crypto.randomBytes(12);
+    const cipher = crypto.createCipheriv('aes-256-gcm', getVaultKey(), iv);
+    const ciphertext = Buffer.concat([cipher.update(JSON.stringify(value), 'utf8'), cipher.final()]);
+
+    return {
+        algorithm: 'aes-256-gcm',
+        iv: iv.toString('base64'),
+        authTag: cipher.getAuthTag().toString('base64'),
+        ciphertext: ciphertext.toString('base64'),
+    };
+}
+
+export function decryptPayload<T>(encrypted: Pick<EncryptedPayload, 'iv' | 'authTag' | 'ciphertext'>): T {
+    const decipher = crypto.createDecipheriv('aes-256-gcm', getVaultKey(), Buffer.from(encrypted.iv, 'base64'));
+    decipher.setAuthTag(Buffer.from(encrypted.authTag, 'base64'));
+    const plaintext = Buffer.concat([
+        decipher.update(Buffer.from(encrypted.ciphertext, 'base64')),
+        decipher.final(),
+    ]);
+    return JSON.parse(plaintext.toString('utf8'));
+}
+
+export function encryptVault(vault: RedactionVault): EncryptedVault {
+    return { ...encryptPayload(vault), tokenCount: Object.keys(vault).length };
+}
+
+export function decryptVault(encrypted: Pick<EncryptedVault, 'iv' | 'authTag' | 'ciphertext'>): RedactionVault {
+    return decryptPayload<RedactionVault>(encrypted);
+}
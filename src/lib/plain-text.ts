@@ -0,0 +1,69 @@
+import fs from 'fs';
+import iconv from 'iconv-lite';
+
+/**
+ * Plain-text uploads come from anywhere: Notepad saves UTF-16 with a BOM,
+ * accounting exports are often Windows-1252, and copy-pasted invoices carry
+ * non-breaking and zero-width spaces. Everything is decoded to a string and
+ * normalised before extraction so quotes can be matched reliably.
+ */
+
+export type TextEncoding = 'utf-8' | 'utf-16le' | 'utf-16be' | 'windows-1252';
+
+// Spaces that should read as a plain space
+const SPACE_CHARS = /[\u00A0\u2000-\u200A\u202F\u205F\u3000]/g;
+// Invisible characters with no meaning in the text (ZWJ/ZWNJ are kept: Devanagari needs them)
+const INVISIBLE_CHARS = /[\u200B\u00AD\u2060\uFEFF]/g;
+// C0/C1 controls other than tab and newline
+const CONTROL_CHARS = /[\u0000-\u0008\u000B\u000C\u000E-\u001F\u007F-\u009F]/g;
+
+/**
+ * Guess the encoding from the byte order mark, NUL byte pattern and UTF-8 validity
+ */
+export function detectEncoding(buffer: Buffer): TextEncoding {
+    if (buffer[0] === 0xEF && buffer[1] === 0xBB && buffer[2] === 0xBF) return 'utf-8';
+    if (buffer[0] === 0xFF && buffer[1] === 0xFE) return 'utf-16le';
+    if (buffer[0] === 0xFE && buffer[1] === 0xFF) return 'utf-16be';
+
+    // UTF-16 without a BOM: ASCII characters leave every other byte zero
+    const sample = buffer.subarray(0, 4096);
+    let evenZeros = 0;
+    let oddZeros = 0;
+    sample.forEach((byte, i) => {
+        if (byte === 0) i % 2 === 0 ? evenZeros++ : oddZeros++;
+    });
+    if (oddZeros > sample.length / 4 && evenZeros < oddZeros / 4) return 'utf-16le';
+    if (evenZeros > sample.length / 4 && oddZeros < evenZeros / 4) return 'utf-16be';
+
+    try {
+        new TextDecoder('utf-8', { fatal: true }).decode(buffer);
+        return 'utf-8';
+    } catch {
+        return 'windows-1252';
+    }
+}
+
+/**
+ * Unicode and whitespace normalisation shared by every text source
+ */
+export function normalizeText(text: string): string {
+    return text
+        .normalize('NFC')
+        .replace(/\r\n?/g, '\n')
+        .replace(SPACE_CHARS, ' ')
+        .replace(INVISIBLE_CHARS, '')
+        .replace(CONTROL_CHARS, '')
+        .replace(/[ \t]+$/gm, '')
+        .replace(/\n{3,}/g, '\n\n')
+        .trim();
+}
+
+export async function readPlainText(filePath: string): Promise<{ text: string; encoding: TextEncoding }> {
+    const buffer = await fs.promises.readFile(filePath);
+    const encoding = detectEncoding(buffer);
+    // iconv-lite strips the BOM while decoding
+    const text = normalizeText(iconv.decode(buffer, encoding));
+
+    if (encoding !== 'utf-8') console.log(`🔤 Decoded text file as ${encoding}`);
+    return { text, encoding };
+}
@@ -0,0 +1,250 @@
+import type { TranscriptSegment } from './transcribers/types';
+
+/**
+ * PII redaction for transcripts (TypeScript port of the LocalRedactor in main.py).
+ * Sensitive values are swapped for tokens like [MONEY_1] before any text leaves
+ * for an LLM; the token → value map (the vault) is kept so results can be
+ * re-hydrated afterwards. The same value always maps to the same token, so the
+ * model can still reason about "the amount" across the whole call.
+ *
+ * Amounts spelled out in English ("thirty two thousand five hundred rupees")
+ * are caught; numbers spoken in other languages ("pachaas hazaar") are not,
+ * so a native-language transcript can still contain them.
+ */
+
+export const REDACTION_TYPES = ['MONEY', 'DATE', 'RATE', 'DETAIL', 'NAME', 'ORG'] as const;
+
+export type RedactionType = typeof REDACTION_TYPES[number];
+
+export function isRedactionType(value: unknown): value is RedactionType {
+    return typeof value === 'string' && (REDACTION_TYPES as readonly string[]).includes(value);
+}
+
+/** Token → original value, e.g. { '[MONEY_1]': '5,000 rupees' } */
+export type RedactionVault = Record<string, string>;
+
+// English number words, for spelled-out amounts
+const NUMBER_WORDS = 'zero|one|two|three|four|five|six|seven|eight|nine|ten|eleven|twelve|thirteen|fourteen|fifteen|sixteen|seventeen|eighteen|nineteen|twenty|thirty|forty|fifty|sixty|seventy|eighty|ninety|hundred|thousand|lakhs?|crores?|million|billion';
+const DIGITS = '\\d[\\d,]*(?:\\.\\d+)?';
+// "thirty two thousand five hundred", "1 crore 20 lakh", "one hundred and twenty"
+const SPELLED_NUMBER = `(?:${DIGITS}|${NUMBER_WORDS})(?:[\\s-]+(?:and[\\s-]+(?:${NUMBER_WORDS})|${NUMBER_WORDS}|${DIGITS}))*`;
+
+const MONTHS = 'jan(?:uary)?|feb(?:ruary)?|mar(?:ch)?|apr(?:il)?|may|june?|july?|aug(?:ust)?|sep(?:t(?:ember)?)?|oct(?:ober)?|nov(?:ember)?|dec(?:ember)?';
+
+// Order matters: numbers that belong to money/dates/rates go first so DETAIL doesn't eat them
+const PATTERNS: Array<{ type: RedactionType; pattern: RegExp; group?: number }> = [
+    // thirty two thousand five hundred rupees | 2 lakh fifty thousand rupees | Rs. five thousand
+    {
+        type: 'MONEY',
+        pattern: new RegExp(
+            `(?:\\bRs\\.?|\\bINR|₹|\\$)\\s?(?:${SPELLED_NUMBER})\\b|\\b(?:${SPELLED_NUMBER})\\s+(?:rupees?|dollars?|euros?|pounds?|bucks)\\b`,
+            'gi'
+        ),
+    },
+    // ₹5,000 | Rs. 2 lakh | $300 | 5000 rupees | 2.5 lakh rupees
+    {
+        type: 'MONEY',
+        pattern: /(?:\$|₹|€|£|\bRs\.?|\bINR)\s?\d[\d,]*(?:\.\d+)?(?:\s?(?:lakhs?|crores?|thousand)\b)?|\b\d[\d,]*(?:\.\d+)?\s*(?:(?:lakhs?|crores?|thousand)\s+)?(?:rupees|dollars|cents|euros|inr|usd)\b/gi,
+    },
+    // January 10, 2024 | 10th Jan | 2024-01-01 | 10/01/2024
+    {
+        type: 'DATE',
+        pattern: new RegExp(
+            `\\b(?:(?:${MONTHS})\\s+\\d{1,2}(?:st|nd|rd|th)?(?:,?\\s+\\d{4})?|\\d{1,2}(?:st|nd|rd|th)?\\s+(?:of\\s+)?(?:${MONTHS})(?:,?\\s+\\d{4})?|\\d{4}-\\d{2}-\\d{2}|\\d{1,2}[/-]\\d{1,2}[/-]\\d{2,4})\\b`,
+            'gi'
+        ),
+    },
+    // 8.75% | 15 percent
+    { type: 'RATE', pattern: /\b\d+(?:\.\d+)?\s?(?:%|percent\b)/gi },
+    // E-mail and UPI ids, PAN, IFSC, phone numbers
+    { type: 'DETAIL', pattern: /\b[\w.+-]+@[\w-]+(?:\.[\w-]+)*\b/g },
+    { type: 'DETAIL', pattern: /\b[A-Z]{5}\d{4}[A-Z]\b/g },
+    { type: 'DETAIL', pattern: /\b[A-Z]{4}0[A-Z0-9]{6}\b/g },
+    { type: 'DETAIL', pattern: /(?:\+91[\s-]?)?\b[6-9]\d{4}[\s-]?\d{5}\b/g },
+    // Any remaining run of 4+ digits (account numbers, loan ids, Aadhaar)
+    { type: 'DETAIL', pattern: /\b(?:\d[-,\s]?){4,}\d\b|\b\d{4}\b/g },
+    // Names after an honorific or an introduction ("Mr. Sharma", "my name is Priya Nair")
+    {
+        type: 'NAME',
+        pattern: /\b(?:mr|mrs|ms|miss|dr|shri|sri|smt|kumari)\.?\s+([A-Z][a-z]+(?:\s+[A-Z][a-z]+){0,2})/gi,
+        group: 1,
+    },
+    {
+        type: 'NAME',
+        pattern: /\b(?:my name is|this is|speaking (?:to|with)|am i speaking (?:to|with))\s+(?!(?:mr|mrs|ms|miss|dr|shri|sri|smt|kumari)\b)([A-Z][a-z]+(?:\s+[A-Z][a-z]+){0,2})/gi,
+        group: 1,
+    },
+    // Lenders and companies ("ABC Finance", "Sharma Capital Pvt Ltd")
+    {
+        type: 'ORG',
+        pattern: /\b(?!(?:The|Your|My|Our|This|That)\s)(?:[A-Z][\w&]*\s+){1,4}(?:Finance|Financial|Finserv|Fincorp|Bank|Capital|Insurance|Corporation|Corp|Ltd|Limited|Pvt(?:\.?\s+Ltd)?)(?![\w])/g,
+    },
+];
+
+const CAPITALISED_WORD = /^[A-Z][a-z]+$/;
+
+const TOKEN_PATTERN = /\[(?:MONEY|DATE|RATE|DETAIL|NAME|ORG)_\d+\]/g;
+
+// Dates, ObjectIds and other class instances are passed through untouched
+const isPlainObject = (value: unknown): value is Record<string, unknown> =>
+    !!value && typeof value === 'object' && Object.getPrototypeOf(value) === Object.prototype;
+
+export class PiiRedactor {
+    readonly vault: RedactionVault = {};
+    private readonly tokenOf = new Map<string, string>();
+    private readonly counters: Record<RedactionType, number> = {
+        MONEY: 0, DATE: 0, RATE: 0, DETAIL: 0, NAME: 0, ORG: 0,
+    };
+
+    private tokenFor(type: RedactionType, value: string): string {
+        const key = `${type}|${value.toLowerCase().replace(/\s+/g, ' ')}`;
+        let token = this.tokenOf.get(key);
+        if (!token) {
+            token = `[${type}_${++this.counters[type]}]`;
+            this.tokenOf.set(key, token);
+            this.vault[token] = value;
+        }
+        return token;
+    }
+
+    /**
+     * Replace sensitive values in `text` with vault tokens
+     */
+    redact(text: string): string {
+        let redacted = text;
+
+        for (const { type, pattern, group } of PATTERNS) {
+            redacted = redacted.replace(pattern, (match: string, ...args: any[]) => {
+                if (group === undefined) {
+                    return this.tokenFor(type, match);
+                }
+
+                // The prefix ("My name is") matches in any case, but only the leading
+                // capitalised words after it are taken as the name
+                const captured: string = args[group - 1] || '';
+                const words = captured.split(/\s+/);
+                const firstOther = words.findIndex(w => !CAPITALISED_WORD.test(w));
+                const nameWords = firstOther === -1 ? words : words.slice(0, firstOther);
+                if (nameWords.length === 0) return match;
+
+                const name = nameWords.join(' ');
+                const prefix = match.slice(0, match.length - captured.length);
+                return prefix + this.tokenFor(type, name) + captured.slice(name.length);
+            });
+        }
+
+        return redacted;
+    }
+
+    /** Word timings are dropped too, since their text is not redacted */
+    redactSegments(segments: TranscriptSegment[]): TranscriptSegment[] {
+        return segments.map(({ words, ...seg }) => ({ ...seg, text: this.redact(seg.text) }));
+    }
+
+    /** How many distinct values of each type were redacted */
+    summary(): Record<RedactionType, number> {
+        return { ...this.counters };
+    }
+}
+
+/**
+ * Put original values back into any JSON-like value (strings, arrays, objects)
+ */
+export function rehydrate<T>(value: T, vault: RedactionVault): T {
+    if (typeof value === 'string') {
+        return value.replace(TOKEN_PATTERN, token => vault[token] ?? token) as T;
+    }
+    if (Array.isArray(value)) {
+        return value.map(item => rehydrate(item, vault)) as T;
+    }
+    if (isPlainObject(value)) {
+        return Object.fromEntries(
+            Object.entries(value).map(([key, item]) => [key, rehydrate(item, vault)])
+        ) as T;
+    }
+    return value;
+}
+
+/**
+ * The inverse of `rehydrate`: swap every known vault value for its token.
+ * Used to re-redact stored, already re-hydrated fields before they go to an LLM.
+ */
+export function redactWithVault<T>(value: T, vault: RedactionVault): T {
+    // Longest values first so "5,000 rupees" wins over "5,000"
+    const entries = Object.entries(vault).sort((a, b) => b[1].length - a[1].length);
+
+    const redactString = (text: string) => entries.reduce(
+        (acc, [token, original]) => acc.split(original).join(token),
+        text
+    );
+
+    const walk = (item: any): any => {
+        if (typeof item === 'string') return redactString(item);
+        if (Array.isArray(item)) return item.map(walk);
+        if (isPlainObject(item)) {
+            return Object.fromEntries(Object.entries(item).map(([key, v]) => [key, walk(v)]));
+        }
+        return item;
+    };
+
+    return walk(value);
+}
+
+const WORD_VALUES: Record<string, number> = {
+    zero: 0, one: 1, two: 2, three: 3, four: 4, five: 5, six: 6, seven: 7, eight: 8, nine: 9,
+    ten: 10, eleven: 11, twelve: 12, thirteen: 13, fourteen: 14, fifteen: 15, sixteen: 16,
+    seventeen: 17, eighteen: 18, nineteen: 19, twenty: 20, thirty: 30, forty: 40, fifty: 50,
+    sixty: 60, seventy: 70, eighty: 80, ninety: 90,
+};
+const SCALE_VALUES: Record<string, number> = { thousand: 1e3, lakh: 1e5, crore: 1e7, million: 1e6, billion: 1e9 };
+
+/**
+ * "thirty two thousand five hundred" → 32500, "2 lakh fifty thousand" → 250000
+ */
+function parseSpelledNumber(text: string): number {
+    let total = 0;
+    let current = 0;
+    for (const word of text.toLowerCase().replace(/,/g, '').split(/[\s-]+/)) {
+        const unit = word.replace(/s$/, '');
+        if (word === 'and' || word === '') continue;
+        if (/^\d/.test(word)) current += parseFloat(word);
+        else if (word in WORD_VALUES) current += WORD_VALUES[word];
+        else if (word === 'hundred') current = (current || 1) * 100;
+        else if (unit in SCALE_VALUES) {
+            total += (current || 1) * SCALE_VALUES[unit];
+            current = 0;
+        }
+    }
+    return total + current;
+}
+
+/**
+ * Numeric value of a re-hydrated money string ("₹45,000", "2.5 lakh rupees")
+ */
+export function parseAmount(value: unknown): number | undefined {
+    if (typeof value === 'number') return Number.isFinite(value) ? value : undefined;
+    if (typeof value !== 'string') return undefined;
+
+    // Spelled-out amounts, unless a plain number comes first ("Rs 500 (one time)")
+    const spelled = value.match(new RegExp(`\\b(?:${SPELLED_NUMBER})\\b`, 'i'));
+    const firstDigit = value.search(/\d/);
+    if (spelled && /[a-z]/i.test(spelled[0]) && (firstDigit === -1 || spelled.index! <= firstDigit)) {
+        return parseSpelledNumber(spelled[0]);
+    }
+
+    const match = value.replace(/,/g, '').match(/(\d+(?:\.\d+)?)\s*(lakhs?|crores?|thousand|k\b)?/i);
+    if (!match) return undefined;
+
+    const multipliers: Record<string, number> = { lakh: 1e5, crore: 1e7, thousand: 1e3, k: 1e3 };
+    const unit = match[2]?.toLowerCase().replace(/s$/, '');
+    return parseFloat(match[1]) * (unit ? multipliers[unit] : 1);
+}
+
+/**
+ * Date from a re-hydrated date string, or undefined when it can't be parsed
+ */
+export function parseDate(value: unknown): Date | undefined {
+    if (typeof value !== 'string' && !(value instanceof Date)) return undefined;
+    const date = new Date(typeof value === 'string' ? value.replace(/(\d)(st|nd|rd|th)\b/i, '$1') : value);
+    return isNaN(date.getTime()) ? undefined : date;
+}
@@ -0,0 +1,63 @@
+import path from 'path';
+import { execFile } from 'child_process';
+import { getFFmpegEnv } from '../ffmpeg-path';
+import { fromWhisperLanguage, toWhisperLanguage } from '../languages';
+import { Transcriber, TranscribeOptions, TranscriptionResult, parseWhisperSegments } from './types';
+
+// Runs inside the Python interpreter; prints Whisper-style JSON on stdout
+const FASTER_WHISPER_SCRIPT = `
+import json, sys
+from faster_whisper import WhisperModel
+audio, model_name, language, task, prompt = sys.argv[1:6]
+model = WhisperModel(model_name, device="cpu", compute_type="int8")
+segments, info = model.transcribe(audio, language=language or None, task=task, initial_prompt=prompt or None, word_timestamps=True)
+out = [{"id": s.id, "start": s.start, "end": s.end, "text": s.text,
+        "avg_logprob": s.avg_logprob, "no_speech_prob": s.no_speech_prob,
+        "words": [{"word": w.word, "start": w.start, "end": w.end} for w in (s.words or [])]} for s in segments]
+print(json.dumps({"text": " ".join(s["text"].strip() for s in out), "segments": out, "language": info.language}))
+`;
+
+/**
+ * faster-whisper (CTranslate2) through a local Python interpreter
+ * Configure with PYTHON_BIN and FASTER_WHISPER_MODEL
+ */
+export class FasterWhisperTranscriber implements Transcriber {
+    readonly name = 'faster-whisper' as const;
+
+    constructor(
+        private readonly python: string = process.env.PYTHON_BIN || 'python',
+        private readonly model: string = process.env.FASTER_WHISPER_MODEL || 'medium'
+    ) { }
+
+    async transcribe(audioPath: string, options: TranscribeOptions = {}): Promise<TranscriptionResult> {
+        const { languageCode, task = 'translate', prompt } = options;
+        const absolutePath = path.resolve(audioPath);
+
+        console.log(`🎙️ Transcribing with faster-whisper (${this.model}): ${path.basename(absolutePath)}`);
+
+        const stdout = await new Promise<string>((resolve, reject) => {
+            execFile(
+                this.python,
+                ['-c', FASTER_WHISPER_SCRIPT, absolutePath, this.model, languageCode ? toWhisperLanguage(languageCode) : '', task, prompt || ''],
+                { maxBuffer: 1024 * 1024 * 50, env: getFFmpegEnv() },
+                (error, out, stderr) => {
+                    if (error) {
+                        console.error('❌ faster-whisper Error:', stderr || error.message);
+                        return reject(new Error(`faster-whisper failed: ${error.message}`));
+                    }
+                    resolve(out);
+                }
+            );
+        });
+
+        // Model download progress may precede the JSON line
+        const jsonLine = stdout.trim().split('\n').pop() || '{}';
+        const result = JSON.parse(jsonLine);
+
+        return {
+            text: String(result.text || '').trim(),
+            segments: parseWhisperSegments(result.segments),
+            language: result.language ? fromWhisperLanguage(result.language) : languageCode,
+        };
+    }
+}
@@ -0,0 +1,45 @@
+import fs from 'fs';
+import path from 'path';
+import { fromWhisperLanguage } from '../languages';
+import { Transcriber, TranscribeOptions, TranscriptionResult, parseWhisperSegments } from './types';
+
+/**
+ * Fake engine for tests and demos: returns a canned Whisper JSON file instead
+ * of running a model. Looks for `<audio>.transcript.json` next to the audio,
+ * then `<TRANSCRIBER_FIXTURE_DIR>/<audio name>.json`. Split channels first try
+ * `<audio name>_left.json` / `<audio name>_right.json`.
+ */
+export class FixtureTranscriber implements Transcriber {
+    readonly name = 'fixture' as const;
+
+    constructor(
+        private readonly fixtureDir: string = process.env.TRANSCRIBER_FIXTURE_DIR || path.join(process.cwd(), 'scripts', 'fixtures')
+    ) { }
+
+    async transcribe(audioPath: string, options: TranscribeOptions = {}): Promise<TranscriptionResult> {
+        const [, baseName, channel] = path.parse(audioPath).name
+            .replace(/^\d+-/, '')    // upload timestamp prefix
+            .replace(/(_16k)?(_[a-z]+_clean)?(_chunk\d+)?$/, '') // resampled, enhanced or chunked copy
+            .match(/^(.*?)(?:_(left|right))?$/)!; // one channel of a split stereo file
+
+        const candidates = [
+            `${audioPath}.transcript.json`,
+            ...(channel ? [path.join(this.fixtureDir, `${baseName}_${channel}.json`)] : []),
+            path.join(this.fixtureDir, `${baseName}.json`),
+        ];
+
+        const fixturePath = candidates.find(p => fs.existsSync(p));
+        if (!fixturePath) {
+            throw new Error(`No transcript fixture found for ${path.basename(audioPath)} (looked in: ${candidates.join(', ')})`);
+        }
+
+        console.log(`🧪 Using transcript fixture: ${fixturePath}`);
+        const result = JSON.parse(fs.readFileSync(fixturePath, 'utf-8'));
+
+        return {
+            text: String(result.text || '').trim(),
+            segments: parseWhisperSegments(result.segments),
+            language: result.language ? fromWhisperLanguage(result.language) : options.languageCode,
+        };
+    }
+}
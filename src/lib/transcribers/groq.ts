@@ -0,0 +1,58 @@
+import fs from 'fs';
+import OpenAI from 'openai';
+import { fromWhisperLanguage, toWhisperLanguage } from '../languages';
+import { Transcriber, TranscribeOptions, TranscriptionResult, parseWhisperSegments, parseWhisperWords } from './types';
+
+/**
+ * Groq hosted whisper-large-v3 (sends audio to the cloud)
+ */
+export class GroqTranscriber implements Transcriber {
+    readonly name = 'groq' as const;
+
+    async transcribe(audioPath: string, options: TranscribeOptions = {}): Promise<TranscriptionResult> {
+        const { languageCode, task = 'translate', prompt } = options;
+
+        const apiKey = process.env.GROQ_API_KEY;
+        if (!apiKey) {
+            throw new Error('GROQ_API_KEY is missing');
+        }
+
+        const openai = new OpenAI({
+            apiKey: apiKey,
+            baseURL: "https://api.groq.com/openai/v1",
+            timeout: 120 * 1000,
+        });
+
+        console.log(`🎙️ Transcribing with Groq whisper-large-v3 (${task})...`);
+
+        // verbose_json is the only format that carries segment timings
+        const result: any = task === 'translate'
+            ? await openai.audio.translations.create({
+                file: fs.createReadStream(audioPath),
+                model: "whisper-large-v3",
+                prompt,
+                response_format: "verbose_json",
+            })
+            : await openai.audio.transcriptions.create({
+                file: fs.createReadStream(audioPath),
+                model: "whisper-large-v3",
+                language: languageCode ? toWhisperLanguage(languageCode) : undefined,
+                prompt,
+                response_format: "verbose_json",
+                timestamp_granularities: ['word', 'segment'],
+            });
+
+        // Word timings come back as one flat list; hand each segment its own words
+        const words = parseWhisperWords(result.words) || [];
+        const segments = parseWhisperSegments(result.segments).map(seg => {
+            const own = words.filter(w => w.start >= seg.start && w.start < seg.end);
+            return own.length > 0 ? { ...seg, words: own } : seg;
+        });
+
+        return {
+            text: String(result.text || '').trim(),
+            segments,
+            language: result.language ? fromWhisperLanguage(result.language) : languageCode,
+        };
+    }
+}
@@ -0,0 +1,38 @@
+import { Transcriber, TranscriberName, TRANSCRIBER_NAMES } from './types';
+import { WhisperCliTranscriber } from './whisper-cli';
+import { WhisperCppTranscriber } from './whisper-cpp';
+import { FasterWhisperTranscriber } from './faster-whisper';
+import { GroqTranscriber } from './groq';
+import { FixtureTranscriber } from './fixture';
+
+export * from './types';
+
+export function isTranscriberName(name: unknown): name is TranscriberName {
+    return typeof name === 'string' && (TRANSCRIBER_NAMES as readonly string[]).includes(name);
+}
+
+/**
+ * Engine used when an upload does not ask for one (TRANSCRIBER env, default: whisper-cli)
+ */
+export function getDefaultTranscriberName(): TranscriberName {
+    const configured = process.env.TRANSCRIBER;
+    if (configured && !isTranscriberName(configured)) {
+        console.warn(`⚠️ Unknown TRANSCRIBER "${configured}", falling back to whisper-cli`);
+    }
+    return isTranscriberName(configured) ? configured : 'whisper-cli';
+}
+
+export function getTranscriber(name: TranscriberName = getDefaultTranscriberName()): Transcriber {
+    switch (name) {
+        case 'whisper-cli':
+            return new WhisperCliTranscriber();
+        case 'whisper-cpp':
+            return new WhisperCppTranscriber();
+        case 'faster-whisper':
+            return new FasterWhisperTranscriber();
+        case 'groq':
+            return new GroqTranscriber();
+        case 'fixture':
+            return new FixtureTranscriber();
+    }
+}
@@ -0,0 +1,82 @@
+/**
+ * One word with its own timing (only some engines provide these)
+ */
+export interface TranscriptWord {
+    word: string;
+    start: number;
+    end: number;
+}
+
+/**
+ * A single timed span of the transcript, as emitted by Whisper
+ * (times are in seconds from the start of the recording)
+ */
+export interface TranscriptSegment {
+    id: number;
+    start: number;
+    end: number;
+    text: string;
+    avgLogprob?: number;
+    noSpeechProb?: number;
+    speaker?: string;
+    words?: TranscriptWord[];
+}
+
+export interface TranscriptionResult {
+    text: string;
+    segments: TranscriptSegment[];
+    /** Spoken language as reported by the engine (e.g. 'hi-IN'), when known */
+    language?: string;
+}
+
+export interface TranscribeOptions {
+    /** BCP-47 style code from the upload, e.g. 'hi-IN'; omit to auto-detect */
+    languageCode?: string;
+    /** 'translate' produces English text, 'transcribe' keeps the spoken language */
+    task?: 'transcribe' | 'translate';
+    /** Whisper initial prompt, used to bias decoding towards domain vocabulary */
+    prompt?: string;
+}
+
+export const TRANSCRIBER_NAMES = ['whisper-cli', 'whisper-cpp', 'faster-whisper', 'groq', 'fixture'] as const;
+
+export type TranscriberName = typeof TRANSCRIBER_NAMES[number];
+
+/**
+ * Speech-to-text engine. Every adapter returns the same Whisper-style result
+ * so the rest of the pipeline does not care which engine ran.
+ */
+export interface Transcriber {
+    readonly name: TranscriberName;
+    transcribe(audioPath: string, options?: TranscribeOptions): Promise<TranscriptionResult>;
+}
+
+/**
+ * Map the raw Whisper JSON `segments` array onto our camelCase shape
+ */
+export function parseWhisperSegments(rawSegments: any): TranscriptSegment[] {
+    if (!Array.isArray(rawSegments)) return [];
+
+    return rawSegments.map((seg: any, idx: number) => ({
+        id: typeof seg.id === 'number' ? seg.id : idx,
+        start: Number(seg.start) || 0,
+        end: Number(seg.end) || 0,
+        text: String(seg.text || '').trim(),
+        avgLogprob: typeof seg.avg_logprob === 'number' ? seg.avg_logprob : undefined,
+        noSpeechProb: typeof seg.no_speech_prob === 'number' ? seg.no_speech_prob : undefined,
+        words: parseWhisperWords(seg.words),
+    }));
+}
+
+/**
+ * Word timings from `--word_timestamps` output; undefined when absent
+ */
+export function parseWhisperWords(rawWords: any): TranscriptWord[] | undefined {
+    if (!Array.isArray(rawWords) || rawWords.length === 0) return undefined;
+
+    return rawWords.map((w: any) => ({
+        word: String(w.word ?? w.text ?? ''),
+        start: Number(w.start) || 0,
+        end: Number(w.end) || 0,
+    }));
+}
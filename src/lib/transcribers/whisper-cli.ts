@@ -0,0 +1,93 @@
+import fs from 'fs';
+import path from 'path';
+import { exec } from 'child_process';
+import { getFFmpegEnv } from '../ffmpeg-path';
+import { fromWhisperLanguage, toWhisperLanguage } from '../languages';
+import { Transcriber, TranscribeOptions, TranscriptionResult, parseWhisperSegments } from './types';
+
+/**
+ * OpenAI Whisper Python CLI (`pip install openai-whisper`)
+ * Requires 'whisper' to be in system PATH
+ */
+export class WhisperCliTranscriber implements Transcriber {
+    readonly name = 'whisper-cli' as const;
+
+    constructor(private readonly model: string = process.env.WHISPER_MODEL || 'medium') { }
+
+    async transcribe(audioPath: string, options: TranscribeOptions = {}): Promise<TranscriptionResult> {
+        const { languageCode, task = 'translate', prompt } = options;
+
+        // 1. Setup Paths
+        const absolutePath = path.resolve(audioPath);
+        const outputDir = path.dirname(absolutePath);
+        const fileName = path.basename(absolutePath);
+        const fileNameNoExt = path.parse(absolutePath).name;
+
+        console.log(`🎙️ Transcribing: ${fileName}`);
+
+        // 2. PRE-CLEANUP: Delete potential old output files to prevent "Skipping"
+        const potentialFiles = [
+            path.join(outputDir, `${fileNameNoExt}.json`),
+            path.join(outputDir, `${fileName}.json`),
+            path.join(outputDir, `${fileNameNoExt}.wav.json`)
+        ];
+
+        potentialFiles.forEach(f => {
+            if (fs.existsSync(f)) {
+                try { fs.unlinkSync(f); } catch (e) { /* ignore */ }
+            }
+        });
+
+        return new Promise((resolve, reject) => {
+            // 3. Command: without --language Whisper detects it from the first 30 seconds
+            const languageArg = languageCode ? ` --language ${toWhisperLanguage(languageCode)}` : '';
+            const promptArg = prompt ? ` --initial_prompt "${prompt.replace(/["\\$`]/g, '\\$&')}"` : '';
+            const command = `whisper "${absolutePath}" --model ${this.model}${languageArg}${promptArg} --task ${task} --word_timestamps True --output_format json --output_dir "${outputDir}" --verbose False`;
+
+            console.log(`🚀 Executing: ${command}`);
+
+            exec(command, {
+                maxBuffer: 1024 * 1024 * 10,
+                env: getFFmpegEnv() // Whisper shells out to ffmpeg
+            }, (error, stdout, stderr) => {
+                if (error) {
+                    console.error('❌ Whisper CLI Error:', error.message);
+                    // Don't reject yet, sometimes it writes the file anyway
+                }
+
+                // 4. Find the new file
+                let foundFile = null;
+                for (const p of potentialFiles) {
+                    if (fs.existsSync(p)) {
+                        foundFile = p;
+                        break;
+                    }
+                }
+
+                try {
+                    if (foundFile) {
+                        const jsonContent = fs.readFileSync(foundFile, 'utf-8');
+                        fs.unlinkSync(foundFile); // Cleanup
+                        const result = JSON.parse(jsonContent);
+                        resolve({
+                            text: result.text.trim(),
+                            segments: parseWhisperSegments(result.segments),
+                            language: result.language ? fromWhisperLanguage(result.language) : languageCode,
+                        });
+                    } else {
+                        // Fallback: Check stdout, but filter out "Skipping" messages
+                        const cleanStdout = stdout.trim();
+                        if (cleanStdout && !cleanStdout.startsWith("Skipping")) {
+                            // No JSON file means no timing information
+                            resolve({ text: cleanStdout, segments: [], language: languageCode });
+                        } else {
+                            throw new Error("Whisper skipped processing or failed to generate output.");
+                        }
+                    }
+                } catch (err: any) {
+                    reject(err);
+                }
+            });
+        });
+    }
+}
@@ -0,0 +1,74 @@
+import fs from 'fs';
+import path from 'path';
+import { execFile } from 'child_process';
+import { fromWhisperLanguage, toWhisperLanguage } from '../languages';
+import { Transcriber, TranscribeOptions, TranscriptionResult, TranscriptSegment } from './types';
+
+/**
+ * whisper.cpp binary (https://github.com/ggerganov/whisper.cpp)
+ * Configure with WHISPER_CPP_BIN and WHISPER_CPP_MODEL (path to a ggml model file)
+ */
+export class WhisperCppTranscriber implements Transcriber {
+    readonly name = 'whisper-cpp' as const;
+
+    constructor(
+        private readonly binary: string = process.env.WHISPER_CPP_BIN || 'whisper-cli',
+        private readonly modelPath: string | undefined = process.env.WHISPER_CPP_MODEL
+    ) { }
+
+    async transcribe(audioPath: string, options: TranscribeOptions = {}): Promise<TranscriptionResult> {
+        const { languageCode, task = 'translate', prompt } = options;
+
+        if (!this.modelPath) {
+            throw new Error('WHISPER_CPP_MODEL is not set (path to a ggml model file)');
+        }
+
+        const absolutePath = path.resolve(audioPath);
+        const outputPrefix = absolutePath.replace(/\.[^.]+$/, '') + '.whispercpp';
+        const outputFile = `${outputPrefix}.json`;
+
+        const args = [
+            '-m', this.modelPath,
+            '-f', absolutePath,
+            '-l', languageCode ? toWhisperLanguage(languageCode) : 'auto',
+            '-oj',
+            '-of', outputPrefix,
+            '-np',
+        ];
+        if (task === 'translate') args.push('-tr');
+        if (prompt) args.push('--prompt', prompt);
+
+        console.log(`🚀 Executing: ${this.binary} ${args.join(' ')}`);
+
+        await new Promise<void>((resolve, reject) => {
+            execFile(this.binary, args, { maxBuffer: 1024 * 1024 * 10 }, (error) => {
+                if (error) {
+                    console.error('❌ whisper.cpp Error:', error.message);
+                    return reject(new Error(`whisper.cpp failed: ${error.message}`));
+                }
+                resolve();
+            });
+        });
+
+        if (!fs.existsSync(outputFile)) {
+            throw new Error('whisper.cpp did not produce a JSON transcript');
+        }
+
+        const result = JSON.parse(fs.readFileSync(outputFile, 'utf-8'));
+        fs.unlinkSync(outputFile);
+
+        // whisper.cpp reports offsets in milliseconds
+        const segments: TranscriptSegment[] = (result.transcription || []).map((item: any, idx: number) => ({
+            id: idx,
+            start: (item.offsets?.from || 0) / 1000,
+            end: (item.offsets?.to || 0) / 1000,
+            text: String(item.text || '').trim(),
+        }));
+
+        return {
+            text: segments.map(s => s.text).join(' ').trim(),
+            segments,
+            language: result.result?.language ? fromWhisperLanguage(result.result.language) : languageCode,
+        };
+    }
+}
@@ -0,0 +1,138 @@
+import fs from 'fs';
+
+export interface PcmAudio {
+    sampleRate: number;
+    samples: Float32Array;
+}
+
+export interface WavInfo {
+    sampleRate: number;
+    channels: number;
+    /** Sample frames in the data chunk */
+    frameCount: number;
+    dataStart: number;
+}
+
+// PCM is read this many frames at a time, so a long call never sits in memory as raw bytes
+const BLOCK_FRAMES = 64 * 1024;
+
+// Largest float buffer readWavFile builds: 2 hours at 8 kHz (~230 MB)
+const MAX_SAMPLES = 8000 * 60 * 60 * 2;
+
+/**
+ * Format and data-chunk location of a 16-bit PCM WAV file
+ */
+function readWavInfo(fd: number, wavPath: string): WavInfo {
+    const size = fs.fstatSync(fd).size;
+    const header = Buffer.alloc(12);
+    fs.readSync(fd, header, 0, 12, 0);
+
+    if (header.toString('ascii', 0, 4) !== 'RIFF' || header.toString('ascii', 8, 12) !== 'WAVE') {
+        throw new Error(`Not a WAV file: ${wavPath}`);
+    }
+
+    let offset = 12;
+    let sampleRate = 16000;
+    let channels = 1;
+    let bitsPerSample = 16;
+    const chunk = Buffer.alloc(24);
+
+    // Walk the RIFF chunks; ffmpeg may insert LIST chunks before 'data'
+    while (offset + 8 <= size) {
+        fs.readSync(fd, chunk, 0, 24, offset);
+        const chunkId = chunk.toString('ascii', 0, 4);
+        const chunkSize = chunk.readUInt32LE(4);
+
+        if (chunkId === 'fmt ') {
+            channels = chunk.readUInt16LE(10);
+            sampleRate = chunk.readUInt32LE(12);
+            bitsPerSample = chunk.readUInt16LE(22);
+        } else if (chunkId === 'data') {
+            if (bitsPerSample !== 16) throw new Error(`Unsupported WAV bit depth: ${bitsPerSample}`);
+            const dataStart = offset + 8;
+            const dataLength = Math.min(chunkSize, size - dataStart);
+            return { sampleRate, channels, frameCount: Math.floor(dataLength / (2 * channels)), dataStart };
+        }
+
+        offset += 8 + chunkSize + (chunkSize % 2);
+    }
+
+    throw new Error(`WAV file has no data chunk: ${wavPath}`);
+}
+
+/**
+ * Stream a PCM WAV file as blocks of mono float samples (-1..1).
+ * `onInfo` sees the format before the first block.
+ */
+export function forEachWavBlock(
+    wavPath: string,
+    onBlock: (samples: Float32Array) => void,
+    onInfo?: (info: WavInfo) => void
+): WavInfo {
+    const fd = fs.openSync(wavPath, 'r');
+    try {
+        const info = readWavInfo(fd, wavPath);
+        onInfo?.(info);
+
+        const frameBytes = 2 * info.channels;
+        const buffer = Buffer.alloc(BLOCK_FRAMES * frameBytes);
+
+        for (let frame = 0; frame < info.frameCount; frame += BLOCK_FRAMES) {
+            const frames = Math.min(BLOCK_FRAMES, info.frameCount - frame);
+            const read = fs.readSync(fd, buffer, 0, frames * frameBytes, info.dataStart + frame * frameBytes);
+            const block = new Float32Array(Math.floor(read / frameBytes));
+
+            for (let i = 0; i < block.length; i++) {
+                let sum = 0;
+                for (let c = 0; c < info.channels; c++) {
+                    sum += buffer.readInt16LE((i * info.channels + c) * 2);
+                }
+                block[i] = sum / info.channels / 32768;
+            }
+            onBlock(block);
+            if (read < frames * frameBytes) break;
+        }
+        return info;
+    } finally {
+        fs.closeSync(fd);
+    }
+}
+
+/**
+ * Read a PCM WAV file into mono float samples (-1..1), averaged down to at
+ * most `maxSampleRate`. Refuses recordings whose samples wouldn't fit the
+ * MAX_SAMPLES budget rather than exhausting memory.
+ */
+export function readWavFile(wavPath: string, maxSampleRate?: number): PcmAudio {
+    let samples = new Float32Array(0);
+    let factor = 1;
+    let written = 0;
+    // Frames of a partly filled output sample carried over between blocks
+    let pending = 0;
+    let pendingCount = 0;
+
+    const info = forEachWavBlock(
+        wavPath,
+        block => {
+            for (let i = 0; i < block.length; i++) {
+                pending += block[i];
+                if (++pendingCount === factor) {
+                    samples[written++] = pending / factor;
+                    pending = 0;
+                    pendingCount = 0;
+                }
+            }
+        },
+        ({ sampleRate, frameCount }) => {
+            factor = maxSampleRate ? Math.max(1, Math.floor(sampleRate / maxSampleRate)) : 1;
+            const length = Math.floor(frameCount / factor);
+            if (length > MAX_SAMPLES) {
+                const hours = (frameCount / sampleRate / 3600).toFixed(1);
+                throw new Error(`WAV file too long to load (${hours} h, limit ${MAX_SAMPLES / 8000 / 3600} h at 8 kHz): ${wavPath}`);
+            }
+            samples = new Float32Array(length);
+        }
+    );
+
+    return { sampleRate: info.sampleRate / factor, samples: samples.subarray(0, written) };
+}
@@ -0,0 +1,92 @@
+import fs from 'fs';
+import { forEachWavBlock } from './wav';
+
+/**
+ * Precomputed waveform for the review player, so the full call can be drawn
+ * (and seeked) before playback starts.
+ */
+
+export interface WaveformPeaks {
+    version: 1;
+    sampleRate: number;
+    samplesPerPeak: number;
+    durationSeconds: number;
+    /** Peak absolute amplitude per bucket, 0..1 */
+    peaks: number[];
+}
+
+const DEFAULT_PEAK_COUNT = 1600;
+
+/**
+ * Builds peaks from consecutive blocks of samples, so a recording can be
+ * streamed through without holding all of it in memory
+ */
+export function createPeakBuilder(
+    frameCount: number,
+    sampleRate: number,
+    peakCount: number = DEFAULT_PEAK_COUNT
+): { add: (block: Float32Array) => void; finish: () => WaveformPeaks } {
+    const samplesPerPeak = Math.max(1, Math.ceil(frameCount / peakCount));
+    const peaks: number[] = [];
+    let max = 0;
+    let inBucket = 0;
+    let total = 0;
+
+    const flush = () => {
+        peaks.push(Number(Math.min(1, max).toFixed(3)));
+        max = 0;
+        inBucket = 0;
+    };
+
+    return {
+        add(block) {
+            for (let i = 0; i < block.length; i++) {
+                const value = Math.abs(block[i]);
+                if (value > max) max = value;
+                if (++inBucket === samplesPerPeak) flush();
+            }
+            total += block.length;
+        },
+        finish() {
+            if (inBucket > 0) flush();
+            return {
+                version: 1,
+                sampleRate,
+                samplesPerPeak,
+                durationSeconds: Number((total / sampleRate).toFixed(3)),
+                peaks,
+            };
+        },
+    };
+}
+
+/**
+ * Reduce samples to `peakCount` buckets holding each bucket's peak amplitude
+ */
+export function computePeaks(
+    samples: Float32Array,
+    sampleRate: number,
+    peakCount: number = DEFAULT_PEAK_COUNT
+): WaveformPeaks {
+    const builder = createPeakBuilder(samples.length, sampleRate, peakCount);
+    builder.add(samples);
+    return builder.finish();
+}
+
+/**
+ * Compute peaks for a WAV file (read block by block) and write them next to it as JSON
+ */
+export async function generateWaveform(wavPath: string, outputPath: string): Promise<WaveformPeaks> {
+    console.log('〰️ Generating waveform peaks...');
+    let builder: ReturnType<typeof createPeakBuilder> | undefined;
+    forEachWavBlock(
+        wavPath,
+        block => builder!.add(block),
+        ({ frameCount, sampleRate }) => { builder = createPeakBuilder(frameCount, sampleRate); }
+    );
+    const waveform = builder!.finish();
+
+    await fs.promises.writeFile(outputPath, JSON.stringify(waveform));
+    console.log(`✅ Waveform written: ${waveform.peaks.length} peaks`);
+    return waveform;
+}
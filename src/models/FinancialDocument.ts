@@ -5,16 +5,210 @@ export interface ILineItem {
     quantity: number;
     unitPrice: number;
     totalPrice: number;
+    /** HSN (goods) or SAC (services) code on GST invoices */
+    hsnSac?: string;
+}
+
+export interface ITranscriptSegment {
+    id: number;
+    start: number;
+    end: number;
+    text: string;
+    avgLogprob?: number;
+    noSpeechProb?: number;
+    speaker?: string;
+}
+
+export interface ICallMetrics {
+    durationSeconds: number;
+    speechSeconds: number;
+    silenceSeconds: number;
+    silenceRatio: number;
+    longestDeadAir?: { start: number; end: number; duration: number };
+    deadAirCount: number;
+    talkOver: { start: number; end: number; speakers: string[] }[];
+    /** Only measured on channel-split calls */
+    talkOverSeconds?: number;
+    speakerTalkTime: { speaker: string; seconds: number; share: number }[];
+}
+
+export interface IAudioEnhancement {
+    profile: string;
+    profileVersion: number;
+    status: 'PROCESSING' | 'COMPLETED' | 'FAILED';
+    error?: string;
+    appliedAt?: Date;
+}
+
+export interface IAudioMetadata {
+    container?: string;
+    formatName?: string;
+    durationSeconds: number;
+    codec?: string;
+    sampleRate?: number;
+    channels?: number;
+    bitRate?: number;
+    sizeBytes?: number;
+    recordedAt?: Date;
+}
+
+export interface IKeywordHit {
+    keyword: string;
+    category?: string;
+    matched: string;
+    start: number;
+    end: number;
+    segmentId: number;
+    speaker?: string;
+    source: 'english' | 'native';
+}
+
+export interface IPiiVault {
+    algorithm: 'aes-256-gcm';
+    iv: string;
+    authTag: string;
+    ciphertext: string;
+    tokenCount: number;
+}
+
+/** Redacted LLM output that a parsed (number/date) field was read from, e.g. "[MONEY_1]" */
+export interface IRedactedSources {
+    totalAmount?: string;
+    dueDate?: string;
+}
+
+export interface IPiiAudioSpan {
+    start: number;
+    end: number;
+    type: string;
+}
+
+export interface IAudioRedaction {
+    mode: 'beep' | 'mute';
+    types: string[];
+    spans: IPiiAudioSpan[];
+    status: 'COMPLETED' | 'FAILED';
+    error?: string;
+    /** Unredacted upload and enhanced rendition, by name in private storage */
+    sourceFile?: string;
+    enhancedFile?: string;
+    createdAt?: Date;
+}
+
+export interface ILlmAttempt {
+    task: string;
+    attempt: number;
+    provider: string;
+    model: string;
+    ok: boolean;
+    issues?: string[];
+    durationMs: number;
+}
+
+export interface IFieldEvidence {
+    field: string;
+    quote?: string;
+    supported: boolean;
+    approximate?: boolean;
+    segmentId?: number;
+    start?: number;
+    end?: number;
+    offset?: number;
+    page?: number;
+    /** Fractions of the page image size */
+    boxes?: Array<{ x: number; y: number; w: number; h: number }>;
+}
+
+export interface IOcrWord {
+    text: string;
+    left: number;
+    top: number;
+    width: number;
+    height: number;
+    confidence: number;
+    line: number;
+}
+
+export interface IPageOcr {
+    words: IOcrWord[];
+    width: number;
+    height: number;
+    confidence: number;
+    imageUrl?: string;
+}
+
+export interface IPageText {
+    page: number;
+    text: string;
+    needsOcr?: boolean;
+    ocr?: IPageOcr;
+}
+
+export interface ITextExtraction {
+    method: 'pdf-text' | 'ocr' | 'docx' | 'plain-text' | 'none';
+    pageCount?: number;
+    /** Pages without a text layer (scans) that OCR couldn't read */
+    ocrPages: number[];
+    /** Pages whose text was read by OCR */
+    ocrAppliedPages: number[];
+    /** Word documents: number of tables */
+    tableCount?: number;
+    /** Plain text: encoding the file was decoded from */
+    encoding?: string;
+}
+
+export interface IFieldConfidence {
+    field: string;
+    score: number;
+    factors: { evidence: number; agreement: number; repairs: number; transcription: number };
+    agreed?: boolean;
+    missing?: boolean;
+}
+
+export interface IAnalysisChunking {
+    chunkCount: number;
+    failedChunks: number[];
+    contextTokens: number;
+    /** Fields the chunks disagreed on, and the value kept */
+    conflicts: Array<{ field: string; values: string[]; chosen: string }>;
+}
+
+export interface IValidationFinding {
+    check: 'line-total' | 'subtotal' | 'total' | 'due-date' | 'gstin' | 'hsn-sac' | 'tax-split';
+    field: string;
+    message: string;
+    expected?: number;
+    actual?: number;
+}
+
+export interface ICorrection {
+    field: string;
+    /** What the AI extracted (kept across repeated edits of the field) */
+    originalValue?: unknown;
+    previousValue?: unknown;
+    correctedValue?: unknown;
+    editedBy: string;
+    role: string;
+    editedAt: Date;
 }
 
 export interface IFinancialDocument extends Document {
     fileName: string;
     fileUrl?: string;
     enhancedAudioUrl?: string;
+    /** Enhanced rendition with PII spans beeped out, safe to share */
+    redactedAudioUrl?: string;
+    audioRedaction?: IAudioRedaction;
+    enhancement?: IAudioEnhancement;
+    waveformUrl?: string;
     fileType: string;
+    audioMetadata?: IAudioMetadata;
+    audioWarnings?: string[];
     uploadedAt: Date;
-    status: 'PROCESSING' | 'COMPLETED' | 'FAILED';
+    /** NEEDS_REVIEW: processed, but a key field scored below the confidence threshold */
+    status: 'PROCESSING' | 'COMPLETED' | 'NEEDS_REVIEW' | 'FAILED';
     userId?: string;
+    organizationId?: string;
 
     // Extracted Data
     documentType?: string;
@@ -30,9 +224,26 @@ export interface IFinancialDocument extends Document {
     totalAmount?: number;
     currency?: string;
     lineItems?: ILineItem[];
+    // Indian GST
+    vendorGstin?: string;
+    clientGstin?: string;
+    placeOfSupply?: string;
+    cgstAmount?: number;
+    sgstAmount?: number;
+    igstAmount?: number;
+
+    // Document text (per page for PDFs)
+    pages?: IPageText[];
+    textExtraction?: ITextExtraction;
 
     // Audio Analysis Data
     transcript?: string;
+    segments?: ITranscriptSegment[];
+    nativeTranscript?: string;
+    language?: string;
+    languageSource?: 'detected' | 'override';
+    /** 'channels' when each speaker was transcribed from their own stereo channel */
+    speakerSource?: 'channels' | 'diarization';
     sentiment?: 'Positive' | 'Neutral' | 'Negative';
     speakers?: string[];
     topics?: string[];
@@ -43,6 +254,44 @@ export interface IFinancialDocument extends Document {
     emotionalState?: string;
     complianceNotes?: string[];
 
+    // Evidence (the quote behind each extracted value)
+    evidence?: IFieldEvidence[];
+    /** Extracted values with no quote found in the source */
+    unsupportedFields?: string[];
+
+    // Confidence (per extracted field; key fields missing or below the threshold → NEEDS_REVIEW)
+    confidence?: IFieldConfidence[];
+    lowConfidenceFields?: string[];
+    validationFindings?: IValidationFinding[];
+
+    /** Every LLM call made while analysing (repair prompts included) */
+    llmAttempts?: ILlmAttempt[];
+    /** Set when the transcript was too long for one call and was analysed in chunks */
+    analysisChunking?: IAnalysisChunking;
+
+    // Human corrections (edit history, oldest first)
+    corrections?: ICorrection[];
+    /** Distinct fields a reviewer has changed */
+    correctedFields?: string[];
+    correctedAt?: Date;
+    /** Reviewer who cleared NEEDS_REVIEW */
+    reviewedBy?: string;
+    reviewedAt?: Date;
+
+    // PII Redaction (transcripts are stored redacted; originals live in the encrypted vault)
+    piiVault?: IPiiVault;
+    redactionSummary?: Record<string, number>;
+    /** Parsed values can't be matched against the vault, so chat sends these instead */
+    redactedSources?: IRedactedSources;
+
+    // Keyword Spotting
+    keywordHits?: IKeywordHit[];
+    /** Distinct keywords with at least one hit, for filtering */
+    keywordsMatched?: string[];
+
+    // Call Quality Metrics (VAD)
+    callMetrics?: ICallMetrics;
+
     // Metadata
     processingError?: string;
     processedAt?: Date;
@@ -53,21 +302,234 @@ const LineItemSchema = new Schema({
     quantity: { type: Number, required: true },
     unitPrice: { type: Number, required: true },
     totalPrice: { type: Number, required: true },
+    hsnSac: { type: String },
+}, { _id: false });
+
+const TranscriptSegmentSchema = new Schema({
+    id: { type: Number, required: true },
+    start: { type: Number, required: true },
+    end: { type: Number, required: true },
+    text: { type: String, default: '' },
+    avgLogprob: { type: Number },
+    noSpeechProb: { type: Number },
+    speaker: { type: String },
+}, { _id: false });
+
+const CallMetricsSchema = new Schema({
+    durationSeconds: { type: Number, required: true },
+    speechSeconds: { type: Number, required: true },
+    silenceSeconds: { type: Number, required: true },
+    silenceRatio: { type: Number, required: true },
+    longestDeadAir: {
+        type: new Schema({
+            start: { type: Number, required: true },
+            end: { type: Number, required: true },
+            duration: { type: Number, required: true },
+        }, { _id: false }),
+    },
+    deadAirCount: { type: Number, default: 0 },
+    talkOver: [new Schema({
+        start: { type: Number, required: true },
+        end: { type: Number, required: true },
+        speakers: [{ type: String }],
+    }, { _id: false })],
+    talkOverSeconds: { type: Number },
+    speakerTalkTime: [new Schema({
+        speaker: { type: String, required: true },
+        seconds: { type: Number, required: true },
+        share: { type: Number, required: true },
+    }, { _id: false })],
+}, { _id: false });
+
+const AudioEnhancementSchema = new Schema({
+    profile: { type: String, required: true },
+    profileVersion: { type: Number, required: true },
+    status: {
+        type: String,
+        enum: ['PROCESSING', 'COMPLETED', 'FAILED'],
+        default: 'COMPLETED',
+    },
+    error: { type: String },
+    appliedAt: { type: Date },
+}, { _id: false });
+
+const PiiVaultSchema = new Schema({
+    algorithm: { type: String, enum: ['aes-256-gcm'], required: true },
+    iv: { type: String, required: true },
+    authTag: { type: String, required: true },
+    ciphertext: { type: String, required: true },
+    tokenCount: { type: Number, default: 0 },
+}, { _id: false });
+
+const RedactedSourcesSchema = new Schema({
+    totalAmount: { type: String },
+    dueDate: { type: String },
+}, { _id: false });
+
+const AudioRedactionSchema = new Schema({
+    mode: { type: String, enum: ['beep', 'mute'], required: true },
+    types: [{ type: String }],
+    spans: [new Schema({
+        start: { type: Number, required: true },
+        end: { type: Number, required: true },
+        type: { type: String, required: true },
+    }, { _id: false })],
+    status: { type: String, enum: ['COMPLETED', 'FAILED'], default: 'COMPLETED' },
+    error: { type: String },
+    sourceFile: { type: String },
+    enhancedFile: { type: String },
+    createdAt: { type: Date },
+}, { _id: false });
+
+const EvidenceBoxSchema = new Schema({
+    x: { type: Number, required: true },
+    y: { type: Number, required: true },
+    w: { type: Number, required: true },
+    h: { type: Number, required: true },
+}, { _id: false });
+
+const FieldEvidenceSchema = new Schema({
+    field: { type: String, required: true },
+    quote: { type: String },
+    supported: { type: Boolean, required: true },
+    approximate: { type: Boolean },
+    segmentId: { type: Number },
+    start: { type: Number },
+    end: { type: Number },
+    offset: { type: Number },
+    page: { type: Number },
+    boxes: [EvidenceBoxSchema],
+}, { _id: false });
+
+const OcrWordSchema = new Schema({
+    text: { type: String, required: true },
+    left: { type: Number, required: true },
+    top: { type: Number, required: true },
+    width: { type: Number, required: true },
+    height: { type: Number, required: true },
+    confidence: { type: Number },
+    line: { type: Number },
+}, { _id: false });
+
+const PageOcrSchema = new Schema({
+    words: [OcrWordSchema],
+    width: { type: Number, required: true },
+    height: { type: Number, required: true },
+    confidence: { type: Number },
+    imageUrl: { type: String },
+}, { _id: false });
+
+const PageTextSchema = new Schema({
+    page: { type: Number, required: true },
+    text: { type: String, default: '' },
+    needsOcr: { type: Boolean },
+    ocr: PageOcrSchema,
+}, { _id: false });
+
+const TextExtractionSchema = new Schema({
+    method: { type: String, enum: ['pdf-text', 'ocr', 'docx', 'plain-text', 'none'], required: true },
+    pageCount: { type: Number },
+    ocrPages: [{ type: Number }],
+    ocrAppliedPages: [{ type: Number }],
+    tableCount: { type: Number },
+    encoding: { type: String },
+}, { _id: false });
+
+const FieldConfidenceSchema = new Schema({
+    field: { type: String, required: true },
+    score: { type: Number, required: true },
+    factors: {
+        evidence: { type: Number },
+        agreement: { type: Number },
+        repairs: { type: Number },
+        transcription: { type: Number },
+    },
+    agreed: { type: Boolean },
+    missing: { type: Boolean },
+}, { _id: false });
+
+const ValidationFindingSchema = new Schema({
+    check: { type: String, enum: ['line-total', 'subtotal', 'total', 'due-date', 'gstin', 'hsn-sac', 'tax-split'], required: true },
+    field: { type: String, required: true },
+    message: { type: String, required: true },
+    expected: { type: Number },
+    actual: { type: Number },
+}, { _id: false });
+
+const LlmAttemptSchema = new Schema({
+    task: { type: String, required: true },
+    attempt: { type: Number, required: true },
+    provider: { type: String, required: true },
+    model: { type: String, required: true },
+    ok: { type: Boolean, required: true },
+    issues: [{ type: String }],
+    durationMs: { type: Number, default: 0 },
+}, { _id: false });
+
+const AnalysisChunkingSchema = new Schema({
+    chunkCount: { type: Number, required: true },
+    failedChunks: [{ type: Number }],
+    contextTokens: { type: Number },
+    conflicts: [new Schema({
+        field: { type: String, required: true },
+        values: [{ type: String }],
+        chosen: { type: String },
+    }, { _id: false })],
+}, { _id: false });
+
+const CorrectionSchema = new Schema({
+    field: { type: String, required: true },
+    originalValue: { type: Schema.Types.Mixed },
+    previousValue: { type: Schema.Types.Mixed },
+    correctedValue: { type: Schema.Types.Mixed },
+    editedBy: { type: String, required: true },
+    role: { type: String, required: true },
+    editedAt: { type: Date, default: Date.now },
+}, { _id: false });
+
+const KeywordHitSchema = new Schema({
+    keyword: { type: String, required: true },
+    category: { type: String },
+    matched: { type: String, required: true },
+    start: { type: Number, required: true },
+    end: { type: Number, required: true },
+    segmentId: { type: Number, required: true },
+    speaker: { type: String },
+    source: { type: String, enum: ['english', 'native'], default: 'english' },
+}, { _id: false });
+
+const AudioMetadataSchema = new Schema({
+    container: { type: String },
+    formatName: { type: String },
+    durationSeconds: { type: Number, required: true },
+    codec: { type: String },
+    sampleRate: { type: Number },
+    channels: { type: Number },
+    bitRate: { type: Number },
+    sizeBytes: { type: Number },
+    recordedAt: { type: Date },
 }, { _id: false });
 
 const FinancialDocumentSchema = new Schema<IFinancialDocument>({
     fileName: { type: String, required: true },
     fileUrl: { type: String },
     enhancedAudioUrl: { type: String },
+    redactedAudioUrl: { type: String },
+    audioRedaction: AudioRedactionSchema,
+    enhancement: AudioEnhancementSchema,
+    waveformUrl: { type: String },
     fileType: { type: String, required: true },
+    audioMetadata: AudioMetadataSchema,
+    audioWarnings: [{ type: String }],
     uploadedAt: { type: Date, default: Date.now },
     status: {
         type: String,
-        enum: ['PROCESSING', 'COMPLETED', 'FAILED'],
+        enum: ['PROCESSING', 'COMPLETED', 'NEEDS_REVIEW', 'FAILED'],
         default: 'PROCESSING',
         required: true
     },
     userId: { type: String, index: true },
+    organizationId: { type: String, index: true },
 
     // Extracted Data
     documentType: { type: String },
@@ -84,8 +546,25 @@ const FinancialDocumentSchema = new Schema<IFinancialDocument>({
     currency: { type: String, default: 'USD' },
     lineItems: [LineItemSchema],
 
+    // Indian GST (GSTINs are stored normalised: no spaces, upper case)
+    vendorGstin: { type: String },
+    clientGstin: { type: String },
+    placeOfSupply: { type: String },
+    cgstAmount: { type: Number },
+    sgstAmount: { type: Number },
+    igstAmount: { type: Number },
+
+    // Document text
+    pages: [PageTextSchema],
+    textExtraction: TextExtractionSchema,
+
     // Audio Analysis Data
     transcript: { type: String },
+    segments: [TranscriptSegmentSchema],
+    nativeTranscript: { type: String },
+    language: { type: String },
+    languageSource: { type: String, enum: ['detected', 'override'] },
+    speakerSource: { type: String, enum: ['channels', 'diarization'] },
     sentiment: { type: String, enum: ['Positive', 'Neutral', 'Negative'] },
     speakers: [{ type: String }],
     topics: [{ type: String }],
@@ -96,6 +575,39 @@ const FinancialDocumentSchema = new Schema<IFinancialDocument>({
     emotionalState: { type: String },
     complianceNotes: [{ type: String }],
 
+    // Evidence
+    evidence: [FieldEvidenceSchema],
+    unsupportedFields: [{ type: String }],
+
+    // Confidence
+    confidence: [FieldConfidenceSchema],
+    lowConfidenceFields: [{ type: String }],
+
+    // Arithmetic checks of extracted invoices (left unset on calls, which aren't validated)
+    validationFindings: { type: [ValidationFindingSchema], default: undefined },
+
+    llmAttempts: [LlmAttemptSchema],
+    analysisChunking: AnalysisChunkingSchema,
+
+    // Human corrections
+    corrections: [CorrectionSchema],
+    correctedFields: [{ type: String }],
+    correctedAt: { type: Date },
+    reviewedBy: { type: String },
+    reviewedAt: { type: Date },
+
+    // PII Redaction (never returned unless explicitly selected)
+    piiVault: { type: PiiVaultSchema, select: false },
+    redactionSummary: { type: Map, of: Number },
+    redactedSources: RedactedSourcesSchema,
+
+    // Keyword Spotting
+    keywordHits: [KeywordHitSchema],
+    keywordsMatched: [{ type: String }],
+
+    // Call Quality Metrics (VAD)
+    callMetrics: CallMetricsSchema,
+
     // Metadata
     processingError: { type: String },
     processedAt: { type: Date },
@@ -107,6 +619,8 @@ const FinancialDocumentSchema = new Schema<IFinancialDocument>({
 // Create indexes for efficient querying
 FinancialDocumentSchema.index({ status: 1, uploadedAt: -1 });
 FinancialDocumentSchema.index({ userId: 1, uploadedAt: -1 });
+FinancialDocumentSchema.index({ keywordsMatched: 1, uploadedAt: -1 });
+FinancialDocumentSchema.index({ correctedAt: -1 }, { sparse: true });
 
 // Prevent model recompilation in development
 const FinancialDocument: Model<IFinancialDocument> =
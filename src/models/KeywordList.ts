@@ -0,0 +1,37 @@
+import mongoose, { Schema, Document, Model } from 'mongoose';
+
+export interface IKeyword {
+    /** Canonical phrase reported on a hit, e.g. 'stop calling' */
+    phrase: string;
+    /** Other spellings/scripts that count as the same phrase, e.g. 'qist', 'किस्त' */
+    aliases?: string[];
+    category?: string;
+}
+
+export interface IKeywordList extends Document {
+    organizationId: string;
+    keywords: IKeyword[];
+    createdAt: Date;
+    updatedAt: Date;
+}
+
+const KeywordSchema = new Schema({
+    phrase: { type: String, required: true, trim: true },
+    aliases: [{ type: String, trim: true }],
+    category: { type: String, trim: true },
+}, { _id: false });
+
+const KeywordListSchema = new Schema<IKeywordList>({
+    organizationId: { type: String, required: true, unique: true },
+    keywords: [KeywordSchema],
+}, {
+    timestamps: true,
+    collection: 'keyword_lists'
+});
+
+// Prevent model recompilation in development
+const KeywordList: Model<IKeywordList> =
+    mongoose.models.KeywordList ||
+    mongoose.model<IKeywordList>('KeywordList', KeywordListSchema);
+
+export default KeywordList;